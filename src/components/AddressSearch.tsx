@@ -5,9 +5,15 @@ import './AddressSearch.scss';
 
 interface AddressSearchProps {
   onLocationFound: (result: GeocodeResult) => void;
+  label?: string;
+  placeholder?: string;
 }
 
-export function AddressSearch({ onLocationFound }: AddressSearchProps) {
+export function AddressSearch({
+  onLocationFound,
+  label = 'Office Address',
+  placeholder = 'Enter office address (e.g., 350 5th Ave, New York, NY)',
+}: AddressSearchProps) {
   const [inputValue, setInputValue] = useState('');
   const [error, setError] = useState<string | null>(null);
 
@@ -54,7 +60,7 @@ export function AddressSearch({ onLocationFound }: AddressSearchProps) {
     <div className="address-search">
       <div className="address-search__form">
         <label htmlFor="address-input" className="address-search__label">
-          Office Address
+          {label}
         </label>
         <div className="address-search__input-wrapper">
           <SearchBox
@@ -68,7 +74,7 @@ export function AddressSearch({ onLocationFound }: AddressSearchProps) {
               bbox: [-74.5, 40.4, -73.5, 41.0], // NYC bounding box
               limit: 5,
             }}
-            placeholder="Enter office address (e.g., 350 5th Ave, New York, NY)"
+            placeholder={placeholder}
           />
         </div>
         {error && (
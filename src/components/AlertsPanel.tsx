@@ -0,0 +1,57 @@
+import type { ServiceAlert } from '../types/alerts';
+import type { Route, Station } from '../types/network';
+import { getRouteColor, getRouteLabel } from '../utils/routeColors';
+import './AlertsPanel.scss';
+
+interface AlertsPanelProps {
+  alerts: ServiceAlert[]; // Alerts active at the time being planned for
+  stationMap: Map<string, Station>;
+  routeMap: Map<string, Route>; // Empty for networks built without routes
+}
+
+export function AlertsPanel({ alerts, stationMap, routeMap }: AlertsPanelProps) {
+  const stationName = (id: string) => stationMap.get(id)?.name ?? id;
+
+  return (
+    <section className="alerts-panel" aria-label="Service alerts">
+      <h2 className="alerts-panel__title">Service alerts</h2>
+      <ul className="alerts-panel__list">
+        {alerts.map((alert) => {
+          const routeIds = Array.from(
+            new Set(alert.informedEntities.flatMap((entity) => (entity.routeId ? [entity.routeId] : [])))
+          );
+          const stationIds = Array.from(
+            new Set(alert.informedEntities.flatMap((entity) => (entity.stationId ? [entity.stationId] : [])))
+          );
+
+          return (
+            <li key={alert.id} className="alerts-panel__alert">
+              <div className="alerts-panel__header">
+                {routeIds.map((routeId) => (
+                  <span
+                    key={routeId}
+                    className="alerts-panel__route"
+                    style={{ backgroundColor: getRouteColor(routeId, routeMap.get(routeId)) }}
+                  >
+                    {getRouteLabel(routeId, routeMap.get(routeId))}
+                  </span>
+                ))}
+                {alert.closesService && <span className="alerts-panel__closed">No service</span>}
+              </div>
+              <p className="alerts-panel__text">{alert.header}</p>
+              {stationIds.length > 0 && (
+                <p className="alerts-panel__stations">At {stationIds.map(stationName).join(', ')}</p>
+              )}
+              {alert.description && (
+                <details className="alerts-panel__details">
+                  <summary>Details</summary>
+                  <p>{alert.description}</p>
+                </details>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,96 @@
+import type { Route, Station } from '../types/network';
+import type { Itinerary } from '../types/isochrone';
+import { getRouteColor, getRouteLabel } from '../utils/routeColors';
+import { formatDuration, getWaitTimeSec } from '../utils/itinerary';
+import { ACCESS_MODES } from '../utils/access';
+import './ItineraryPanel.scss';
+
+interface ItineraryPanelProps {
+  stationId: string;
+  itinerary: Itinerary | null; // null when the station isn't reachable within the budget
+  stationMap: Map<string, Station>;
+  routeMap: Map<string, Route>; // Empty for networks built without routes
+  onClose: () => void;
+}
+
+export function ItineraryPanel({ stationId, itinerary, stationMap, routeMap, onClose }: ItineraryPanelProps) {
+  const stationName = (id: string) => stationMap.get(id)?.name ?? id;
+  const waitTimeSec = itinerary ? getWaitTimeSec(itinerary) : 0;
+
+  return (
+    <section className="itinerary-panel" aria-label="Directions">
+      <div className="itinerary-panel__header">
+        <h2 className="itinerary-panel__title">{stationName(stationId)}</h2>
+        <button
+          type="button"
+          className="itinerary-panel__close"
+          aria-label="Close directions"
+          onClick={onClose}
+        >
+          ×
+        </button>
+      </div>
+
+      {itinerary ? (
+        <>
+          <div className="itinerary-panel__total">
+            Total: {formatDuration(itinerary.totalTimeSec)}
+            {waitTimeSec > 0 && (
+              <span className="itinerary-panel__wait"> (incl. {formatDuration(waitTimeSec)} waiting)</span>
+            )}
+          </div>
+          <ol className="itinerary-panel__legs">
+            {itinerary.legs.map((leg, index) => {
+              switch (leg.type) {
+                case 'walk':
+                  return (
+                    <li key={index} className="itinerary-panel__leg">
+                      <span className="itinerary-panel__leg-text">
+                        {`${ACCESS_MODES[leg.accessMode ?? 'walk'].legLabel} to ${
+                          leg.toStationId === null ? 'the office' : stationName(leg.toStationId)
+                        }`}
+                      </span>
+                      <span className="itinerary-panel__leg-time">{formatDuration(leg.durationSec)}</span>
+                    </li>
+                  );
+                case 'ride':
+                  return (
+                    <li key={index} className="itinerary-panel__leg">
+                      <span className="itinerary-panel__leg-text">
+                        <span
+                          className="itinerary-panel__route"
+                          style={{ backgroundColor: getRouteColor(leg.routeId, routeMap.get(leg.routeId)) }}
+                        >
+                          {getRouteLabel(leg.routeId, routeMap.get(leg.routeId))}
+                        </span>
+                        {leg.stopCount} {leg.stopCount === 1 ? 'stop' : 'stops'} to {stationName(leg.toStationId)}
+                        {leg.waitSec > 0 && (
+                          <span className="itinerary-panel__wait"> (wait {formatDuration(leg.waitSec)})</span>
+                        )}
+                      </span>
+                      <span className="itinerary-panel__leg-time">
+                        {formatDuration(leg.waitSec + leg.durationSec)}
+                      </span>
+                    </li>
+                  );
+                case 'transfer':
+                  return (
+                    <li key={index} className="itinerary-panel__leg itinerary-panel__leg--transfer">
+                      <span className="itinerary-panel__leg-text">
+                        {leg.fromStationId === leg.toStationId
+                          ? `Transfer at ${stationName(leg.toStationId)}`
+                          : `Transfer to ${stationName(leg.toStationId)}`}
+                      </span>
+                      <span className="itinerary-panel__leg-time">{formatDuration(leg.durationSec)}</span>
+                    </li>
+                  );
+              }
+            })}
+          </ol>
+        </>
+      ) : (
+        <p className="itinerary-panel__empty">Not reachable within the selected travel time.</p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,136 @@
+import type { Station } from '../types/network';
+import type { GeocodeResult } from '../types/geocoding';
+import type { FairnessMetric, MultiOfficeResult, OfficeCommute } from '../types/isochrone';
+import { formatDuration } from '../utils/itinerary';
+import { getFairness } from '../utils/multiOffice';
+import { TRAVEL_TIME_OPTIONS_MINUTES } from '../utils/plannerState';
+import { AddressSearch } from './AddressSearch';
+import './OfficeCommutesPanel.scss';
+
+// Only the fairest stations are listed
+const MAX_TABLE_ROWS = 15;
+
+interface OfficeCommutesPanelProps {
+  offices: OfficeCommute[]; // The first office is the one searched at the top of the panel
+  onAddOffice: (location: GeocodeResult) => void;
+  onChangeBudget: (index: number, travelTimeMinutes: number) => void;
+  onRemoveOffice: (index: number) => void;
+  fairnessMetric: FairnessMetric;
+  onChangeFairnessMetric: (metric: FairnessMetric) => void;
+  result: MultiOfficeResult | null;
+  isCalculating: boolean;
+  stationMap: Map<string, Station>;
+  onSelectStation: (stationId: string) => void;
+}
+
+export function OfficeCommutesPanel({
+  offices,
+  onAddOffice,
+  onChangeBudget,
+  onRemoveOffice,
+  fairnessMetric,
+  onChangeFairnessMetric,
+  result,
+  isCalculating,
+  stationMap,
+  onSelectStation,
+}: OfficeCommutesPanelProps) {
+  const hasSeveralOffices = offices.length > 1;
+
+  return (
+    <section className="office-commutes" aria-label="Offices">
+      <h2 className="office-commutes__title">Offices</h2>
+      <ol className="office-commutes__offices">
+        {offices.map((office, index) => (
+          <li key={index} className="office-commutes__office">
+            <span className="office-commutes__office-name">
+              {office.location.placeName || `Office ${index + 1}`}
+            </span>
+            {index === 0 ? (
+              <span className="office-commutes__budget">{office.travelTimeMinutes}m</span>
+            ) : (
+              <>
+                <select
+                  className="office-commutes__budget"
+                  aria-label={`Travel time for office ${index + 1}`}
+                  value={office.travelTimeMinutes}
+                  onChange={(e) => onChangeBudget(index, Number(e.target.value))}
+                >
+                  {TRAVEL_TIME_OPTIONS_MINUTES.map((minutes) => (
+                    <option key={minutes} value={minutes}>
+                      {minutes}m
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  className="office-commutes__remove"
+                  aria-label={`Remove office ${index + 1}`}
+                  onClick={() => onRemoveOffice(index)}
+                >
+                  ×
+                </button>
+              </>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <AddressSearch
+        label="Add another office"
+        placeholder="Another office to share a home with"
+        onLocationFound={onAddOffice}
+      />
+
+      {hasSeveralOffices && (
+        <>
+          <label className="office-commutes__metric">
+            Fairest by:{' '}
+            <select
+              value={fairnessMetric}
+              onChange={(e) => onChangeFairnessMetric(e.target.value as FairnessMetric)}
+            >
+              <option value="max">Longest commute</option>
+              <option value="difference">Difference between commutes</option>
+            </select>
+          </label>
+
+          {isCalculating ? (
+            <p className="office-commutes__empty">Calculating…</p>
+          ) : result && result.sharedStations.length > 0 ? (
+            <table className="office-commutes__table">
+              <thead>
+                <tr>
+                  <th scope="col">Station</th>
+                  {offices.map((_, index) => (
+                    <th key={index} scope="col">
+                      Office {index + 1}
+                    </th>
+                  ))}
+                  <th scope="col">{fairnessMetric === 'max' ? 'Longest' : 'Difference'}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.sharedStations.slice(0, MAX_TABLE_ROWS).map((station) => (
+                  <tr
+                    key={station.stationId}
+                    className="office-commutes__row"
+                    onClick={() => onSelectStation(station.stationId)}
+                  >
+                    <td>{stationMap.get(station.stationId)?.name ?? station.stationId}</td>
+                    {station.travelTimesSec.map((timeSec, index) => (
+                      <td key={index}>{formatDuration(timeSec)}</td>
+                    ))}
+                    <td>{formatDuration(getFairness(station, fairnessMetric))}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="office-commutes__empty">No area is within every office's travel time.</p>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
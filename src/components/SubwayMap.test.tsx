@@ -14,6 +14,8 @@ vi.mock('../hooks/useNetworkData', () => ({
 // Mock the routeColors utility
 vi.mock('../utils/routeColors', () => ({
   getRouteColor: vi.fn((routeId: string) => `#color-${routeId}`),
+  modeStyles: { subway: { label: 'Subway', color: '#7C858C', lineWidth: 3 } },
+  TRANSIT_MODES: ['subway'],
 }));
 
 import { useNetworkData } from '../hooks/useNetworkData';
@@ -70,6 +72,7 @@ describe('SubwayMap', () => {
             name: 'Test Station',
             routesServed: ['1', '2'],
             accessible: true,
+            mode: 'subway',
           },
         },
       ],
@@ -92,6 +95,8 @@ describe('SubwayMap', () => {
             toId: 'station-2',
             travelTimeSec: 120,
             routeId: '1',
+            offset: 0,
+            mode: 'subway',
           },
         },
       ],
@@ -130,6 +135,8 @@ describe('SubwayMap', () => {
             toId: 'station-2',
             travelTimeSec: 120,
             routeId: '1',
+            offset: 0,
+            mode: 'subway',
           },
         },
       ],
@@ -163,6 +170,7 @@ describe('SubwayMap', () => {
             name: 'Test Station',
             routesServed: ['1', '2'],
             accessible: true,
+            mode: 'subway',
           },
         },
       ],
@@ -1,29 +1,106 @@
 import { useMemo, useRef, useState, useEffect, useCallback } from 'react';
-import MapGL, { Source, Layer, MapRef } from 'react-map-gl';
+import MapGL, { Source, Layer, MapRef, MapLayerMouseEvent } from 'react-map-gl';
 import maplibregl from 'maplibre-gl';
 import mapboxgl from 'mapbox-gl';
 import 'maplibre-gl/dist/maplibre-gl.css';
 import { useNetworkData } from '../hooks/useNetworkData';
-import { getRouteColor } from '../utils/routeColors';
+import { getRouteColor, modeStyles } from '../utils/routeColors';
+import { edgesToGeoJSON } from '../utils/geojson';
 import type { EdgeFeature } from '../utils/geojson';
+import { getGraph, DEFAULT_WAIT_FACTOR, CHECKED_APP_WAIT_FACTOR } from '../utils/routing';
 import { SearchBox } from '@mapbox/search-js-react';
 import type { GeocodeResult } from '../types/geocoding';
-import { createIsochrone } from '../utils/isochrone';
+import type { Route, Station, TransitMode } from '../types/network';
+import type { ServiceAlert } from '../types/alerts';
+import type { DelaysFile } from '../types/delays';
+import type { BikeShareStation } from '../types/bikeShare';
+import type { StreetsFile } from '../types/streets';
+import type {
+    AccessMode,
+    DepartureTime,
+    FairnessMetric,
+    IsochroneOptions,
+    IsochroneResult,
+    OfficeCommute,
+    TravelDirection,
+} from '../types/isochrone';
+import type { ServiceProfileId } from '../types/serviceProfile';
+import type { MapViewport } from '../types/plannerState';
+import { createIsochroneService } from '../services/isochroneService';
+import { getAvailableProfileIds } from '../services/serviceProfileLoader';
+import { loadAlerts } from '../services/alertsLoader';
+import { loadDelays } from '../services/delaysLoader';
+import { loadBikeShareStations } from '../services/bikeShareLoader';
+import { loadStreets } from '../services/streetsLoader';
+import { DAY_TYPES, TIME_BANDS, getProfileId } from '../utils/serviceProfiles';
+import {
+    departureTimeToUnix,
+    formatServiceDate,
+    getFeedValidity,
+    getTodayServiceDate,
+    parseDepartureTime,
+} from '../utils/serviceCalendar';
+import { itineraryToGeoJSON } from '../utils/itinerary';
+import { combineOfficeIsochrones } from '../utils/multiOffice';
+import { getActiveAlerts, getClosures } from '../utils/alerts';
+import { formatSnapshotTime } from '../utils/delays';
+import { getNetworkModes } from '../utils/modes';
+import { ACCESS_MODES } from '../utils/access';
+import { getStationIndex } from '../utils/spatialIndex';
+import { travelTimeGridToImage } from '../utils/heatmap';
+import { isochronesToGeoJSON, isochronesToKML, reachableStationsToCSV } from '../utils/export';
+import type { IsochroneBand } from '../utils/export';
+import { downloadTextFile } from '../utils/download';
+import {
+    BAND_INTERVALS_MINUTES,
+    TRAVEL_TIME_OPTIONS_MINUTES,
+    formatPlannerState,
+    parsePlannerState,
+} from '../utils/plannerState';
+import { AlertsPanel } from './AlertsPanel';
+import { ItineraryPanel } from './ItineraryPanel';
+import { OfficeCommutesPanel } from './OfficeCommutesPanel';
 import './SubwayMap.scss';
 
 export function SubwayMap() {
     const mapRef = useRef<MapRef>(null);
-    const [inputValue, setInputValue] = useState('');
+    const [mapLoaded, setMapLoaded] = useState(false);
+    // Planner state from a shared link, read once on load; every setting below starts from it
+    const [initialState] = useState(() => parsePlannerState(window.location.search));
+    const [viewport, setViewport] = useState<MapViewport>(initialState.viewport);
+    const [inputValue, setInputValue] = useState(initialState.office?.placeName ?? '');
     const markerRef = useRef<mapboxgl.Marker | null>(null);
-    const [officeLocation, setOfficeLocation] = useState<GeocodeResult | null>(null);
-    const DEFAULT_TRAVEL_TIME_MINUTES = 30;
-    const [travelTimeMinutes, setTravelTimeMinutes] = useState(DEFAULT_TRAVEL_TIME_MINUTES);
-    const [isochrones, setIsochrones] = useState<Map<number, GeoJSON.Feature<GeoJSON.Polygon> | null>>(new Map());
+    const [officeLocation, setOfficeLocation] = useState<GeocodeResult | null>(initialState.office);
+    const [travelTimeMinutes, setTravelTimeMinutes] = useState(initialState.travelTimeMinutes);
+    // Minutes between isochrone bands; every band is a contour of one travel-time grid
+    const [bandMinutes, setBandMinutes] = useState(initialState.bandMinutes);
+    const [showHeatmap, setShowHeatmap] = useState(initialState.showHeatmap);
+    const [departureInput, setDepartureInput] = useState(initialState.departureInput);
+    const [direction, setDirection] = useState<TravelDirection>(initialState.direction);
+    const [accessibleOnly, setAccessibleOnly] = useState(initialState.accessibleOnly);
+    // Share of the headway spent waiting to board
+    const [waitFactor, setWaitFactor] = useState(initialState.waitFactor);
+    const [isochrones, setIsochrones] = useState<Map<number, IsochroneResult | null>>(new Map());
+    const [selectedStationId, setSelectedStationId] = useState<string | null>(initialState.selectedStationId);
+    // Offices besides officeLocation, for people looking for a home together
+    const [additionalOffices, setAdditionalOffices] = useState<OfficeCommute[]>(initialState.additionalOffices);
+    const [additionalIsochrones, setAdditionalIsochrones] = useState<Map<string, IsochroneResult | null>>(new Map());
+    const [fairnessMetric, setFairnessMetric] = useState<FairnessMetric>(initialState.fairnessMetric);
     const [isCalculatingIsochrones, setIsCalculatingIsochrones] = useState(false);
-    const { stations, edges, network, loading, error } = useNetworkData();
+    // Service profile (day type and time band); null uses all-day edges
+    const availableProfileIds = useMemo(() => new Set(getAvailableProfileIds()), []);
+    const [profileId, setProfileId] = useState<ServiceProfileId | null>(() =>
+        initialState.profileId && availableProfileIds.has(initialState.profileId) ? initialState.profileId : null);
+    const { stations, edges, network, loading, error } = useNetworkData(profileId);
 
-    // Cache for isochrone results: key = "lat_lon_time" (rounded to 15 minutes)
-    const isochroneCacheRef = useRef<Map<string, GeoJSON.Feature<GeoJSON.Polygon> | null>>(new Map());
+    // Cache for isochrone results: key = "lat_lon_time_departure_direction_access_profile_wait_closures_delays" (time rounded to 15 minutes)
+    const isochroneCacheRef = useRef<Map<string, IsochroneResult | null>>(new Map());
+
+    // Worker-backed isochrone service, shut down on unmount
+    const isochroneService = useMemo(() => createIsochroneService(), []);
+    useEffect(() => {
+        return () => isochroneService.terminate();
+    }, [isochroneService]);
 
     const apiToken = import.meta.env.VITE_MAPBOX_ACCESS_TOKEN;
 
@@ -50,71 +127,275 @@ export function SubwayMap() {
         return Math.round(travelTimeMinutes / 15) * 15;
     }, [travelTimeMinutes]);
 
-    // Calculate all isochrones from 15 minutes up to the selected time (in 15-minute increments)
+    // Band every bandMinutes, ending with the travel time itself
+    const bandTimesMinutes = useMemo(() => {
+        const times: number[] = [];
+        for (let time = bandMinutes; time < roundedTravelTimeMinutes; time += bandMinutes) {
+            times.push(time);
+        }
+        times.push(roundedTravelTimeMinutes);
+        return times;
+    }, [bandMinutes, roundedTravelTimeMinutes]);
+
+    // "Leave at" time for timetable routing; null means typical (median) travel times
+    const departureTime = useMemo<DepartureTime | null>(() => {
+        return parseDepartureTime(departureInput);
+    }, [departureInput]);
+
+    // Imported TripUpdates snapshot; none unless import-trip-updates.ts has been run
+    const [delays, setDelays] = useState<DelaysFile | null>(null);
+    const [replayDelays, setReplayDelays] = useState(initialState.replayDelays);
     useEffect(() => {
-        if (officeLocation && network) {
-            // Use setTimeout with a small delay to ensure React renders the loading state
-            const timeoutId = setTimeout(() => {
-                const newIsochrones = new Map<number, GeoJSON.Feature<GeoJSON.Polygon> | null>();
-                const timesToCalculate: number[] = [];
-
-                // Generate list of times to calculate: 15, 30, 45, ... up to roundedTravelTimeMinutes
-                for (let time = 15; time <= roundedTravelTimeMinutes; time += 15) {
-                    timesToCalculate.push(time);
-                }
+        loadDelays().then(setDelays).catch((err) => console.error('Failed to load delays:', err));
+    }, []);
+    const isReplayingDelays = replayDelays && delays !== null;
 
-                // Calculate or retrieve from cache for each time
-                for (const timeMinutes of timesToCalculate) {
-                    const cacheKey = `${officeLocation.latitude.toFixed(6)}_${officeLocation.longitude.toFixed(6)}_${timeMinutes}`;
+    const hasTimetable = Boolean(network?.timetable);
 
-                    // Check cache first
-                    const cached = isochroneCacheRef.current.get(cacheKey);
-                    if (cached !== undefined) {
-                        newIsochrones.set(timeMinutes, cached);
-                        continue;
-                    }
+    // Timetable routing only runs forward from the office, so "Leave at" applies to fromOffice
+    // A delay replay stands in for the timetable
+    const canUseDepartureTime = hasTimetable && direction === 'fromOffice' && !isReplayingDelays;
 
-                    // Calculate if not in cache
-                    try {
-                        const result = createIsochrone(officeLocation, network, timeMinutes * 60);
-                        const polygon = result?.polygon || null;
+    // Warn when today is outside the schedule the network was built from (older builds have no feed info)
+    const feedValidity = useMemo(() => {
+        return network?.feed ? getFeedValidity(network.feed, getTodayServiceDate()) : 'valid';
+    }, [network]);
 
-                        // Cache the result
-                        isochroneCacheRef.current.set(cacheKey, polygon);
+    // Imported service alerts; none unless import-alerts.ts has been run
+    const [alerts, setAlerts] = useState<ServiceAlert[]>([]);
+    useEffect(() => {
+        loadAlerts().then(setAlerts).catch((err) => console.error('Failed to load service alerts:', err));
+    }, []);
 
-                        // Limit cache size to prevent memory issues (keep last 100 entries)
-                        if (isochroneCacheRef.current.size > 100) {
-                            const firstKey = isochroneCacheRef.current.keys().next().value;
-                            if (firstKey) {
-                                isochroneCacheRef.current.delete(firstKey);
-                            }
-                        }
+    // Alerts in effect when leaving at the "Leave at" time (New York time, like the schedule), or now
+    const activeAlerts = useMemo(() => {
+        const timeSec = departureTime ? departureTimeToUnix(departureTime) : Math.floor(Date.now() / 1000);
+        return getActiveAlerts(alerts, timeSec);
+    }, [alerts, departureTime]);
 
-                        newIsochrones.set(timeMinutes, polygon);
+    // Stations, edges and route stops the router avoids
+    const closures = useMemo(() => {
+        return network ? getClosures(activeAlerts, network) : { stationIds: [], edgeKeys: [], routeStops: [] };
+    }, [activeAlerts, network]);
+    const hasClosures = closures.stationIds.length > 0 || closures.edgeKeys.length > 0 || closures.routeStops.length > 0;
 
-                        if (result) {
-                            console.log(`Isochrone calculated for ${timeMinutes}m: ${result.totalStations} stations`);
-                        }
-                    } catch (err) {
-                        console.error(`Error calculating isochrone for ${timeMinutes}m:`, err);
-                        newIsochrones.set(timeMinutes, null);
-                        // Cache the error result (null) too
-                        isochroneCacheRef.current.set(cacheKey, null);
-                    }
-                }
+    // Modes the user has switched off; the filters only show for networks with several modes
+    const [hiddenModes, setHiddenModes] = useState<TransitMode[]>(initialState.hiddenModes);
+    const networkModes = useMemo(() => (network ? getNetworkModes(network) : []), [network]);
+    const shownModes = useMemo(() => {
+        return networkModes.filter((mode) => !hiddenModes.includes(mode));
+    }, [networkModes, hiddenModes]);
+    const isModeShown = useCallback((mode: TransitMode | undefined) => {
+        return !hiddenModes.includes(mode ?? 'subway');
+    }, [hiddenModes]);
 
-                setIsochrones(newIsochrones);
-                setIsCalculatingIsochrones(false);
-            }, 50); // Small delay to ensure UI updates
+    // How to get between the office and stations; bike share needs a GBFS snapshot
+    const [accessMode, setAccessMode] = useState<AccessMode>(initialState.accessMode);
+    const [bikeShareStations, setBikeShareStations] = useState<BikeShareStation[]>([]);
+    useEffect(() => {
+        loadBikeShareStations().then(setBikeShareStations).catch((err) => console.error('Failed to load bike share stations:', err));
+    }, []);
+    const hasBikeShare = bikeShareStations.length > 0;
+    const activeAccessMode = accessMode === 'bikeShare' && !hasBikeShare ? 'walk' : accessMode;
 
-            return () => {
-                clearTimeout(timeoutId);
-            };
-        } else {
+    // Street graph for walks; straight lines unless import-streets.ts has been run
+    const [streets, setStreets] = useState<StreetsFile | null>(null);
+    useEffect(() => {
+        loadStreets().then(setStreets).catch((err) => console.error('Failed to load streets:', err));
+    }, []);
+
+    // Step-free routing needs accessibility data, which not every network build has
+    const hasAccessibilityData = useMemo(() => {
+        return network?.stations.some((station) => station.accessible) ?? false;
+    }, [network]);
+
+    const isochroneOptions = useMemo<IsochroneOptions>(() => ({
+        departureTime: canUseDepartureTime ? departureTime ?? undefined : undefined,
+        direction,
+        accessibleOnly: accessibleOnly && hasAccessibilityData,
+        waitFactor,
+        closures: hasClosures ? closures : undefined,
+        delays: isReplayingDelays ? delays : undefined,
+        modes: shownModes.length < networkModes.length ? shownModes : undefined,
+        accessMode: activeAccessMode,
+        bikeShareStations: activeAccessMode === 'bikeShare' ? bikeShareStations : undefined,
+        streets: streets ?? undefined,
+    }), [departureTime, canUseDepartureTime, direction, accessibleOnly, hasAccessibilityData, waitFactor, hasClosures, closures, isReplayingDelays, delays, shownModes, networkModes, activeAccessMode, bikeShareStations, streets]);
+
+    // Cache key for one office and band under the current options
+    const getCacheKey = useCallback((location: GeocodeResult, timeMinutes: number) => {
+        const { departureTime: activeDepartureTime } = isochroneOptions;
+        const departureKey = activeDepartureTime ? `${activeDepartureTime.date}T${activeDepartureTime.timeSec}` : 'any';
+        const accessKey = isochroneOptions.accessibleOnly ? 'accessible' : 'all';
+        const profileKey = network?.profile?.id ?? 'allDay';
+        const closuresKey = activeAlerts.filter((alert) => alert.closesService).map((alert) => alert.id).join(',') || 'none';
+        const delaysKey = isochroneOptions.delays?.snapshotTime ?? 'schedule';
+        const modesKey = isochroneOptions.modes?.join(',') ?? 'allModes';
+        return `${location.latitude.toFixed(6)}_${location.longitude.toFixed(6)}_${timeMinutes}_${departureKey}_${direction}_${accessKey}_${profileKey}_${isochroneOptions.waitFactor}_${closuresKey}_${delaysKey}_${modesKey}_${isochroneOptions.accessMode}_${isochroneOptions.streets ? 'streets' : 'straight'}`;
+    }, [isochroneOptions, direction, network, activeAlerts]);
+
+    const cacheIsochrone = useCallback((key: string, result: IsochroneResult | null) => {
+        isochroneCacheRef.current.set(key, result);
+
+        // Limit cache size to prevent memory issues (keep last 100 entries)
+        if (isochroneCacheRef.current.size > 100) {
+            const firstKey = isochroneCacheRef.current.keys().next().value;
+            if (firstKey) {
+                isochroneCacheRef.current.delete(firstKey);
+            }
+        }
+    }, []);
+
+    // Calculate all isochrone bands up to the selected time
+    // Bands are computed in a Web Worker and shown as each one is ready
+    useEffect(() => {
+        if (!officeLocation || !network) {
             setIsochrones(new Map());
             setIsCalculatingIsochrones(false);
+            return;
+        }
+
+        // Start from cached bands, then fill in the rest progressively
+        const newIsochrones = new Map<number, IsochroneResult | null>();
+        const timesToCalculate: number[] = [];
+
+        for (const time of bandTimesMinutes) {
+            const cached = isochroneCacheRef.current.get(getCacheKey(officeLocation, time));
+            if (cached !== undefined) {
+                newIsochrones.set(time, cached);
+            } else {
+                timesToCalculate.push(time);
+            }
+        }
+
+        setIsochrones(newIsochrones);
+
+        if (timesToCalculate.length === 0) {
+            setIsCalculatingIsochrones(false);
+            return;
+        }
+
+        setIsCalculatingIsochrones(true);
+
+        const cacheBand = (timeMinutes: number, result: IsochroneResult | null) => {
+            cacheIsochrone(getCacheKey(officeLocation, timeMinutes), result);
+            setIsochrones((prev) => new Map(prev).set(timeMinutes, result));
+        };
+
+        const request = isochroneService.computeBands(
+            officeLocation,
+            network,
+            timesToCalculate,
+            isochroneOptions,
+            {
+                onBand: (timeMinutes, result) => {
+                    cacheBand(timeMinutes, result);
+                    if (result) {
+                        console.log(`Isochrone calculated for ${timeMinutes}m: ${result.totalStations} stations`);
+                    }
+                },
+                onError: (timeMinutes, err) => {
+                    console.error(`Error calculating isochrone for ${timeMinutes}m:`, err);
+                    // Cache the error result (null) too
+                    cacheBand(timeMinutes, null);
+                },
+                onDone: () => setIsCalculatingIsochrones(false),
+            }
+        );
+
+        // Abort the stale run when the office, time, direction or network changes
+        return () => {
+            request.cancel();
+        };
+    }, [officeLocation, network, bandTimesMinutes, isochroneOptions, getCacheKey, cacheIsochrone, isochroneService]);
+
+    // Calculate one isochrone per additional office, at that office's own travel time
+    useEffect(() => {
+        if (!network || additionalOffices.length === 0) {
+            setAdditionalIsochrones(new Map());
+            return;
+        }
+
+        const newIsochrones = new Map<string, IsochroneResult | null>();
+        const requests: { cancel: () => void }[] = [];
+
+        for (const office of additionalOffices) {
+            const key = getCacheKey(office.location, office.travelTimeMinutes);
+            const cached = isochroneCacheRef.current.get(key);
+            if (cached !== undefined) {
+                newIsochrones.set(key, cached);
+                continue;
+            }
+
+            const cacheResult = (result: IsochroneResult | null) => {
+                cacheIsochrone(key, result);
+                setAdditionalIsochrones((prev) => new Map(prev).set(key, result));
+            };
+
+            requests.push(isochroneService.computeBands(
+                office.location,
+                network,
+                [office.travelTimeMinutes],
+                isochroneOptions,
+                {
+                    onBand: (_, result) => cacheResult(result),
+                    onError: (timeMinutes, err) => {
+                        console.error(`Error calculating isochrone for ${timeMinutes}m:`, err);
+                        cacheResult(null);
+                    },
+                }
+            ));
         }
-    }, [officeLocation, network, roundedTravelTimeMinutes]);
+
+        setAdditionalIsochrones(newIsochrones);
+
+        return () => {
+            requests.forEach((request) => request.cancel());
+        };
+    }, [additionalOffices, network, isochroneOptions, getCacheKey, cacheIsochrone, isochroneService]);
+
+    // Show a marker for each additional office
+    useEffect(() => {
+        const map = mapRef.current?.getMap();
+        if (!map) return;
+
+        const markers = additionalOffices.map((office) =>
+            new mapboxgl.Marker({ color: '#7b1fa2' })
+                .setLngLat([office.location.longitude, office.location.latitude])
+                .addTo(map as unknown as mapboxgl.Map)
+        );
+
+        return () => {
+            markers.forEach((marker) => marker.remove());
+        };
+    }, [additionalOffices, mapLoaded]);
+
+    // Every office with its travel time, the searched office first
+    const offices = useMemo<OfficeCommute[]>(() => {
+        if (!officeLocation) return [];
+        return [{ location: officeLocation, travelTimeMinutes: roundedTravelTimeMinutes }, ...additionalOffices];
+    }, [officeLocation, roundedTravelTimeMinutes, additionalOffices]);
+
+    // Isochrone per office (undefined while still calculating)
+    const officeIsochrones = useMemo(() => {
+        return offices.map((office, index) => index === 0
+            ? isochrones.get(office.travelTimeMinutes)
+            : additionalIsochrones.get(getCacheKey(office.location, office.travelTimeMinutes)));
+    }, [offices, isochrones, additionalIsochrones, getCacheKey]);
+
+    const isCalculatingOffices = officeIsochrones.some((result) => result === undefined);
+
+    // Area within every office's travel time, with the commutes from each shared station
+    const multiOfficeResult = useMemo(() => {
+        if (offices.length < 2 || isCalculatingOffices) return null;
+        return combineOfficeIsochrones(officeIsochrones as (IsochroneResult | null)[], fairnessMetric);
+    }, [offices, officeIsochrones, isCalculatingOffices, fairnessMetric]);
+
+    // Heatmap of travel times up to the selected one, from the grid of the longest band
+    const heatmapGrid = isochrones.get(roundedTravelTimeMinutes)?.grid;
+    const heatmapImage = useMemo(() => {
+        return showHeatmap && heatmapGrid ? travelTimeGridToImage(heatmapGrid, roundedTravelTimeMinutes * 60) : null;
+    }, [showHeatmap, heatmapGrid, roundedTravelTimeMinutes]);
 
     // Single color for all isochrones
     const getColor = useCallback((): string => {
@@ -122,15 +403,6 @@ export function SubwayMap() {
     }, []);
 
     const handleRetrieve = (res: any) => {
-        if (!mapRef.current) return;
-
-        const map = mapRef.current.getMap();
-
-        // Remove existing marker if any
-        if (markerRef.current) {
-            markerRef.current.remove();
-        }
-
         // Get coordinates from the selected result
         if (res.features && res.features.length > 0) {
             const feature = res.features[0];
@@ -147,23 +419,180 @@ export function SubwayMap() {
                     placeName,
                 };
                 setOfficeLocation(location);
+                setSelectedStationId(null);
+            }
+        }
+    };
 
-                // Add marker to map
-                const marker = new mapboxgl.Marker()
-                    .setLngLat([lng, lat])
-                    .addTo(map as any);
+    // Show a marker at the office, whether searched for or restored from a shared link
+    useEffect(() => {
+        const map = mapRef.current?.getMap();
+        if (!map || !officeLocation) return;
 
-                markerRef.current = marker;
+        const marker = new mapboxgl.Marker()
+            .setLngLat([officeLocation.longitude, officeLocation.latitude])
+            .addTo(map as any);
+        markerRef.current = marker;
+
+        return () => {
+            marker.remove();
+            markerRef.current = null;
+        };
+    }, [officeLocation, mapLoaded]);
+
+    // Keep the planner state in the URL so the view can be shared or bookmarked
+    useEffect(() => {
+        const query = formatPlannerState({
+            office: officeLocation,
+            travelTimeMinutes,
+            viewport,
+            direction,
+            departureInput,
+            accessibleOnly,
+            waitFactor,
+            profileId,
+            hiddenModes,
+            accessMode,
+            replayDelays,
+            bandMinutes,
+            showHeatmap,
+            additionalOffices,
+            fairnessMetric,
+            selectedStationId,
+        });
+        const { pathname, hash } = window.location;
+        window.history.replaceState(window.history.state, '', `${pathname}${query ? `?${query}` : ''}${hash}`);
+    }, [
+        officeLocation,
+        travelTimeMinutes,
+        viewport,
+        direction,
+        departureInput,
+        accessibleOnly,
+        waitFactor,
+        profileId,
+        hiddenModes,
+        accessMode,
+        replayDelays,
+        bandMinutes,
+        showHeatmap,
+        additionalOffices,
+        fairnessMetric,
+        selectedStationId,
+    ]);
+
+    // Station lookup for directions
+    const stationMap = useMemo(() => {
+        const map = new Map<string, Station>();
+        for (const station of network?.stations ?? []) {
+            map.set(station.id, station);
+        }
+        return map;
+    }, [network]);
+
+    // A shared link may name a station this network build doesn't have
+    useEffect(() => {
+        if (network && selectedStationId && !stationMap.has(selectedStationId)) {
+            setSelectedStationId(null);
+        }
+    }, [network, stationMap, selectedStationId]);
+
+    // Route lookup for labels and colors; empty for networks built without routes
+    const routeMap = useMemo(() => {
+        return new Map<string, Route>((network?.routes ?? []).map((route) => [route.id, route]));
+    }, [network]);
+
+    // Street walks between nearby stations, drawn once per pair
+    const walkingEdges = useMemo(() => {
+        if (!network) return null;
+        const walks = Array.from(getGraph(network).walks.values())
+            .flat()
+            .filter((edge) => edge.fromId < edge.toId)
+            .filter((edge) => isModeShown(stationMap.get(edge.fromId)?.mode) && isModeShown(stationMap.get(edge.toId)?.mode));
+        return edgesToGeoJSON(walks, stationMap);
+    }, [network, stationMap, isModeShown]);
+
+    // Stations of the shown modes
+    const visibleStations = useMemo(() => {
+        if (!stations || hiddenModes.length === 0) return stations;
+        return {
+            ...stations,
+            features: stations.features.filter((feature) => isModeShown(feature.properties.mode)),
+        };
+    }, [stations, hiddenModes, isModeShown]);
+
+    // Directions to the selected station, from the smallest band that reaches it
+    const selectedItinerary = useMemo(() => {
+        if (!selectedStationId) return null;
+
+        const bands = Array.from(isochrones.entries()).sort((a, b) => a[0] - b[0]);
+        for (const [, result] of bands) {
+            const reachable = result?.reachableStations.find((s) => s.stationId === selectedStationId);
+            if (reachable) {
+                return reachable.itinerary;
+            }
+        }
+        return null;
+    }, [selectedStationId, isochrones]);
+
+    // Bands drawn on the map, for export once every one has been calculated
+    const exportBands = useMemo<IsochroneBand[]>(() => {
+        return bandTimesMinutes.flatMap((time) => {
+            const result = isochrones.get(time);
+            return result ? [{ travelTimeMinutes: time, result }] : [];
+        });
+    }, [bandTimesMinutes, isochrones]);
+
+    const handleExport = (format: 'geojson' | 'kml' | 'csv') => {
+        const filename = `commute-${direction === 'toOffice' ? 'to' : 'from'}-office-${roundedTravelTimeMinutes}m`;
+        if (format === 'geojson') {
+            downloadTextFile(JSON.stringify(isochronesToGeoJSON(exportBands)), `${filename}.geojson`, 'application/geo+json');
+        } else if (format === 'kml') {
+            const name = officeLocation?.placeName || 'Commute isochrones';
+            downloadTextFile(isochronesToKML(exportBands, name), `${filename}.kml`, 'application/vnd.google-earth.kml+xml');
+        } else {
+            // The longest band reaches every station the others do
+            const stations = exportBands[exportBands.length - 1]?.result.reachableStations ?? [];
+            downloadTextFile(
+                reachableStationsToCSV(stations, bandTimesMinutes, stationMap, routeMap),
+                `${filename}-stations.csv`,
+                'text/csv'
+            );
+        }
+    };
+
+    // Path of the selected itinerary, highlighted on the map
+    const selectedPath = useMemo(() => {
+        return selectedItinerary ? itineraryToGeoJSON(selectedItinerary, stationMap) : null;
+    }, [selectedItinerary, stationMap]);
+
+    // Clicks that miss every station dot select the closest shown station within this distance
+    const MAP_CLICK_RADIUS_MILES = 0.1;
+
+    const handleMapClick = (event: MapLayerMouseEvent) => {
+        if (!officeLocation) return;
+        const stationFeature = event.features?.find((feature) => feature.layer?.id === 'stations');
+        if (stationFeature) {
+            setSelectedStationId(stationFeature.properties?.id ?? null);
+            return;
+        }
+        if (network && event.lngLat) {
+            const closest = getStationIndex(network.stations)
+                .withinRadius(event.lngLat.lat, event.lngLat.lng, MAP_CLICK_RADIUS_MILES)
+                .find(({ item }) => isModeShown(item.mode));
+            if (closest) {
+                setSelectedStationId(closest.item.id);
             }
         }
     };
 
-    // Group edges by route for separate layers
+    // Group edges of the shown modes by route for separate layers
     const edgesByRoute = useMemo(() => {
         if (!edges) return new Map<string, EdgeFeature[]>();
 
         const grouped = new Map<string, EdgeFeature[]>();
         for (const feature of edges.features) {
+            if (!isModeShown(feature.properties.mode)) continue;
             const routeId = feature.properties.routeId;
             if (!grouped.has(routeId)) {
                 grouped.set(routeId, []);
@@ -171,7 +600,13 @@ export function SubwayMap() {
             grouped.get(routeId)!.push(feature);
         }
         return grouped;
-    }, [edges]);
+    }, [edges, isModeShown]);
+
+    // Matches edges closed by service alerts, by their closure key
+    const closedEdgeFilter = useMemo(() => {
+        const edgeKey = ['concat', ['get', 'fromId'], '|', ['get', 'toId'], '|', ['get', 'routeId']];
+        return ['in', edgeKey, ['literal', closures.edgeKeys]];
+    }, [closures]);
 
     if (loading) {
         return (
@@ -194,6 +629,13 @@ export function SubwayMap() {
             <div className="side-panel">
                 <div className="side-panel__content">
                     <h1 className="side-panel__title">NYC Commute Planner</h1>
+                    {network?.feed && feedValidity !== 'valid' && (
+                        <p className="side-panel__feed-warning" role="status">
+                            {feedValidity === 'expired'
+                                ? `The schedule data ended on ${formatServiceDate(network.feed.endDate)}, so times may not match current service.`
+                                : `The schedule data starts on ${formatServiceDate(network.feed.startDate)}, so times may not match current service.`}
+                        </p>
+                    )}
                     {apiToken ? (
                         <div className="side-panel__search">
                             <SearchBox
@@ -218,7 +660,41 @@ export function SubwayMap() {
                             </div>
                         </div>
                     )}
-                    <p className="side-panel__description"><strong>NYC Commute Planner</strong> is an interactive map that shows you how far you can travel from a given address in NYC, calculated using publicly available MTA data. </p>
+                    {officeLocation && (
+                        <OfficeCommutesPanel
+                            offices={offices}
+                            onAddOffice={(location) => {
+                                setAdditionalOffices((prev) => [...prev, { location, travelTimeMinutes: roundedTravelTimeMinutes }]);
+                            }}
+                            onChangeBudget={(index, minutes) => {
+                                // Index 0 is officeLocation, whose time is set by the travel time control
+                                setAdditionalOffices((prev) => prev.map((office, i) =>
+                                    i === index - 1 ? { ...office, travelTimeMinutes: minutes } : office));
+                            }}
+                            onRemoveOffice={(index) => {
+                                setAdditionalOffices((prev) => prev.filter((_, i) => i !== index - 1));
+                            }}
+                            fairnessMetric={fairnessMetric}
+                            onChangeFairnessMetric={setFairnessMetric}
+                            result={multiOfficeResult}
+                            isCalculating={isCalculatingOffices}
+                            stationMap={stationMap}
+                            onSelectStation={setSelectedStationId}
+                        />
+                    )}
+                    {selectedStationId && (
+                        <ItineraryPanel
+                            stationId={selectedStationId}
+                            itinerary={selectedItinerary}
+                            stationMap={stationMap}
+                            routeMap={routeMap}
+                            onClose={() => setSelectedStationId(null)}
+                        />
+                    )}
+                    {activeAlerts.length > 0 && (
+                        <AlertsPanel alerts={activeAlerts} stationMap={stationMap} routeMap={routeMap} />
+                    )}
+                    <p className="side-panel__description"><strong>NYC Commute Planner</strong> is an interactive map that shows you how far you can travel from a given address in NYC, or where you could live and still get there in time, calculated using publicly available MTA data. </p>
                     <footer className="side-panel__footer">
                         Made with <span className="side-panel__heart">♥</span> by{' '}
                         <a
@@ -238,17 +714,24 @@ export function SubwayMap() {
                 <MapGL
                     ref={mapRef}
                     mapLib={maplibregl as any}
-                    initialViewState={{
-                        longitude: -73.98,
-                        latitude: 40.75,
-                        zoom: 11,
-                    }}
+                    initialViewState={viewport}
                     style={{ width: '100%', height: '100%' }}
                     mapStyle="https://basemaps.cartocdn.com/gl/positron-gl-style/style.json"
+                    interactiveLayerIds={['stations']}
+                    onClick={handleMapClick}
+                    onLoad={() => setMapLoaded(true)}
+                    onMoveEnd={(event) => setViewport({
+                        latitude: event.viewState.latitude,
+                        longitude: event.viewState.longitude,
+                        zoom: event.viewState.zoom,
+                    })}
                 >
-                    {/* Render edges grouped by route */}
+                    {/* Render edges grouped by route, styled by mode */}
+                    {/* Closed edges are drawn dashed instead */}
                     {Array.from(edgesByRoute.entries()).map(([routeId, routeEdges]) => {
-                        const routeColor = getRouteColor(routeId);
+                        const route = routeMap.get(routeId);
+                        const routeColor = getRouteColor(routeId, route);
+                        const modeStyle = modeStyles[route?.mode ?? routeEdges[0].properties.mode];
                         const routeEdgesCollection = {
                             type: 'FeatureCollection' as const,
                             features: routeEdges,
@@ -266,17 +749,49 @@ export function SubwayMap() {
                                     type="line"
                                     paint={{
                                         'line-color': routeColor,
-                                        'line-width': 3,
+                                        'line-width': modeStyle.lineWidth,
                                         'line-opacity': 0.7,
+                                        // Routes sharing track sit side by side
+                                        'line-offset': ['get', 'offset'],
+                                        ...(modeStyle.lineDasharray ? { 'line-dasharray': modeStyle.lineDasharray } : {}),
                                     }}
+                                    filter={['!', closedEdgeFilter]}
+                                />
+                                <Layer
+                                    id={`edges-${routeId}-closed`}
+                                    type="line"
+                                    paint={{
+                                        'line-color': routeColor,
+                                        'line-width': modeStyle.lineWidth,
+                                        'line-opacity': 0.7,
+                                        'line-offset': ['get', 'offset'],
+                                        'line-dasharray': [2, 2],
+                                    }}
+                                    filter={closedEdgeFilter}
                                 />
                             </Source>
                         );
                     })}
 
+                    {/* Render walks between nearby stations as dashed lines */}
+                    {walkingEdges && (
+                        <Source id="walking-edges" type="geojson" data={walkingEdges}>
+                            <Layer
+                                id="walking-edges"
+                                type="line"
+                                paint={{
+                                    'line-color': '#757575',
+                                    'line-width': 1.5,
+                                    'line-dasharray': [1, 2],
+                                    'line-opacity': 0.8,
+                                }}
+                            />
+                        </Source>
+                    )}
+
                     {/* Render stations */}
-                    {stations && (
-                        <Source id="stations" type="geojson" data={stations}>
+                    {visibleStations && (
+                        <Source id="stations" type="geojson" data={visibleStations}>
                             <Layer
                                 id="stations"
                                 type="circle"
@@ -290,7 +805,15 @@ export function SubwayMap() {
                                         5,
                                         2,
                                     ],
-                                    'circle-color': '#ffffff',
+                                    // Accessible stations are filled blue, closed stations gray
+                                    'circle-color': [
+                                        'case',
+                                        ['in', ['get', 'id'], ['literal', closures.stationIds]],
+                                        '#bdbdbd',
+                                        ['get', 'accessible'],
+                                        '#005ea8',
+                                        '#ffffff',
+                                    ],
                                     'circle-stroke-color': '#333333',
                                     'circle-stroke-width': 1,
                                     'circle-opacity': 0.9,
@@ -299,11 +822,26 @@ export function SubwayMap() {
                         </Source>
                     )}
 
+                    {/* Travel-time heatmap under the isochrones */}
+                    {heatmapImage && (
+                        <Source id="travel-time-heatmap" type="image" url={heatmapImage.url} coordinates={heatmapImage.coordinates}>
+                            <Layer
+                                id="travel-time-heatmap"
+                                type="raster"
+                                paint={{
+                                    'raster-opacity': 0.6,
+                                    'raster-fade-duration': 0,
+                                }}
+                            />
+                        </Source>
+                    )}
+
                     {/* Render isochrone polygons - render longest time first (behind), shortest time last (on top) */}
+                    {/* Over the heatmap only their outlines are drawn */}
                     {Array.from(isochrones.entries())
                         .sort((a, b) => b[0] - a[0]) // Sort by time descending (longest first)
-                        .map(([timeMinutes, polygon]) => {
-                            if (!polygon) return null;
+                        .map(([timeMinutes, result]) => {
+                            if (!result) return null;
 
                             const fillColor = getColor();
                             // Use the same color for the stroke
@@ -315,7 +853,7 @@ export function SubwayMap() {
                                     type="geojson"
                                     data={{
                                         type: 'FeatureCollection',
-                                        features: [polygon],
+                                        features: [result.polygon],
                                     }}
                                 >
                                     <Layer
@@ -323,7 +861,7 @@ export function SubwayMap() {
                                         type="fill"
                                         paint={{
                                             'fill-color': fillColor,
-                                            'fill-opacity': 0.35, // Reduced opacity to see map features behind
+                                            'fill-opacity': heatmapImage ? 0 : 0.35, // Reduced opacity to see map features behind
                                         }}
                                     />
                                     <Layer
@@ -338,6 +876,76 @@ export function SubwayMap() {
                                 </Source>
                             );
                         })}
+
+                    {/* Outline each additional office's isochrone */}
+                    {additionalOffices.map((_, index) => {
+                        const result = officeIsochrones[index + 1];
+                        if (!result) return null;
+
+                        return (
+                            <Source
+                                key={`office-${index + 1}-isochrone`}
+                                id={`office-${index + 1}-isochrone`}
+                                type="geojson"
+                                data={result.polygon}
+                            >
+                                <Layer
+                                    id={`office-${index + 1}-isochrone`}
+                                    type="line"
+                                    paint={{
+                                        'line-color': '#7b1fa2',
+                                        'line-width': 2,
+                                        'line-dasharray': [2, 2],
+                                    }}
+                                />
+                            </Source>
+                        );
+                    })}
+
+                    {/* Area within every office's travel time */}
+                    {multiOfficeResult && (
+                        <Source id="office-intersection" type="geojson" data={multiOfficeResult.polygon}>
+                            <Layer
+                                id="office-intersection"
+                                type="fill"
+                                paint={{
+                                    'fill-color': '#7b1fa2',
+                                    'fill-opacity': 0.45,
+                                }}
+                            />
+                        </Source>
+                    )}
+
+                    {/* Highlight the path to the selected station */}
+                    {selectedPath && (
+                        <Source id="selected-path" type="geojson" data={selectedPath}>
+                            <Layer
+                                id="selected-path"
+                                type="line"
+                                filter={['!=', ['get', 'legType'], 'walk']}
+                                layout={{
+                                    'line-cap': 'round',
+                                    'line-join': 'round',
+                                }}
+                                paint={{
+                                    'line-color': '#111111',
+                                    'line-width': 6,
+                                    'line-opacity': 0.85,
+                                }}
+                            />
+                            <Layer
+                                id="selected-path-walk"
+                                type="line"
+                                filter={['==', ['get', 'legType'], 'walk']}
+                                paint={{
+                                    'line-color': '#111111',
+                                    'line-width': 4,
+                                    'line-dasharray': [1, 1.5],
+                                    'line-opacity': 0.85,
+                                }}
+                            />
+                        </Source>
+                    )}
                 </MapGL>
                 {officeLocation && (
                     <form
@@ -345,11 +953,35 @@ export function SubwayMap() {
                         aria-label="Travel time selection"
                         onSubmit={(e) => e.preventDefault()} // prevent form submission
                     >
-                        <label id="travel-time-label" htmlFor="travel-time-group" className="travel-time-control__label">
+                        <label id="direction-label" htmlFor="direction-group" className="travel-time-control__label">
+                            Commute:
+                        </label>
+                        <div id="direction-group" role="group" aria-labelledby="direction-label" className="travel-time-control__group">
+                            {([
+                                ['fromOffice', 'From office'],
+                                ['toOffice', 'To office'],
+                            ] as const).map(([value, label]) => (
+                                <button
+                                    key={value}
+                                    type="button"
+                                    className={`travel-time-control__button ${direction === value ? 'travel-time-control__button--active' : ''}`}
+                                    aria-pressed={direction === value}
+                                    onClick={() => {
+                                        if (direction === value) return;
+                                        setIsCalculatingIsochrones(true);
+                                        setDirection(value);
+                                    }}
+                                    disabled={isCalculatingIsochrones}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        <label id="travel-time-label" htmlFor="travel-time-group" className="travel-time-control__label travel-time-control__label--spaced">
                             Travel time:
                         </label>
                         <div id="travel-time-group" role="group" aria-labelledby="travel-time-label" className="travel-time-control__group">
-                            {[15, 30, 45, 60].map((minutes) => (
+                            {TRAVEL_TIME_OPTIONS_MINUTES.map((minutes) => (
                                 <button
                                     key={minutes}
                                     type="button"
@@ -373,6 +1005,201 @@ export function SubwayMap() {
                                 </button>
                             ))}
                         </div>
+                        <label htmlFor="band-interval-select" className="travel-time-control__label travel-time-control__label--spaced">
+                            Bands every:
+                        </label>
+                        <select
+                            id="band-interval-select"
+                            className="travel-time-control__input"
+                            value={bandMinutes}
+                            onChange={(e) => {
+                                setIsCalculatingIsochrones(true);
+                                setBandMinutes(Number(e.target.value));
+                            }}
+                            disabled={isCalculatingIsochrones}
+                        >
+                            {BAND_INTERVALS_MINUTES.map((minutes) => (
+                                <option key={minutes} value={minutes}>{minutes} minutes</option>
+                            ))}
+                        </select>
+                        <label
+                            className="travel-time-control__label travel-time-control__label--spaced travel-time-control__checkbox"
+                            title="Color every place by its travel time, from green (close) to red (at the limit)"
+                        >
+                            <input
+                                type="checkbox"
+                                checked={showHeatmap}
+                                onChange={(e) => setShowHeatmap(e.target.checked)}
+                            />
+                            Travel time heatmap
+                        </label>
+                        <label htmlFor="departure-time-input" className="travel-time-control__label travel-time-control__label--spaced">
+                            Leave at:
+                        </label>
+                        <input
+                            id="departure-time-input"
+                            type="datetime-local"
+                            className="travel-time-control__input"
+                            value={departureInput}
+                            onChange={(e) => {
+                                setIsCalculatingIsochrones(true);
+                                setDepartureInput(e.target.value);
+                            }}
+                            disabled={!canUseDepartureTime || isCalculatingIsochrones}
+                            title={
+                                !hasTimetable
+                                    ? 'Timetable data is not available in this network build'
+                                    : isReplayingDelays
+                                        ? 'Replayed delays are used instead of the timetable'
+                                        : direction === 'toOffice'
+                                            ? 'Departure times apply to trips from the office'
+                                            : 'Leave empty for typical travel times'
+                            }
+                        />
+                        <label htmlFor="service-profile-select" className="travel-time-control__label travel-time-control__label--spaced">
+                            Service:
+                        </label>
+                        <select
+                            id="service-profile-select"
+                            className="travel-time-control__input"
+                            value={profileId ?? ''}
+                            onChange={(e) => {
+                                setIsCalculatingIsochrones(true);
+                                setProfileId((e.target.value || null) as ServiceProfileId | null);
+                            }}
+                            disabled={availableProfileIds.size === 0 || isCalculatingIsochrones}
+                            title={availableProfileIds.size > 0 ? 'Only count trains running at this time' : 'Service profiles are not available in this network build'}
+                        >
+                            <option value="">All day (typical)</option>
+                            {DAY_TYPES.map((dayType) => (
+                                <optgroup key={dayType.id} label={dayType.label}>
+                                    {TIME_BANDS.map((timeBand) => {
+                                        const id = getProfileId(dayType.id, timeBand.id);
+                                        return (
+                                            <option key={id} value={id} disabled={!availableProfileIds.has(id)}>
+                                                {dayType.label} {timeBand.label}
+                                            </option>
+                                        );
+                                    })}
+                                </optgroup>
+                            ))}
+                        </select>
+                        <label
+                            className="travel-time-control__label travel-time-control__label--spaced travel-time-control__checkbox"
+                            title={hasAccessibilityData ? 'Only board, leave and change trains at accessible stations' : 'Accessibility data is not available in this network build'}
+                        >
+                            <input
+                                type="checkbox"
+                                checked={accessibleOnly && hasAccessibilityData}
+                                onChange={(e) => {
+                                    setIsCalculatingIsochrones(true);
+                                    setAccessibleOnly(e.target.checked);
+                                }}
+                                disabled={!hasAccessibilityData || isCalculatingIsochrones}
+                            />
+                            Step-free stations only
+                        </label>
+                        {networkModes.length > 1 && (
+                            <>
+                                <span id="modes-label" className="travel-time-control__label travel-time-control__label--spaced">
+                                    Modes:
+                                </span>
+                                <div role="group" aria-labelledby="modes-label" className="travel-time-control__group">
+                                    {networkModes.map((mode) => (
+                                        <label key={mode} className="travel-time-control__label travel-time-control__checkbox">
+                                            <input
+                                                type="checkbox"
+                                                checked={!hiddenModes.includes(mode)}
+                                                onChange={(e) => {
+                                                    setIsCalculatingIsochrones(true);
+                                                    setHiddenModes((prev) => e.target.checked
+                                                        ? prev.filter((hiddenMode) => hiddenMode !== mode)
+                                                        : [...prev, mode]);
+                                                }}
+                                                disabled={isCalculatingIsochrones}
+                                            />
+                                            {modeStyles[mode].label}
+                                        </label>
+                                    ))}
+                                </div>
+                            </>
+                        )}
+                        <label htmlFor="wait-factor-select" className="travel-time-control__label travel-time-control__label--spaced">
+                            Waiting:
+                        </label>
+                        <select
+                            id="wait-factor-select"
+                            className="travel-time-control__input"
+                            value={waitFactor}
+                            onChange={(e) => {
+                                setIsCalculatingIsochrones(true);
+                                setWaitFactor(Number(e.target.value));
+                            }}
+                            disabled={Boolean(isochroneOptions.departureTime) || isCalculatingIsochrones}
+                            title={isochroneOptions.departureTime ? 'Waits come from the timetable when leaving at a set time' : 'Expected wait on the platform at each boarding'}
+                        >
+                            <option value={DEFAULT_WAIT_FACTOR}>Typical (half the headway)</option>
+                            <option value={CHECKED_APP_WAIT_FACTOR}>I check the app first</option>
+                        </select>
+                        <label htmlFor="access-mode-select" className="travel-time-control__label travel-time-control__label--spaced">
+                            To the station:
+                        </label>
+                        <select
+                            id="access-mode-select"
+                            className="travel-time-control__input"
+                            value={activeAccessMode}
+                            onChange={(e) => {
+                                setIsCalculatingIsochrones(true);
+                                setAccessMode(e.target.value as AccessMode);
+                            }}
+                            disabled={isCalculatingIsochrones}
+                            title="How to get between the office and stations"
+                        >
+                            {(Object.keys(ACCESS_MODES) as AccessMode[]).map((mode) => (
+                                <option key={mode} value={mode} disabled={mode === 'bikeShare' && !hasBikeShare}>
+                                    {ACCESS_MODES[mode].label}
+                                    {mode === 'bikeShare' && !hasBikeShare ? ' (no dock data)' : ''}
+                                </option>
+                            ))}
+                        </select>
+                        {delays && (
+                            <label
+                                className="travel-time-control__label travel-time-control__label--spaced travel-time-control__checkbox"
+                                title={`Running times and waits recorded from ${delays.source}`}
+                            >
+                                <input
+                                    type="checkbox"
+                                    checked={replayDelays}
+                                    onChange={(e) => {
+                                        setIsCalculatingIsochrones(true);
+                                        setReplayDelays(e.target.checked);
+                                    }}
+                                    disabled={isCalculatingIsochrones}
+                                />
+                                Replay delays from {formatSnapshotTime(delays.snapshotTime)}
+                            </label>
+                        )}
+                        <span id="export-label" className="travel-time-control__label travel-time-control__label--spaced">
+                            Export:
+                        </span>
+                        <div role="group" aria-labelledby="export-label" className="travel-time-control__group">
+                            {([
+                                ['geojson', 'GeoJSON', 'Every band as a GeoJSON FeatureCollection'],
+                                ['kml', 'KML', 'Every band as KML for Google Earth'],
+                                ['csv', 'Stations CSV', 'Reachable stations with routes and times'],
+                            ] as const).map(([format, label, title]) => (
+                                <button
+                                    key={format}
+                                    type="button"
+                                    className="travel-time-control__button"
+                                    onClick={() => handleExport(format)}
+                                    disabled={isCalculatingIsochrones || exportBands.length === 0}
+                                    title={title}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
                     </form>
                 )}
             </div>
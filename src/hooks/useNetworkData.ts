@@ -1,10 +1,12 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import type { ProcessedNetwork } from '../types/network';
+import type { ServiceProfileId } from '../types/serviceProfile';
 import { networkToGeoJSON } from '../utils/geojson';
 import type {
   StationsFeatureCollection,
   EdgesFeatureCollection,
 } from '../utils/geojson';
+import { loadProfileNetwork } from '../services/serviceProfileLoader';
 
 interface UseNetworkDataResult {
   stations: StationsFeatureCollection | null;
@@ -16,14 +18,20 @@ interface UseNetworkDataResult {
 
 /**
  * Custom hook to load and convert network data to GeoJSON
+ * @param profileId Service profile whose edges replace the all-day edges (null for all-day);
+ *   falls back to all-day edges when the profile has no processed file
  */
-export function useNetworkData(): UseNetworkDataResult {
+export function useNetworkData(profileId: ServiceProfileId | null = null): UseNetworkDataResult {
   const [stations, setStations] = useState<StationsFeatureCollection | null>(null);
   const [edges, setEdges] = useState<EdgesFeatureCollection | null>(null);
+  const [baseNetwork, setBaseNetwork] = useState<ProcessedNetwork | null>(null);
   const [network, setNetwork] = useState<ProcessedNetwork | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
 
+  // Networks per profile, so switching back reuses the same object (and its routing graph)
+  const profileNetworksRef = useRef(new Map<ServiceProfileId, ProcessedNetwork>());
+
   useEffect(() => {
     async function loadNetworkData() {
       try {
@@ -32,26 +40,62 @@ export function useNetworkData(): UseNetworkDataResult {
 
         // Load network.json - Vite will handle the import
         const networkModule = await import('../data/processed/network.json');
-        const network = networkModule.default as ProcessedNetwork;
+        setBaseNetwork(networkModule.default as ProcessedNetwork);
+      } catch (err) {
+        setError(err instanceof Error ? err : new Error('Unknown error'));
+        console.error('Error loading network data:', err);
+        setLoading(false);
+      }
+    }
+
+    loadNetworkData();
+  }, []);
+
+  // Apply the selected profile's edges to the base network
+  useEffect(() => {
+    if (!baseNetwork) return;
+    let cancelled = false;
+
+    async function applyProfile(base: ProcessedNetwork) {
+      try {
+        let profileNetwork = base;
+        if (profileId) {
+          const cached = profileNetworksRef.current.get(profileId);
+          if (cached) {
+            profileNetwork = cached;
+          } else {
+            const profile = await loadProfileNetwork(profileId);
+            if (profile) {
+              profileNetwork = { ...base, edges: profile.edges, profile: profile.profile };
+              profileNetworksRef.current.set(profileId, profileNetwork);
+            }
+          }
+        }
+        if (cancelled) return;
 
         // Convert to GeoJSON
         const { stations: stationsGeoJSON, edges: edgesGeoJSON } =
-          networkToGeoJSON(network);
+          networkToGeoJSON(profileNetwork);
 
         setStations(stationsGeoJSON);
         setEdges(edgesGeoJSON);
-        setNetwork(network); // Store raw network data for routing
+        setNetwork(profileNetwork); // Store raw network data for routing
       } catch (err) {
+        if (cancelled) return;
         setError(err instanceof Error ? err : new Error('Unknown error'));
-        console.error('Error loading network data:', err);
+        console.error('Error loading service profile:', err);
       } finally {
-        setLoading(false);
+        if (!cancelled) {
+          setLoading(false);
+        }
       }
     }
 
-    loadNetworkData();
-  }, []);
+    applyProfile(baseNetwork);
+    return () => {
+      cancelled = true;
+    };
+  }, [baseNetwork, profileId]);
 
   return { stations, edges, network, loading, error };
 }
-
@@ -0,0 +1,229 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { performance } from 'perf_hooks';
+
+import type { ProcessedNetwork } from '../types/network.js';
+import type { StartStation } from '../types/isochrone.js';
+import { findNearestStations } from '../utils/distance.js';
+import {
+  buildGraph,
+  getGraph,
+  findReachableStations,
+  getBoardingWaitSec,
+} from '../utils/routing.js';
+import type { Graph } from '../utils/routing.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * Origins covering dense and sparse parts of the network
+ */
+const ORIGINS: Array<{ name: string; lat: number; lon: number }> = [
+  { name: 'Times Sq', lat: 40.7557, lon: -73.987 },
+  { name: 'Grand Central', lat: 40.7527, lon: -73.9772 },
+  { name: 'Fulton St', lat: 40.7102, lon: -74.0078 },
+  { name: 'Downtown Brooklyn', lat: 40.6925, lon: -73.9903 },
+  { name: 'Long Island City', lat: 40.7471, lon: -73.9456 },
+  { name: 'Jamaica', lat: 40.7022, lon: -73.8014 },
+  { name: 'Fordham Rd', lat: 40.8615, lon: -73.8904 },
+];
+
+const BUDGETS_MINUTES = [15, 30, 45, 60];
+const ITERATIONS = 5;
+
+interface LegacyLabel {
+  stationId: string;
+  routeId: string | null;
+  timeSec: number;
+  boardings: number;
+}
+
+/**
+ * Previous implementation: single-source search with an array queue re-sorted on every push
+ * Kept here only as a baseline for the benchmark
+ */
+function legacyFindReachableStations(
+  stationId: string,
+  maxTimeSec: number,
+  graph: Graph
+): Map<string, number> {
+  const labels = new Map<string, LegacyLabel>();
+  const queue: LegacyLabel[] = [];
+  const keyOf = (label: LegacyLabel) =>
+    label.routeId !== null
+      ? `${label.stationId}|${label.routeId}`
+      : `${label.stationId}|${label.boardings === 0 ? '' : '*'}`;
+
+  const push = (label: LegacyLabel) => {
+    const existing = labels.get(keyOf(label));
+    if (existing === undefined || label.timeSec < existing.timeSec) {
+      labels.set(keyOf(label), label);
+      queue.push(label);
+      queue.sort((a, b) => a.timeSec - b.timeSec);
+    }
+  };
+
+  push({ stationId, routeId: null, timeSec: 0, boardings: 0 });
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (labels.get(keyOf(current)) !== current) continue;
+
+    for (const edge of graph.edges.get(current.stationId) ?? []) {
+      if (current.routeId !== null && edge.routeId !== current.routeId) continue;
+      const boarding = current.routeId === null;
+      const waitSec = boarding ? getBoardingWaitSec(edge) : 0;
+      const newTime = current.timeSec + waitSec + edge.travelTimeSec;
+      if (newTime <= maxTimeSec) {
+        push({
+          stationId: edge.toId,
+          routeId: edge.routeId,
+          timeSec: newTime,
+          boardings: boarding ? current.boardings + 1 : current.boardings,
+        });
+      }
+    }
+
+    if (current.routeId !== null) {
+      for (const transfer of graph.transfers.get(current.stationId) ?? []) {
+        const newTime = current.timeSec + transfer.minTransferTimeSec;
+        if (newTime <= maxTimeSec) {
+          push({
+            stationId: transfer.toId,
+            routeId: null,
+            timeSec: newTime,
+            boardings: current.boardings,
+          });
+        }
+      }
+
+      for (const walk of graph.walks.get(current.stationId) ?? []) {
+        const newTime = current.timeSec + walk.travelTimeSec;
+        if (newTime <= maxTimeSec) {
+          push({
+            stationId: walk.toId,
+            routeId: null,
+            timeSec: newTime,
+            boardings: current.boardings,
+          });
+        }
+      }
+    }
+  }
+
+  const result = new Map<string, number>();
+  for (const label of labels.values()) {
+    const existing = result.get(label.stationId);
+    if (existing === undefined || label.timeSec < existing) {
+      result.set(label.stationId, label.timeSec);
+    }
+  }
+  return result;
+}
+
+/**
+ * Previous createIsochrone routing step: rebuild the graph, then search once per nearby station
+ */
+function legacyRoute(
+  network: ProcessedNetwork,
+  startStations: StartStation[],
+  maxTimeSec: number
+): Map<string, number> {
+  const graph = buildGraph(network);
+  const result = new Map<string, number>();
+  for (const start of startStations) {
+    const reachable = legacyFindReachableStations(
+      start.stationId,
+      maxTimeSec - start.walkingTimeSec,
+      graph
+    );
+    for (const [stationId, timeSec] of reachable.entries()) {
+      const total = start.walkingTimeSec + timeSec;
+      const existing = result.get(stationId);
+      if (existing === undefined || total < existing) {
+        result.set(stationId, total);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Current routing step: memoised graph and one multi-source search
+ */
+function currentRoute(
+  network: ProcessedNetwork,
+  startStations: StartStation[],
+  maxTimeSec: number
+): Map<string, number> {
+  const reachable = findReachableStations(startStations, maxTimeSec, getGraph(network));
+  const result = new Map<string, number>();
+  for (const [stationId, arrival] of reachable.entries()) {
+    result.set(stationId, arrival.timeSec);
+  }
+  return result;
+}
+
+/**
+ * Time a routing function over all origins, returning average milliseconds per origin
+ */
+function timeRouting(
+  route: (network: ProcessedNetwork, starts: StartStation[], maxTimeSec: number) => Map<string, number>,
+  network: ProcessedNetwork,
+  startsByOrigin: StartStation[][],
+  maxTimeSec: number
+): number {
+  const start = performance.now();
+  for (let i = 0; i < ITERATIONS; i++) {
+    for (const starts of startsByOrigin) {
+      route(network, starts, maxTimeSec);
+    }
+  }
+  return (performance.now() - start) / (ITERATIONS * startsByOrigin.length);
+}
+
+function main() {
+  const projectRoot = path.resolve(__dirname, '..', '..');
+  const networkPath = path.join(projectRoot, 'src', 'data', 'processed', 'network.json');
+  const network = JSON.parse(fs.readFileSync(networkPath, 'utf-8')) as ProcessedNetwork;
+
+  console.log(`Network: ${network.stations.length} stations, ${network.edges.length} edges`);
+  console.log(`Origins: ${ORIGINS.length}, iterations: ${ITERATIONS}\n`);
+
+  const startsByOrigin = ORIGINS.map((origin) =>
+    findNearestStations(origin.lat, origin.lon, network.stations).map(
+      ({ station, walkingTimeSec }) => ({ stationId: station.id, walkingTimeSec })
+    )
+  );
+
+  // Warm up JIT and the graph cache
+  currentRoute(network, startsByOrigin[0], 60 * 60);
+  legacyRoute(network, startsByOrigin[0], 60 * 60);
+
+  console.log('Budget  Legacy (ms)  Current (ms)  Speedup  Results match');
+  for (const minutes of BUDGETS_MINUTES) {
+    const maxTimeSec = minutes * 60;
+
+    const matches = startsByOrigin.every((starts) => {
+      const legacy = legacyRoute(network, starts, maxTimeSec);
+      const current = currentRoute(network, starts, maxTimeSec);
+      return (
+        legacy.size === current.size &&
+        Array.from(legacy.entries()).every(([id, time]) => current.get(id) === time)
+      );
+    });
+
+    const legacyMs = timeRouting(legacyRoute, network, startsByOrigin, maxTimeSec);
+    const currentMs = timeRouting(currentRoute, network, startsByOrigin, maxTimeSec);
+
+    console.log(
+      `${`${minutes}m`.padEnd(8)}${legacyMs.toFixed(2).padStart(11)}  ${currentMs
+        .toFixed(2)
+        .padStart(12)}  ${`${(legacyMs / currentMs).toFixed(1)}x`.padStart(7)}  ${matches ? 'yes' : 'NO'}`
+    );
+  }
+}
+
+main();
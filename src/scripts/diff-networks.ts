@@ -0,0 +1,271 @@
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+
+import type { Edge, ProcessedNetwork, Station } from '../types/network.js';
+import { findNearestStations } from '../utils/distance.js';
+import { findReachableStations, getGraph } from '../utils/routing.js';
+
+/**
+ * Origins whose reachable station counts are compared, covering dense and sparse parts of the network
+ */
+const SAMPLE_ORIGINS: Array<{ name: string; lat: number; lon: number }> = [
+  { name: 'Times Sq', lat: 40.7557, lon: -73.987 },
+  { name: 'Grand Central', lat: 40.7527, lon: -73.9772 },
+  { name: 'Fulton St', lat: 40.7102, lon: -74.0078 },
+  { name: 'Downtown Brooklyn', lat: 40.6925, lon: -73.9903 },
+  { name: 'Long Island City', lat: 40.7471, lon: -73.9456 },
+  { name: 'Jamaica', lat: 40.7022, lon: -73.8014 },
+  { name: 'Fordham Rd', lat: 40.8615, lon: -73.8904 },
+];
+
+const SAMPLE_BUDGETS_MINUTES = [30, 60];
+
+const DEFAULT_THRESHOLD_SEC = 60;
+
+interface StationSummary {
+  id: string;
+  name: string;
+}
+
+interface EdgeSummary {
+  fromId: string;
+  toId: string;
+  routeId: string;
+  travelTimeSec: number;
+}
+
+interface NetworkDiff {
+  oldPath: string;
+  newPath: string;
+  thresholdSec: number;
+  stations: {
+    oldCount: number;
+    newCount: number;
+    added: StationSummary[];
+    removed: StationSummary[];
+    routesChanged: Array<StationSummary & { addedRoutes: string[]; removedRoutes: string[] }>;
+  };
+  edges: {
+    oldCount: number;
+    newCount: number;
+    added: EdgeSummary[];
+    removed: EdgeSummary[];
+    travelTimeChanged: Array<Omit<EdgeSummary, 'travelTimeSec'> & { oldTimeSec: number; newTimeSec: number }>;
+  };
+  isochrones: Array<{
+    origin: string;
+    budgetMinutes: number;
+    oldStationCount: number;
+    newStationCount: number;
+  }>;
+}
+
+const edgeKey = (edge: Edge) => `${edge.fromId}|${edge.toId}|${edge.routeId}`;
+
+const summarizeStation = (station: Station): StationSummary => ({ id: station.id, name: station.name });
+
+const summarizeEdge = (edge: Edge): EdgeSummary => ({
+  fromId: edge.fromId,
+  toId: edge.toId,
+  routeId: edge.routeId,
+  travelTimeSec: edge.travelTimeSec,
+});
+
+/**
+ * Count the stations reachable from an origin within a budget
+ */
+function countReachableStations(
+  network: ProcessedNetwork,
+  origin: { lat: number; lon: number },
+  budgetMinutes: number
+): number {
+  const startStations = findNearestStations(origin.lat, origin.lon, network.stations).map(
+    ({ station, walkingTimeSec }) => ({ stationId: station.id, walkingTimeSec })
+  );
+  return findReachableStations(startStations, budgetMinutes * 60, getGraph(network)).size;
+}
+
+/**
+ * Compare two processed networks
+ * @param thresholdSec Smallest travel time change reported for edges in both networks
+ */
+function diffNetworks(
+  oldNetwork: ProcessedNetwork,
+  newNetwork: ProcessedNetwork,
+  thresholdSec: number
+): Omit<NetworkDiff, 'oldPath' | 'newPath'> {
+  const oldStations = new Map(oldNetwork.stations.map((station) => [station.id, station]));
+  const newStations = new Map(newNetwork.stations.map((station) => [station.id, station]));
+
+  const routesChanged: NetworkDiff['stations']['routesChanged'] = [];
+  for (const station of newNetwork.stations) {
+    const oldStation = oldStations.get(station.id);
+    if (!oldStation) continue;
+
+    const oldRoutes = new Set(oldStation.routesServed);
+    const newRoutes = new Set(station.routesServed);
+    const addedRoutes = station.routesServed.filter((route) => !oldRoutes.has(route));
+    const removedRoutes = oldStation.routesServed.filter((route) => !newRoutes.has(route));
+    if (addedRoutes.length > 0 || removedRoutes.length > 0) {
+      routesChanged.push({ ...summarizeStation(station), addedRoutes, removedRoutes });
+    }
+  }
+
+  const oldEdges = new Map(oldNetwork.edges.map((edge) => [edgeKey(edge), edge]));
+  const newEdges = new Map(newNetwork.edges.map((edge) => [edgeKey(edge), edge]));
+
+  const travelTimeChanged: NetworkDiff['edges']['travelTimeChanged'] = [];
+  for (const [key, edge] of newEdges) {
+    const oldEdge = oldEdges.get(key);
+    if (oldEdge && Math.abs(edge.travelTimeSec - oldEdge.travelTimeSec) >= thresholdSec) {
+      travelTimeChanged.push({
+        fromId: edge.fromId,
+        toId: edge.toId,
+        routeId: edge.routeId,
+        oldTimeSec: oldEdge.travelTimeSec,
+        newTimeSec: edge.travelTimeSec,
+      });
+    }
+  }
+  // Biggest changes first
+  travelTimeChanged.sort(
+    (a, b) => Math.abs(b.newTimeSec - b.oldTimeSec) - Math.abs(a.newTimeSec - a.oldTimeSec)
+  );
+
+  const isochrones: NetworkDiff['isochrones'] = [];
+  for (const origin of SAMPLE_ORIGINS) {
+    for (const budgetMinutes of SAMPLE_BUDGETS_MINUTES) {
+      isochrones.push({
+        origin: origin.name,
+        budgetMinutes,
+        oldStationCount: countReachableStations(oldNetwork, origin, budgetMinutes),
+        newStationCount: countReachableStations(newNetwork, origin, budgetMinutes),
+      });
+    }
+  }
+
+  return {
+    thresholdSec,
+    stations: {
+      oldCount: oldNetwork.stations.length,
+      newCount: newNetwork.stations.length,
+      added: newNetwork.stations.filter((s) => !oldStations.has(s.id)).map(summarizeStation),
+      removed: oldNetwork.stations.filter((s) => !newStations.has(s.id)).map(summarizeStation),
+      routesChanged,
+    },
+    edges: {
+      oldCount: oldNetwork.edges.length,
+      newCount: newNetwork.edges.length,
+      added: newNetwork.edges.filter((e) => !oldEdges.has(edgeKey(e))).map(summarizeEdge),
+      removed: oldNetwork.edges.filter((e) => !newEdges.has(edgeKey(e))).map(summarizeEdge),
+      travelTimeChanged,
+    },
+    isochrones,
+  };
+}
+
+const formatChange = (change: number) => (change > 0 ? `+${change}` : `${change}`);
+
+/**
+ * Render a diff as readable text
+ * @param stationNames Names for station IDs in either network
+ */
+function formatDiff(diff: NetworkDiff, stationNames: Map<string, string>): string {
+  const name = (id: string) => stationNames.get(id) ?? id;
+  const edgeLabel = (edge: { fromId: string; toId: string; routeId: string }) =>
+    `${name(edge.fromId)} -> ${name(edge.toId)} (${edge.routeId})`;
+  const lines: string[] = [];
+
+  lines.push(`Comparing ${diff.oldPath} -> ${diff.newPath}`, '');
+
+  const { stations, edges } = diff;
+  lines.push(
+    `Stations: ${stations.oldCount} -> ${stations.newCount} ` +
+      `(${stations.added.length} added, ${stations.removed.length} removed)`
+  );
+  for (const station of stations.added) lines.push(`  + ${station.name} [${station.id}]`);
+  for (const station of stations.removed) lines.push(`  - ${station.name} [${station.id}]`);
+
+  lines.push('', `Routes served changed at ${stations.routesChanged.length} stations`);
+  for (const station of stations.routesChanged) {
+    const changes = [
+      ...station.addedRoutes.map((route) => `+${route}`),
+      ...station.removedRoutes.map((route) => `-${route}`),
+    ];
+    lines.push(`  ${station.name} [${station.id}]: ${changes.join(' ')}`);
+  }
+
+  lines.push(
+    '',
+    `Edges: ${edges.oldCount} -> ${edges.newCount} ` +
+      `(${edges.added.length} added, ${edges.removed.length} removed)`
+  );
+  for (const edge of edges.added) lines.push(`  + ${edgeLabel(edge)} ${edge.travelTimeSec} s`);
+  for (const edge of edges.removed) lines.push(`  - ${edgeLabel(edge)} ${edge.travelTimeSec} s`);
+
+  lines.push('', `Travel time changes of ${diff.thresholdSec} s or more: ${edges.travelTimeChanged.length}`);
+  for (const edge of edges.travelTimeChanged) {
+    lines.push(
+      `  ${edgeLabel(edge)}: ${edge.oldTimeSec} s -> ${edge.newTimeSec} s ` +
+        `(${formatChange(edge.newTimeSec - edge.oldTimeSec)} s)`
+    );
+  }
+
+  lines.push('', 'Stations reachable from sample origins:');
+  lines.push(`  ${'Origin'.padEnd(20)}${'Budget'.padStart(6)}${'Old'.padStart(6)}${'New'.padStart(6)}${'Change'.padStart(8)}`);
+  for (const sample of diff.isochrones) {
+    lines.push(
+      `  ${sample.origin.padEnd(20)}${`${sample.budgetMinutes}m`.padStart(6)}` +
+        `${String(sample.oldStationCount).padStart(6)}${String(sample.newStationCount).padStart(6)}` +
+        `${formatChange(sample.newStationCount - sample.oldStationCount).padStart(8)}`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+const USAGE = `Usage: npm run diff-networks -- <old network.json> <new network.json> [options]
+
+Options:
+  -t, --threshold <sec>  Smallest edge travel time change to report (default: ${DEFAULT_THRESHOLD_SEC})
+      --json             Print JSON instead of text
+  -h, --help             Show this help`;
+
+function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      threshold: { type: 'string', short: 't' },
+      json: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help || positionals.length !== 2) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const thresholdSec = values.threshold === undefined ? DEFAULT_THRESHOLD_SEC : Number(values.threshold);
+  if (Number.isNaN(thresholdSec) || thresholdSec < 0) {
+    console.error(`--threshold must be a non-negative number of seconds, got "${values.threshold}"`);
+    process.exit(1);
+  }
+
+  const [oldPath, newPath] = positionals.map((file) => path.resolve(file));
+  const oldNetwork = JSON.parse(fs.readFileSync(oldPath, 'utf-8')) as ProcessedNetwork;
+  const newNetwork = JSON.parse(fs.readFileSync(newPath, 'utf-8')) as ProcessedNetwork;
+
+  const diff: NetworkDiff = { oldPath, newPath, ...diffNetworks(oldNetwork, newNetwork, thresholdSec) };
+
+  if (values.json) {
+    console.log(JSON.stringify(diff, null, 2));
+  } else {
+    const stationNames = new Map(
+      [...oldNetwork.stations, ...newNetwork.stations].map((station) => [station.id, station.name])
+    );
+    console.log(formatDiff(diff, stationNames));
+  }
+}
+
+main();
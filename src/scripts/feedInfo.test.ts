@@ -0,0 +1,58 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import type { FeedInfo, ServiceCalendar } from '../types/network';
+import { getFeedDates, mergeFeedInfo } from './feedInfo';
+
+const service = (overrides: Partial<ServiceCalendar>): ServiceCalendar => ({
+  serviceId: 'Weekday',
+  days: [false, true, true, true, true, true, false],
+  startDate: '20260105',
+  endDate: '20260626',
+  addedDates: [],
+  removedDates: [],
+  ...overrides,
+});
+
+const feed = (startDate: string, endDate: string, sourceHash: string): FeedInfo => ({
+  startDate,
+  endDate,
+  sourceHash,
+  generatedAt: '2026-01-01T00:00:00.000Z',
+});
+
+describe('getFeedDates', () => {
+  it('spans calendar ranges and added dates', () => {
+    const dates = getFeedDates([
+      service({ addedDates: ['20260703'] }),
+      service({ serviceId: 'Saturday', startDate: '20260110', endDate: '20260627' }),
+    ]);
+
+    expect(dates).toEqual({ startDate: '20260105', endDate: '20260703' });
+  });
+
+  it('is empty for a feed without dated service', () => {
+    expect(getFeedDates([])).toEqual({ startDate: '', endDate: '' });
+  });
+});
+
+describe('mergeFeedInfo', () => {
+  it('is valid while every feed is', () => {
+    const merged = mergeFeedInfo([
+      feed('20260105', '20260626', 'a'),
+      feed('20260201', '20261231', 'b'),
+    ]);
+
+    expect(merged).toMatchObject({ startDate: '20260201', endDate: '20260626' });
+    expect(merged.sourceHash).not.toBe('a');
+  });
+
+  it('ignores feeds without calendar dates', () => {
+    const merged = mergeFeedInfo([
+      feed('20260105', '20260626', 'a'),
+      // No calendar.txt or calendar_dates.txt, so getFeedDates left the dates empty
+      feed('', '', 'b'),
+    ]);
+
+    expect(merged).toMatchObject({ startDate: '20260105', endDate: '20260626' });
+  });
+});
@@ -0,0 +1,38 @@
+import crypto from 'crypto';
+
+import type { FeedInfo, ServiceCalendar } from '../types/network.js';
+
+/**
+ * First and last service dates of a feed, from calendar.txt and dates added in calendar_dates.txt
+ * @returns YYYYMMDD dates, both empty when the feed has no dated service
+ */
+export function getFeedDates(services: ServiceCalendar[]): { startDate: string; endDate: string } {
+  const dates = services.flatMap((service) => [
+    service.startDate,
+    service.endDate,
+    ...service.addedDates,
+  ]).filter(Boolean).sort();
+  return { startDate: dates[0] ?? '', endDate: dates[dates.length - 1] ?? '' };
+}
+
+/**
+ * Combine the feed info of merged feeds: the network is valid while every feed is
+ * Feeds without dated service (empty dates) don't limit the merged window
+ */
+export function mergeFeedInfo(feeds: FeedInfo[]): FeedInfo {
+  if (feeds.length === 1) {
+    return feeds[0];
+  }
+  const hash = crypto.createHash('sha256');
+  for (const feed of feeds) {
+    hash.update(`${feed.sourceHash}\n`);
+  }
+  const startDates = feeds.map((feed) => feed.startDate).filter(Boolean).sort();
+  const endDates = feeds.map((feed) => feed.endDate).filter(Boolean).sort();
+  return {
+    startDate: startDates[startDates.length - 1] ?? '',
+    endDate: endDates[0] ?? '',
+    sourceHash: hash.digest('hex'),
+    generatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,356 @@
+import { decodeProtobufString, readProtobufFields } from '../utils/protobuf.js';
+import type { ProtobufField } from '../utils/protobuf.js';
+import type { ActivePeriod } from '../types/alerts.js';
+
+/**
+ * Alert as it appears in a GTFS-realtime feed, before its stops are mapped to stations
+ */
+export interface RealtimeAlert {
+  id: string;
+  header: string;
+  description?: string;
+  activePeriods: ActivePeriod[];
+  informedEntities: Array<{ routeId?: string; stopId?: string }>;
+  effect: string; // GTFS-realtime Alert.Effect name, e.g. NO_SERVICE
+}
+
+/**
+ * Predicted arrival or departure at one stop (GTFS-realtime StopTimeEvent)
+ */
+export interface RealtimeStopTimeEvent {
+  delay?: number; // Seconds late (negative when early)
+  time?: number; // Unix seconds
+}
+
+/**
+ * Trip update as it appears in a GTFS-realtime feed, before its stops are mapped to stations
+ */
+export interface RealtimeTripUpdate {
+  tripId: string;
+  routeId?: string;
+  stopTimeUpdates: Array<{
+    stopId?: string;
+    skipped: boolean; // Schedule relationship SKIPPED: the trip doesn't stop here
+    arrival?: RealtimeStopTimeEvent;
+    departure?: RealtimeStopTimeEvent;
+  }>;
+}
+
+/**
+ * Trip updates of a feed, with the time the feed was generated
+ */
+export interface RealtimeTripUpdatesFeed {
+  timestamp?: number; // FeedHeader timestamp, Unix seconds
+  tripUpdates: RealtimeTripUpdate[];
+}
+
+// StopTimeUpdate.ScheduleRelationship value for a stop the trip no longer makes
+const SKIPPED = 1;
+
+// GTFS-realtime Alert.Effect values, by number
+const EFFECTS: Record<number, string> = {
+  1: 'NO_SERVICE',
+  2: 'REDUCED_SERVICE',
+  3: 'SIGNIFICANT_DELAYS',
+  4: 'DETOUR',
+  5: 'ADDITIONAL_SERVICE',
+  6: 'MODIFIED_SERVICE',
+  7: 'OTHER_EFFECT',
+  8: 'UNKNOWN_EFFECT',
+  9: 'STOP_MOVED',
+  10: 'NO_EFFECT',
+  11: 'ACCESSIBILITY_ISSUE',
+};
+
+const DEFAULT_EFFECT = 'UNKNOWN_EFFECT';
+
+/**
+ * Pick the English text of a TranslatedString, falling back to the first translation
+ */
+function pickTranslation(translations: Array<{ text: string; language?: string }>): string {
+  const english = translations.find(
+    (translation) => !translation.language || translation.language.startsWith('en')
+  );
+  return (english ?? translations[0])?.text ?? '';
+}
+
+/**
+ * Fields of a nested message, or none for a field that isn't length-delimited
+ */
+function readMessage(field: ProtobufField): ProtobufField[] {
+  return typeof field.value === 'number' ? [] : readProtobufFields(field.value);
+}
+
+function decodeTranslatedString(fields: ProtobufField[]): string {
+  const translations = fields
+    .filter((field) => field.fieldNumber === 1)
+    .map((field) => {
+      const translation: { text: string; language?: string } = { text: '' };
+      for (const { fieldNumber, value } of readMessage(field)) {
+        if (fieldNumber === 1) translation.text = decodeProtobufString(value);
+        if (fieldNumber === 2) translation.language = decodeProtobufString(value);
+      }
+      return translation;
+    });
+  return pickTranslation(translations);
+}
+
+function decodeAlert(id: string, fields: ProtobufField[]): RealtimeAlert {
+  const alert: RealtimeAlert = {
+    id,
+    header: '',
+    activePeriods: [],
+    informedEntities: [],
+    effect: DEFAULT_EFFECT,
+  };
+
+  for (const field of fields) {
+    switch (field.fieldNumber) {
+      case 1: {
+        // active_period: TimeRange
+        const period: ActivePeriod = {};
+        for (const { fieldNumber, value } of readMessage(field)) {
+          if (fieldNumber === 1 && typeof value === 'number') period.start = value;
+          if (fieldNumber === 2 && typeof value === 'number') period.end = value;
+        }
+        alert.activePeriods.push(period);
+        break;
+      }
+      case 5: {
+        // informed_entity: EntitySelector
+        const entity: { routeId?: string; stopId?: string } = {};
+        for (const selectorField of readMessage(field)) {
+          if (selectorField.fieldNumber === 2) {
+            entity.routeId = decodeProtobufString(selectorField.value);
+          } else if (selectorField.fieldNumber === 5) {
+            entity.stopId = decodeProtobufString(selectorField.value);
+          } else if (selectorField.fieldNumber === 4) {
+            // trip: TripDescriptor, of which only the route matters here
+            const tripRoute = readMessage(selectorField).find((f) => f.fieldNumber === 5);
+            if (tripRoute) entity.routeId ??= decodeProtobufString(tripRoute.value);
+          }
+        }
+        alert.informedEntities.push(entity);
+        break;
+      }
+      case 7:
+        if (typeof field.value === 'number') {
+          alert.effect = EFFECTS[field.value] ?? DEFAULT_EFFECT;
+        }
+        break;
+      case 10:
+        alert.header = decodeTranslatedString(readMessage(field));
+        break;
+      case 11:
+        alert.description = decodeTranslatedString(readMessage(field));
+        break;
+    }
+  }
+
+  return alert;
+}
+
+function decodeStopTimeEvent(fields: ProtobufField[]): RealtimeStopTimeEvent {
+  const event: RealtimeStopTimeEvent = {};
+  for (const { fieldNumber, value } of fields) {
+    if (typeof value !== 'number') continue;
+    if (fieldNumber === 1) event.delay = value;
+    if (fieldNumber === 2) event.time = value;
+  }
+  return event;
+}
+
+function decodeTripUpdate(fields: ProtobufField[]): RealtimeTripUpdate {
+  const tripUpdate: RealtimeTripUpdate = { tripId: '', stopTimeUpdates: [] };
+
+  for (const field of fields) {
+    if (field.fieldNumber === 1) {
+      // trip: TripDescriptor
+      for (const { fieldNumber, value } of readMessage(field)) {
+        if (fieldNumber === 1) tripUpdate.tripId = decodeProtobufString(value);
+        if (fieldNumber === 5) tripUpdate.routeId = decodeProtobufString(value);
+      }
+    } else if (field.fieldNumber === 2) {
+      // stop_time_update: StopTimeUpdate
+      const update: RealtimeTripUpdate['stopTimeUpdates'][number] = { skipped: false };
+      for (const updateField of readMessage(field)) {
+        switch (updateField.fieldNumber) {
+          case 2:
+            update.arrival = decodeStopTimeEvent(readMessage(updateField));
+            break;
+          case 3:
+            update.departure = decodeStopTimeEvent(readMessage(updateField));
+            break;
+          case 4:
+            update.stopId = decodeProtobufString(updateField.value);
+            break;
+          case 5:
+            update.skipped = updateField.value === SKIPPED;
+            break;
+        }
+      }
+      tripUpdate.stopTimeUpdates.push(update);
+    }
+  }
+
+  return tripUpdate;
+}
+
+/**
+ * Split a binary GTFS-realtime FeedMessage into its header timestamp and entities
+ * @throws Error if the bytes aren't a valid protobuf message
+ */
+function readFeedMessage(bytes: Uint8Array): {
+  timestamp?: number;
+  entities: ProtobufField[][];
+} {
+  let timestamp: number | undefined;
+  const entities: ProtobufField[][] = [];
+
+  for (const field of readProtobufFields(bytes)) {
+    if (field.fieldNumber === 1) {
+      const timestampField = readMessage(field).find((f) => f.fieldNumber === 3);
+      if (typeof timestampField?.value === 'number') timestamp = timestampField.value;
+    } else if (field.fieldNumber === 2) {
+      entities.push(readMessage(field));
+    }
+  }
+
+  return { timestamp, entities };
+}
+
+/**
+ * Decode the alerts of a binary GTFS-realtime FeedMessage
+ * Entities without an alert (trip updates, vehicle positions) are skipped
+ * @throws Error if the bytes aren't a valid protobuf message
+ */
+export function decodeAlertsFeed(bytes: Uint8Array): RealtimeAlert[] {
+  const alerts: RealtimeAlert[] = [];
+
+  for (const entity of readFeedMessage(bytes).entities) {
+    const id = entity.find((field) => field.fieldNumber === 1);
+    const alert = entity.find((field) => field.fieldNumber === 5);
+    if (alert) {
+      alerts.push(decodeAlert(id ? decodeProtobufString(id.value) : '', readMessage(alert)));
+    }
+  }
+
+  return alerts;
+}
+
+/**
+ * Decode the trip updates of a binary GTFS-realtime FeedMessage
+ * Entities without a trip update (alerts, vehicle positions) are skipped
+ * @throws Error if the bytes aren't a valid protobuf message
+ */
+export function decodeTripUpdatesFeed(bytes: Uint8Array): RealtimeTripUpdatesFeed {
+  const { timestamp, entities } = readFeedMessage(bytes);
+  const tripUpdates: RealtimeTripUpdate[] = [];
+
+  for (const entity of entities) {
+    const tripUpdate = entity.find((field) => field.fieldNumber === 3);
+    if (tripUpdate) {
+      tripUpdates.push(decodeTripUpdate(readMessage(tripUpdate)));
+    }
+  }
+
+  return { timestamp, tripUpdates };
+}
+
+// GTFS-realtime JSON comes in the proto field names (snake_case) or in protobuf's JSON
+// mapping (camelCase), so fields are read under either name
+type JSONObject = Record<string, unknown>;
+
+function getField(object: unknown, snakeName: string): unknown {
+  if (typeof object !== 'object' || object === null) return undefined;
+  const camelName = snakeName.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase());
+  return (object as JSONObject)[snakeName] ?? (object as JSONObject)[camelName];
+}
+
+function getArray(object: unknown, snakeName: string): unknown[] {
+  const value = getField(object, snakeName);
+  return Array.isArray(value) ? value : [];
+}
+
+function getString(object: unknown, snakeName: string): string | undefined {
+  const value = getField(object, snakeName);
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+}
+
+// uint64 timestamps are strings in protobuf's JSON mapping
+function getTimestamp(object: unknown, snakeName: string): number | undefined {
+  const value = getString(object, snakeName);
+  return value === undefined ? undefined : Number(value);
+}
+
+function readTranslatedStringJSON(value: unknown): string | undefined {
+  const translations = getArray(value, 'translation').map((translation) => ({
+    text: getString(translation, 'text') ?? '',
+    language: getString(translation, 'language'),
+  }));
+  return translations.length > 0 ? pickTranslation(translations) : undefined;
+}
+
+/**
+ * Read the alerts of a GTFS-realtime FeedMessage in JSON form
+ */
+export function readAlertsFeedJSON(feed: unknown): RealtimeAlert[] {
+  return getArray(feed, 'entity')
+    .filter((entity) => getField(entity, 'alert') !== undefined)
+    .map((entity) => {
+      const alert = getField(entity, 'alert');
+      const effectValue = getField(alert, 'effect');
+      const effect =
+        typeof effectValue === 'number'
+          ? EFFECTS[effectValue]
+          : getString(alert, 'effect');
+
+      return {
+        id: getString(entity, 'id') ?? '',
+        header: readTranslatedStringJSON(getField(alert, 'header_text')) ?? '',
+        description: readTranslatedStringJSON(getField(alert, 'description_text')),
+        activePeriods: getArray(alert, 'active_period').map((period) => ({
+          start: getTimestamp(period, 'start'),
+          end: getTimestamp(period, 'end'),
+        })),
+        informedEntities: getArray(alert, 'informed_entity').map((entity) => ({
+          routeId: getString(entity, 'route_id') ?? getString(getField(entity, 'trip'), 'route_id'),
+          stopId: getString(entity, 'stop_id'),
+        })),
+        effect: effect ?? DEFAULT_EFFECT,
+      };
+    });
+}
+
+function readStopTimeEventJSON(event: unknown): RealtimeStopTimeEvent | undefined {
+  if (event === undefined) return undefined;
+  return { delay: getTimestamp(event, 'delay'), time: getTimestamp(event, 'time') };
+}
+
+/**
+ * Read the trip updates of a GTFS-realtime FeedMessage in JSON form
+ */
+export function readTripUpdatesFeedJSON(feed: unknown): RealtimeTripUpdatesFeed {
+  const tripUpdates = getArray(feed, 'entity')
+    .filter((entity) => getField(entity, 'trip_update') !== undefined)
+    .map((entity) => {
+      const tripUpdate = getField(entity, 'trip_update');
+      const trip = getField(tripUpdate, 'trip');
+
+      return {
+        tripId: getString(trip, 'trip_id') ?? '',
+        routeId: getString(trip, 'route_id'),
+        stopTimeUpdates: getArray(tripUpdate, 'stop_time_update').map((update) => {
+          const relationship = getField(update, 'schedule_relationship');
+          return {
+            stopId: getString(update, 'stop_id'),
+            skipped: relationship === SKIPPED || relationship === 'SKIPPED',
+            arrival: readStopTimeEventJSON(getField(update, 'arrival')),
+            departure: readStopTimeEventJSON(getField(update, 'departure')),
+          };
+        }),
+      };
+    });
+
+  return { timestamp: getTimestamp(getField(feed, 'header'), 'timestamp'), tripUpdates };
+}
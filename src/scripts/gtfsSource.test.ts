@@ -0,0 +1,183 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import type { Readable } from 'stream';
+
+import { openGTFSSource } from './gtfsSource';
+
+interface ZipFile {
+  name: string;
+  data?: Buffer; // Stored or deflated content; deflated from text when left out
+  text?: string;
+  method?: number;
+  localExtra?: Buffer; // Extra field of the local header only
+}
+
+/**
+ * Build a zip archive in memory (CRCs are left zero: the reader doesn't check them)
+ */
+function buildZip(files: ZipFile[], { comment = '', entryCount = files.length } = {}): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const method = file.method ?? 8;
+    const text = Buffer.from(file.text ?? '');
+    const data = file.data ?? (method === 8 ? zlib.deflateRawSync(text) : text);
+    const name = Buffer.from(file.name);
+    const localExtra = file.localExtra ?? Buffer.alloc(0);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(text.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(localExtra.length, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(text.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    const entry = Buffer.concat([local, name, localExtra, data]);
+    locals.push(entry);
+    centrals.push(Buffer.concat([central, name]));
+    offset += entry.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const commentBytes = Buffer.from(comment);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entryCount, 8);
+  end.writeUInt16LE(entryCount, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  end.writeUInt16LE(commentBytes.length, 20);
+
+  return Buffer.concat([...locals, directory, end, commentBytes]);
+}
+
+async function readText(stream: Readable): Promise<string> {
+  let text = '';
+  for await (const chunk of stream) {
+    text += chunk;
+  }
+  return text;
+}
+
+describe('openGTFSSource with a zip', () => {
+  let directory: string;
+  let fileCount = 0;
+
+  const writeZip = (zip: Buffer) => {
+    const zipPath = path.join(directory, `feed${fileCount++}.zip`);
+    fs.writeFileSync(zipPath, zip);
+    return zipPath;
+  };
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'gtfs-source-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('finds files through the central directory, inside a folder and after a comment', async () => {
+    const stopsText = 'stop_id,stop_name,parent_station\n101,Van Cortlandt Park,\n101N,Van Cortlandt Park,101\n';
+    const zipPath = writeZip(
+      buildZip(
+        [
+          { name: 'gtfs/', method: 0 },
+          { name: 'gtfs/stops.txt', text: stopsText },
+          { name: 'gtfs/agency.txt', text: 'agency_id\nMTA\n', method: 0 },
+        ],
+        { comment: 'Exported by the MTA' }
+      )
+    );
+
+    const source = openGTFSSource(zipPath);
+    expect(source.path).toBe(zipPath);
+    expect(source.has('stops.txt')).toBe(true);
+    expect(source.has('agency.txt')).toBe(true);
+    expect(source.has('gtfs/')).toBe(false);
+    expect(source.has('shapes.txt')).toBe(false);
+    expect(await readText(source.open('stops.txt'))).toBe(stopsText);
+    expect(await readText(source.open('agency.txt'))).toBe('agency_id\nMTA\n');
+    expect(() => source.open('shapes.txt')).toThrow('shapes.txt is not in');
+  });
+
+  it('skips a local extra field missing from the central directory', async () => {
+    const zipPath = writeZip(
+      buildZip([{ name: 'routes.txt', text: 'route_id\n1\n', localExtra: Buffer.alloc(9, 0x55) }])
+    );
+
+    expect(await readText(openGTFSSource(zipPath).open('routes.txt'))).toBe('route_id\n1\n');
+  });
+
+  it('reads an empty file', async () => {
+    const zipPath = writeZip(buildZip([{ name: 'transfers.txt', method: 0 }]));
+
+    expect(await readText(openGTFSSource(zipPath).open('transfers.txt'))).toBe('');
+  });
+
+  it('hashes the archive', async () => {
+    const first = openGTFSSource(writeZip(buildZip([{ name: 'stops.txt', text: 'stop_id\n1\n' }])));
+    const same = openGTFSSource(writeZip(buildZip([{ name: 'stops.txt', text: 'stop_id\n1\n' }])));
+    const other = openGTFSSource(writeZip(buildZip([{ name: 'stops.txt', text: 'stop_id\n2\n' }])));
+
+    expect(await first.hash()).toMatch(/^[0-9a-f]{64}$/);
+    expect(await first.hash()).toBe(await same.hash());
+    expect(await first.hash()).not.toBe(await other.hash());
+  });
+
+  it('rejects ZIP64 archives', () => {
+    const zipPath = writeZip(buildZip([{ name: 'stops.txt', text: 'stop_id\n' }], { entryCount: 0xffff }));
+
+    expect(() => openGTFSSource(zipPath)).toThrow('ZIP64 archive, which is not supported');
+  });
+
+  it('rejects compression methods other than stored and deflate', () => {
+    const zipPath = writeZip(buildZip([{ name: 'stops.txt', data: Buffer.from('BZh9'), method: 12 }]));
+
+    expect(() => openGTFSSource(zipPath)).toThrow('unsupported compression method 12');
+  });
+
+  it('rejects a truncated archive', () => {
+    const zip = buildZip([{ name: 'stops.txt', text: 'stop_id\n1\n' }]);
+
+    expect(() => openGTFSSource(writeZip(zip.subarray(0, zip.length - 10)))).toThrow('is not a zip file');
+    expect(() => openGTFSSource(writeZip(Buffer.alloc(0)))).toThrow('is not a zip file');
+  });
+
+  it('rejects a corrupt central directory', () => {
+    const zip = buildZip([{ name: 'stops.txt', text: 'stop_id\n1\n' }]);
+    const directoryOffset = zip.readUInt32LE(zip.length - 6);
+    zip.writeUInt32LE(0, directoryOffset);
+
+    expect(() => openGTFSSource(writeZip(zip))).toThrow('Corrupt central directory');
+  });
+
+  it('rejects an entry whose local header is missing', () => {
+    const zip = buildZip([{ name: 'stops.txt', text: 'stop_id\n1\n' }]);
+    zip.writeUInt32LE(0, 0);
+
+    expect(() => openGTFSSource(writeZip(zip)).open('stops.txt')).toThrow('Corrupt zip entry stops.txt');
+  });
+
+  it('fails the stream when deflated data is corrupt', async () => {
+    // Block type 3 is reserved, so inflating fails on the first byte
+    const zipPath = writeZip(buildZip([{ name: 'stops.txt', data: Buffer.from([0xff, 0xff, 0xff, 0xff]) }]));
+
+    await expect(readText(openGTFSSource(zipPath).open('stops.txt'))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,194 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+
+import { parseCSVRows } from '../utils/csv.js';
+
+/**
+ * A GTFS feed on disk, either an unzipped directory or a .zip file
+ */
+export interface GTFSSource {
+  path: string;
+  has(fileName: string): boolean;
+  open(fileName: string): Readable; // UTF-8 text stream of one file
+  hash(): Promise<string>; // SHA-256 of the feed, to tell builds from different feeds apart
+}
+
+/**
+ * Map every stop_id in a feed's stops.txt to its station (the parent station, or itself)
+ */
+export async function readStopStations(source: GTFSSource): Promise<Map<string, string>> {
+  const stopStations = new Map<string, string>();
+
+  let stopIdIdx = -1;
+  let parentStationIdx = -1;
+  for await (const row of parseCSVRows(source.open('stops.txt'))) {
+    if (stopIdIdx === -1) {
+      stopIdIdx = row.indexOf('stop_id');
+      parentStationIdx = row.indexOf('parent_station');
+      continue;
+    }
+    const stopId = row[stopIdIdx];
+    stopStations.set(stopId, row[parentStationIdx] || stopId);
+  }
+
+  return stopStations;
+}
+
+/**
+ * Location of one file inside a zip archive
+ */
+interface ZipEntry {
+  localHeaderOffset: number;
+  compressedSize: number;
+  method: number; // 0 = stored, 8 = deflate
+}
+
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+/**
+ * Open a GTFS feed from a directory or a .zip file
+ * @throws Error if the path doesn't exist or the zip can't be read
+ */
+export function openGTFSSource(sourcePath: string): GTFSSource {
+  if (!fs.existsSync(sourcePath)) {
+    throw new Error(`GTFS feed not found: ${sourcePath}`);
+  }
+  return fs.statSync(sourcePath).isDirectory()
+    ? openDirectory(sourcePath)
+    : openZip(sourcePath);
+}
+
+function openDirectory(directory: string): GTFSSource {
+  const filePath = (fileName: string) => path.join(directory, fileName);
+
+  return {
+    path: directory,
+    has: (fileName) => fs.existsSync(filePath(fileName)),
+    open: (fileName) => fs.createReadStream(filePath(fileName), { encoding: 'utf-8' }),
+    async hash() {
+      // Names and contents of the .txt files, in name order
+      const hash = crypto.createHash('sha256');
+      const fileNames = fs.readdirSync(directory).filter((name) => name.endsWith('.txt')).sort();
+      for (const fileName of fileNames) {
+        hash.update(`${fileName}\n`);
+        for await (const chunk of fs.createReadStream(filePath(fileName))) {
+          hash.update(chunk);
+        }
+      }
+      return hash.digest('hex');
+    },
+  };
+}
+
+/**
+ * Read a zip's central directory so files can be streamed without extracting the archive
+ * Feeds zipped with their files inside a folder are supported; ZIP64 archives are not
+ */
+function openZip(zipPath: string): GTFSSource {
+  const entries = readZipEntries(zipPath);
+
+  return {
+    path: zipPath,
+    has: (fileName) => entries.has(fileName),
+    open(fileName) {
+      const entry = entries.get(fileName);
+      if (!entry) {
+        throw new Error(`${fileName} is not in ${zipPath}`);
+      }
+      if (entry.compressedSize === 0) {
+        return Readable.from([]);
+      }
+
+      // The local header repeats the name and may have a different extra field length
+      const fd = fs.openSync(zipPath, 'r');
+      const header = Buffer.alloc(30);
+      fs.readSync(fd, header, 0, 30, entry.localHeaderOffset);
+      fs.closeSync(fd);
+      if (header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+        throw new Error(`Corrupt zip entry ${fileName} in ${zipPath}`);
+      }
+      const dataStart =
+        entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+
+      const compressed = fs.createReadStream(zipPath, {
+        start: dataStart,
+        end: dataStart + entry.compressedSize - 1,
+      });
+      const stream = entry.method === 8 ? compressed.pipe(zlib.createInflateRaw()) : compressed;
+      stream.setEncoding('utf-8');
+      return stream;
+    },
+    async hash() {
+      const hash = crypto.createHash('sha256');
+      for await (const chunk of fs.createReadStream(zipPath)) {
+        hash.update(chunk);
+      }
+      return hash.digest('hex');
+    },
+  };
+}
+
+/**
+ * List the files of a zip archive by name (without any folder)
+ */
+function readZipEntries(zipPath: string): Map<string, ZipEntry> {
+  const fd = fs.openSync(zipPath, 'r');
+  try {
+    // The end of central directory record sits at the end, after an optional comment
+    const fileSize = fs.fstatSync(fd).size;
+    const tailSize = Math.min(fileSize, 22 + 0xffff);
+    const tail = Buffer.alloc(tailSize);
+    fs.readSync(fd, tail, 0, tailSize, fileSize - tailSize);
+
+    let endOffset = -1;
+    for (let i = tailSize - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+        endOffset = i;
+        break;
+      }
+    }
+    if (endOffset === -1) {
+      throw new Error(`${zipPath} is not a zip file`);
+    }
+
+    const entryCount = tail.readUInt16LE(endOffset + 10);
+    const directorySize = tail.readUInt32LE(endOffset + 12);
+    const directoryOffset = tail.readUInt32LE(endOffset + 16);
+    if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+      throw new Error(`${zipPath} is a ZIP64 archive, which is not supported`);
+    }
+
+    const directory = Buffer.alloc(directorySize);
+    fs.readSync(fd, directory, 0, directorySize, directoryOffset);
+
+    const entries = new Map<string, ZipEntry>();
+    let offset = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+        throw new Error(`Corrupt central directory in ${zipPath}`);
+      }
+      const method = directory.readUInt16LE(offset + 10);
+      const compressedSize = directory.readUInt32LE(offset + 20);
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      const localHeaderOffset = directory.readUInt32LE(offset + 42);
+      const name = directory.toString('utf-8', offset + 46, offset + 46 + nameLength);
+      offset += 46 + nameLength + extraLength + commentLength;
+
+      if (name.endsWith('/')) continue; // Folder
+      if (method !== 0 && method !== 8) {
+        throw new Error(`${name} in ${zipPath} uses unsupported compression method ${method}`);
+      }
+      entries.set(path.posix.basename(name), { localHeaderOffset, compressedSize, method });
+    }
+    return entries;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
@@ -0,0 +1,164 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+
+import type { AlertsFile, InformedEntity, ServiceAlert } from '../types/alerts.js';
+import { decodeAlertsFeed, readAlertsFeedJSON } from './gtfsRealtime.js';
+import type { RealtimeAlert } from './gtfsRealtime.js';
+import { openGTFSSource, readStopStations } from './gtfsSource.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * Hand-written planned work in a closures file, which always closes service
+ * Routes with stops close those routes at the stops; routes or stops alone close the whole
+ * route or station
+ */
+interface PlannedClosure {
+  id: string;
+  header: string;
+  description?: string;
+  start?: string; // ISO date-time
+  end?: string; // ISO date-time
+  routeIds?: string[];
+  stopIds?: string[];
+}
+
+/**
+ * Parse an ISO date-time into Unix seconds
+ * @throws Error if the date can't be parsed
+ */
+function toUnixSeconds(value: string, closureId: string): number {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Closure ${closureId} has an invalid date "${value}"`);
+  }
+  return Math.floor(time / 1000);
+}
+
+/**
+ * Turn planned closures into realtime-style alerts, so both go through the same stop mapping
+ */
+function readClosures(closures: PlannedClosure[]): RealtimeAlert[] {
+  return closures.map((closure) => {
+    const routeIds = closure.routeIds ?? [];
+    const stopIds = closure.stopIds ?? [];
+    const informedEntities =
+      routeIds.length > 0 && stopIds.length > 0
+        ? routeIds.flatMap((routeId) => stopIds.map((stopId) => ({ routeId, stopId })))
+        : [...routeIds.map((routeId) => ({ routeId })), ...stopIds.map((stopId) => ({ stopId }))];
+
+    return {
+      id: closure.id,
+      header: closure.header,
+      description: closure.description,
+      activePeriods:
+        closure.start || closure.end
+          ? [{
+              start: closure.start ? toUnixSeconds(closure.start, closure.id) : undefined,
+              end: closure.end ? toUnixSeconds(closure.end, closure.id) : undefined,
+            }]
+          : [],
+      informedEntities,
+      effect: 'NO_SERVICE',
+    };
+  });
+}
+
+/**
+ * Read alerts from a binary GTFS-realtime feed, its JSON form or a closures file
+ */
+function readAlerts(inputPath: string): RealtimeAlert[] {
+  const contents = fs.readFileSync(inputPath);
+  if (path.extname(inputPath).toLowerCase() !== '.json') {
+    return decodeAlertsFeed(new Uint8Array(contents));
+  }
+
+  const json: unknown = JSON.parse(contents.toString('utf-8'));
+  const closures = (json as { closures?: unknown }).closures;
+  return Array.isArray(closures)
+    ? readClosures(closures as PlannedClosure[])
+    : readAlertsFeedJSON(json);
+}
+
+/**
+ * Map an alert's stops to stations
+ * Entities naming a stop that isn't in the feed are dropped rather than widened to the whole
+ * route
+ */
+function toServiceAlert(alert: RealtimeAlert, stopStations: Map<string, string>): ServiceAlert {
+  const informedEntities: InformedEntity[] = [];
+  for (const { routeId, stopId } of alert.informedEntities) {
+    const stationId = stopId === undefined ? undefined : stopStations.get(stopId);
+    if (stopId !== undefined && stationId === undefined) {
+      console.warn(`Alert ${alert.id}: unknown stop ${stopId}, ignoring it`);
+      continue;
+    }
+    if (routeId === undefined && stationId === undefined) continue; // Agency or route type only
+    informedEntities.push({ routeId, stationId });
+  }
+
+  return {
+    id: alert.id,
+    header: alert.header,
+    ...(alert.description ? { description: alert.description } : {}),
+    activePeriods: alert.activePeriods,
+    informedEntities,
+    closesService: alert.effect === 'NO_SERVICE',
+  };
+}
+
+const USAGE = `Usage: npm run import-alerts -- --input <file> [options]
+
+Reads service alerts and writes src/data/processed/alerts.json for the app.
+
+Options:
+  -i, --input <file>  GTFS-realtime Alerts feed (.pb), the same feed as JSON, or a closures
+                      file ({ "closures": [...] }, see README.md)
+  -g, --gtfs <path>   GTFS feed (directory or .zip) used to map stops to stations
+                      (default: src/data/gtfs_subway)
+  -h, --help          Show this help`;
+
+async function main() {
+  try {
+    const { values } = parseArgs({
+      options: {
+        input: { type: 'string', short: 'i' },
+        gtfs: { type: 'string', short: 'g' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+    if (values.help || !values.input) {
+      console.log(USAGE);
+      process.exit(values.help ? 0 : 1);
+    }
+
+    const projectRoot = path.resolve(__dirname, '..', '..');
+    const inputPath = path.resolve(values.input);
+    const gtfsPath = values.gtfs
+      ? path.resolve(values.gtfs)
+      : path.join(projectRoot, 'src', 'data', 'gtfs_subway');
+
+    const stopStations = await readStopStations(openGTFSSource(gtfsPath));
+    const alerts = readAlerts(inputPath).map((alert) => toServiceAlert(alert, stopStations));
+
+    const alertsFile: AlertsFile = {
+      generatedAt: new Date().toISOString(),
+      source: path.basename(inputPath),
+      alerts,
+    };
+    const outputPath = path.join(projectRoot, 'src', 'data', 'processed', 'alerts.json');
+    fs.writeFileSync(outputPath, JSON.stringify(alertsFile, null, 2));
+
+    console.log(`\n✅ Imported ${alerts.length} alerts`);
+    console.log(`   Output: ${outputPath}`);
+    console.log(`   Closing service: ${alerts.filter((alert) => alert.closesService).length}`);
+  } catch (error) {
+    console.error('Error importing alerts:', error);
+    process.exit(1);
+  }
+}
+
+main();
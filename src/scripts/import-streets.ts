@@ -0,0 +1,322 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+
+import type { ProcessedNetwork } from '../types/network.js';
+import type { StreetNetwork, StreetsFile } from '../types/streets.js';
+import { calculateDistance } from '../utils/distance.js';
+import { readOsmPbf } from './osmPbf.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const METERS_PER_MILE = 1609.344;
+
+// Streets further than this from every station can't be part of a walk to or from the network
+const MARGIN_MILES = 1;
+
+// Smaller islands of streets (e.g. paths cut off where the extract was clipped) are dropped, so
+// points aren't snapped onto streets that lead nowhere
+const MIN_COMPONENT_NODES = 50;
+
+// highway values people can't or don't walk along, unless tagged foot=yes
+const UNWALKABLE_HIGHWAYS = new Set([
+  'motorway',
+  'motorway_link',
+  'trunk',
+  'trunk_link',
+  'construction',
+  'proposed',
+  'abandoned',
+  'raceway',
+  'bus_guideway',
+  'busway',
+]);
+
+/**
+ * Area the street graph is clipped to
+ */
+interface Bounds {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+}
+
+/**
+ * Ways of an extract as node IDs, with the coordinates of their nodes
+ */
+interface WaySet {
+  ways: number[][];
+  coordinates: Map<number, [number, number]>; // [lon, lat]
+}
+
+/**
+ * Check whether a way with these OSM tags can be walked
+ */
+function isWalkable(tags: Record<string, string | undefined>): boolean {
+  if (!tags.highway) return false;
+  if (['yes', 'designated', 'permissive'].includes(tags.foot ?? '')) return true;
+  if (tags.foot === 'no' || tags.access === 'no' || tags.access === 'private') return false;
+  return !UNWALKABLE_HIGHWAYS.has(tags.highway);
+}
+
+/**
+ * Bounds of the network's stations plus a margin
+ */
+function getNetworkBounds(network: ProcessedNetwork): Bounds {
+  const lats = network.stations.map((station) => station.lat);
+  const lons = network.stations.map((station) => station.lon);
+  const latMargin = MARGIN_MILES / 69;
+  const lonMargin = latMargin / Math.cos((Math.max(...lats) * Math.PI) / 180);
+  return {
+    minLat: Math.min(...lats) - latMargin,
+    maxLat: Math.max(...lats) + latMargin,
+    minLon: Math.min(...lons) - lonMargin,
+    maxLon: Math.max(...lons) + lonMargin,
+  };
+}
+
+/**
+ * Read the walkable ways of an .osm.pbf extract
+ * The file is read twice: once for the ways, then for the coordinates of their nodes
+ */
+function readPbfWays(inputPath: string): WaySet {
+  const ways: number[][] = [];
+  const nodeIds = new Set<number>();
+  readOsmPbf(inputPath, {
+    onWay: (way) => {
+      if (!isWalkable(way.tags)) return;
+      ways.push(way.refs);
+      way.refs.forEach((ref) => nodeIds.add(ref));
+    },
+  });
+
+  const coordinates = new Map<number, [number, number]>();
+  readOsmPbf(inputPath, {
+    onNode: (id, lat, lon) => {
+      if (nodeIds.has(id)) {
+        coordinates.set(id, [lon, lat]);
+      }
+    },
+  });
+  return { ways, coordinates };
+}
+
+/**
+ * Read the walkable ways of a GeoJSON export of an extract
+ * Tags are read from the feature properties (or properties.tags); features without a highway
+ * tag are kept, for files already limited to walkable ways. Lines meet where they share a point.
+ */
+function readGeoJSONWays(inputPath: string): WaySet {
+  const collection = JSON.parse(fs.readFileSync(inputPath, 'utf-8')) as GeoJSON.FeatureCollection;
+  const ways: number[][] = [];
+  const coordinates = new Map<number, [number, number]>();
+  const pointIds = new Map<string, number>();
+  const getPointId = ([lon, lat]: GeoJSON.Position) => {
+    const key = `${lon.toFixed(7)},${lat.toFixed(7)}`;
+    let id = pointIds.get(key);
+    if (id === undefined) {
+      id = pointIds.size;
+      pointIds.set(key, id);
+      coordinates.set(id, [lon, lat]);
+    }
+    return id;
+  };
+
+  for (const feature of collection.features) {
+    const properties = feature.properties ?? {};
+    const tags = (properties.tags ?? properties) as Record<string, string | undefined>;
+    if (tags.highway !== undefined && !isWalkable(tags)) continue;
+
+    const { geometry } = feature;
+    const lines =
+      geometry?.type === 'LineString'
+        ? [geometry.coordinates]
+        : geometry?.type === 'MultiLineString'
+          ? geometry.coordinates
+          : [];
+    for (const line of lines) {
+      ways.push(line.map(getPointId));
+    }
+  }
+  return { ways, coordinates };
+}
+
+/**
+ * Drop the nodes of small components and renumber the rest
+ */
+function dropSmallComponents(network: StreetNetwork): StreetNetwork {
+  const adjacency: number[][] = network.nodes.map(() => []);
+  for (const [from, to] of network.edges) {
+    adjacency[from].push(to);
+    adjacency[to].push(from);
+  }
+
+  const kept = new Array<boolean>(network.nodes.length).fill(false);
+  const visited = new Array<boolean>(network.nodes.length).fill(false);
+  for (let start = 0; start < network.nodes.length; start++) {
+    if (visited[start]) continue;
+    const component = [start];
+    visited[start] = true;
+    for (let i = 0; i < component.length; i++) {
+      for (const neighbor of adjacency[component[i]]) {
+        if (!visited[neighbor]) {
+          visited[neighbor] = true;
+          component.push(neighbor);
+        }
+      }
+    }
+    if (component.length >= MIN_COMPONENT_NODES) {
+      component.forEach((node) => (kept[node] = true));
+    }
+  }
+
+  const newIndexes = new Map<number, number>();
+  const nodes: StreetNetwork['nodes'] = [];
+  network.nodes.forEach((node, index) => {
+    if (kept[index]) {
+      newIndexes.set(index, nodes.length);
+      nodes.push(node);
+    }
+  });
+  const edges: StreetNetwork['edges'] = network.edges
+    .filter(([from]) => kept[from])
+    .map(([from, to, meters]) => [newIndexes.get(from)!, newIndexes.get(to)!, meters]);
+  return { nodes, edges };
+}
+
+/**
+ * Build the street graph: intersections and dead ends become nodes, and the stretches of way
+ * between them edges with their length
+ * Ways are cut where they leave the bounds
+ */
+function buildStreetNetwork({ ways, coordinates }: WaySet, bounds: Bounds): StreetNetwork {
+  const inBounds = (id: number) => {
+    const point = coordinates.get(id);
+    return (
+      point !== undefined &&
+      point[1] >= bounds.minLat &&
+      point[1] <= bounds.maxLat &&
+      point[0] >= bounds.minLon &&
+      point[0] <= bounds.maxLon
+    );
+  };
+
+  // Runs of consecutive nodes inside the bounds
+  const runs: number[][] = [];
+  for (const way of ways) {
+    let run: number[] = [];
+    for (const id of way) {
+      if (inBounds(id)) {
+        run.push(id);
+        continue;
+      }
+      if (run.length > 1) runs.push(run);
+      run = [];
+    }
+    if (run.length > 1) runs.push(run);
+  }
+
+  // Nodes shared by ways (or visited twice by one), and ends of runs, are intersections
+  const useCounts = new Map<number, number>();
+  for (const run of runs) {
+    run.forEach((id, i) => {
+      const isEnd = i === 0 || i === run.length - 1;
+      useCounts.set(id, (useCounts.get(id) ?? 0) + (isEnd ? 2 : 1));
+    });
+  }
+
+  const nodeIndexes = new Map<number, number>();
+  const nodes: StreetNetwork['nodes'] = [];
+  const getNodeIndex = (id: number) => {
+    let index = nodeIndexes.get(id);
+    if (index === undefined) {
+      const [lon, lat] = coordinates.get(id)!;
+      index = nodes.length;
+      nodeIndexes.set(id, index);
+      nodes.push([Number(lon.toFixed(6)), Number(lat.toFixed(6))]);
+    }
+    return index;
+  };
+
+  const edges: StreetNetwork['edges'] = [];
+  for (const run of runs) {
+    let from = run[0];
+    let miles = 0;
+    for (let i = 1; i < run.length; i++) {
+      const [prevLon, prevLat] = coordinates.get(run[i - 1])!;
+      const [lon, lat] = coordinates.get(run[i])!;
+      miles += calculateDistance(prevLat, prevLon, lat, lon);
+      if (useCounts.get(run[i])! >= 2) {
+        if (run[i] !== from) {
+          edges.push([getNodeIndex(from), getNodeIndex(run[i]), Math.round(miles * METERS_PER_MILE)]);
+        }
+        from = run[i];
+        miles = 0;
+      }
+    }
+  }
+
+  return dropSmallComponents({ nodes, edges });
+}
+
+const USAGE = `Usage: npm run import-streets -- --input <extract> [options]
+
+Builds a pedestrian street graph from an OpenStreetMap extract and writes
+src/data/processed/streets.json for the app.
+
+Options:
+  -i, --input <file>    OSM extract (.osm.pbf), or its ways as GeoJSON (.geojson or .json,
+                        e.g. from osmium export)
+  -n, --network <file>  Processed network; streets over a mile from every station are left out
+                        (default: src/data/processed/network.json)
+  -h, --help            Show this help`;
+
+async function main() {
+  try {
+    const { values } = parseArgs({
+      options: {
+        input: { type: 'string', short: 'i' },
+        network: { type: 'string', short: 'n' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+    if (values.help || !values.input) {
+      console.log(USAGE);
+      process.exit(values.help ? 0 : 1);
+    }
+
+    const projectRoot = path.resolve(__dirname, '..', '..');
+    const processedDir = path.join(projectRoot, 'src', 'data', 'processed');
+    const inputPath = path.resolve(values.input);
+    const networkPath = values.network
+      ? path.resolve(values.network)
+      : path.join(processedDir, 'network.json');
+
+    const network = JSON.parse(fs.readFileSync(networkPath, 'utf-8')) as ProcessedNetwork;
+    const isGeoJSON = ['.geojson', '.json'].includes(path.extname(inputPath).toLowerCase());
+    const waySet = isGeoJSON ? readGeoJSONWays(inputPath) : readPbfWays(inputPath);
+    console.log(`Read ${waySet.ways.length} walkable ways`);
+
+    const streets = buildStreetNetwork(waySet, getNetworkBounds(network));
+    const streetsFile: StreetsFile = {
+      generatedAt: new Date().toISOString(),
+      source: path.basename(inputPath),
+      ...streets,
+    };
+    const outputPath = path.join(processedDir, 'streets.json');
+    fs.writeFileSync(outputPath, JSON.stringify(streetsFile));
+
+    console.log(`\n✅ Imported streets`);
+    console.log(`   Output: ${outputPath}`);
+    console.log(`   Nodes: ${streets.nodes.length}`);
+    console.log(`   Edges: ${streets.edges.length}`);
+  } catch (error) {
+    console.error('Error importing streets:', error);
+    process.exit(1);
+  }
+}
+
+main();
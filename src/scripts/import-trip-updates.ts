@@ -0,0 +1,218 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+
+import type { DelaysFile, EdgeDelay } from '../types/delays.js';
+import type { Edge, ProcessedNetwork } from '../types/network.js';
+import { decodeTripUpdatesFeed, readTripUpdatesFeedJSON } from './gtfsRealtime.js';
+import type { RealtimeStopTimeEvent, RealtimeTripUpdatesFeed } from './gtfsRealtime.js';
+import { openGTFSSource, readStopStations } from './gtfsSource.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Gaps between trains longer than this aren't headways (the snapshot ran out of trips)
+const MAX_HEADWAY_SEC = 3600;
+
+/**
+ * Delays and departure times measured on one edge
+ */
+interface EdgeSamples {
+  edge: Edge;
+  delays: number[];
+  departures: number[]; // Predicted departures from the edge's first station, Unix seconds
+}
+
+const isURL = (input: string) => /^https?:\/\//.test(input);
+
+const edgeKey = (fromId: string, toId: string, routeId: string) => `${fromId}|${toId}|${routeId}`;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Read a feed from a file or URL (e.g. a local server replaying a recording)
+ * Files ending in .json are read as GTFS-realtime JSON, anything else as protobuf
+ */
+async function readFeed(input: string): Promise<RealtimeTripUpdatesFeed> {
+  let bytes: Uint8Array;
+  if (isURL(input)) {
+    const response = await fetch(input);
+    if (!response.ok) {
+      throw new Error(`Fetching ${input} failed: ${response.status} ${response.statusText}`);
+    }
+    bytes = new Uint8Array(await response.arrayBuffer());
+  } else {
+    bytes = new Uint8Array(fs.readFileSync(input));
+  }
+
+  const pathname = isURL(input) ? new URL(input).pathname : input;
+  return path.extname(pathname).toLowerCase() === '.json'
+    ? readTripUpdatesFeedJSON(JSON.parse(new TextDecoder().decode(bytes)))
+    : decodeTripUpdatesFeed(bytes);
+}
+
+/**
+ * Time added to a hop between two stops: the predicted running time over the scheduled one
+ * when the feed gives times, or the change in delay when it only gives delays
+ * @returns The added seconds, or undefined if the feed doesn't say
+ */
+function getHopDelay(
+  leave: RealtimeStopTimeEvent | undefined,
+  reach: RealtimeStopTimeEvent | undefined,
+  edge: Edge
+): number | undefined {
+  if (leave?.time !== undefined && reach?.time !== undefined) {
+    return reach.time - leave.time - edge.travelTimeSec;
+  }
+  if (leave?.delay !== undefined && reach?.delay !== undefined) {
+    return reach.delay - leave.delay;
+  }
+  return undefined;
+}
+
+/**
+ * Measure the delay on each edge of the network from a snapshot's trip updates
+ * @param stopStations Station of each GTFS stop_id
+ */
+function measureEdgeDelays(
+  feed: RealtimeTripUpdatesFeed,
+  network: ProcessedNetwork,
+  stopStations: Map<string, string>
+): EdgeDelay[] {
+  const edges = new Map(network.edges.map((edge) => [edgeKey(edge.fromId, edge.toId, edge.routeId), edge]));
+  const samples = new Map<string, EdgeSamples>();
+  let unmatchedHops = 0;
+
+  for (const tripUpdate of feed.tripUpdates) {
+    const { routeId } = tripUpdate;
+    if (!routeId) continue;
+
+    // Stops the trip still makes, by station
+    const stops = tripUpdate.stopTimeUpdates
+      .filter((update) => !update.skipped && update.stopId !== undefined)
+      .map((update) => ({ ...update, stationId: stopStations.get(update.stopId!) }))
+      .filter((update) => update.stationId !== undefined);
+
+    for (let i = 0; i < stops.length - 1; i++) {
+      const from = stops[i];
+      const to = stops[i + 1];
+      const key = edgeKey(from.stationId!, to.stationId!, routeId);
+      const edge = edges.get(key);
+      if (!edge) {
+        unmatchedHops++;
+        continue;
+      }
+
+      const leave = from.departure ?? from.arrival;
+      const delay = getHopDelay(leave, to.arrival ?? to.departure, edge);
+      if (delay === undefined) continue;
+
+      let edgeSamples = samples.get(key);
+      if (!edgeSamples) {
+        edgeSamples = { edge, delays: [], departures: [] };
+        samples.set(key, edgeSamples);
+      }
+      edgeSamples.delays.push(delay);
+      if (leave?.time !== undefined) {
+        edgeSamples.departures.push(leave.time);
+      }
+    }
+  }
+
+  if (unmatchedHops > 0) {
+    console.warn(`${unmatchedHops} hops between stations had no edge in the network and were skipped`);
+  }
+
+  return Array.from(samples.values()).map(({ edge, delays, departures }) => {
+    const sortedDepartures = Array.from(new Set(departures)).sort((a, b) => a - b);
+    const gaps = sortedDepartures
+      .slice(1)
+      .map((time, i) => time - sortedDepartures[i])
+      .filter((gap) => gap <= MAX_HEADWAY_SEC);
+
+    return {
+      fromId: edge.fromId,
+      toId: edge.toId,
+      routeId: edge.routeId,
+      delaySec: Math.round(median(delays)),
+      ...(gaps.length > 0 ? { headwaySec: Math.round(median(gaps)) } : {}),
+      tripCount: delays.length,
+    };
+  });
+}
+
+const USAGE = `Usage: npm run import-trip-updates -- --input <file or URL> [options]
+
+Reads a GTFS-realtime TripUpdates snapshot and writes src/data/processed/delays.json for the app.
+
+Options:
+  -i, --input <file>    TripUpdates feed (.pb) or the same feed as JSON (.json), as a file or
+                        an http(s) URL
+  -g, --gtfs <path>     GTFS feed (directory or .zip) used to map stops to stations
+                        (default: src/data/gtfs_subway)
+  -n, --network <file>  Processed network the delays apply to
+                        (default: src/data/processed/network.json)
+  -h, --help            Show this help`;
+
+async function main() {
+  try {
+    const { values } = parseArgs({
+      options: {
+        input: { type: 'string', short: 'i' },
+        gtfs: { type: 'string', short: 'g' },
+        network: { type: 'string', short: 'n' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+    if (values.help || !values.input) {
+      console.log(USAGE);
+      process.exit(values.help ? 0 : 1);
+    }
+
+    const projectRoot = path.resolve(__dirname, '..', '..');
+    const processedDir = path.join(projectRoot, 'src', 'data', 'processed');
+    const input = isURL(values.input) ? values.input : path.resolve(values.input);
+    const gtfsPath = values.gtfs
+      ? path.resolve(values.gtfs)
+      : path.join(projectRoot, 'src', 'data', 'gtfs_subway');
+    const networkPath = values.network
+      ? path.resolve(values.network)
+      : path.join(processedDir, 'network.json');
+
+    const network = JSON.parse(fs.readFileSync(networkPath, 'utf-8')) as ProcessedNetwork;
+    const stopStations = await readStopStations(openGTFSSource(gtfsPath));
+    const feed = await readFeed(input);
+
+    let snapshotTime = feed.timestamp;
+    if (snapshotTime === undefined) {
+      snapshotTime = Math.floor(Date.now() / 1000);
+      console.warn('The feed has no header timestamp; using the current time');
+    }
+
+    const edges = measureEdgeDelays(feed, network, stopStations);
+    const delaysFile: DelaysFile = {
+      generatedAt: new Date().toISOString(),
+      source: isURL(input) ? input : path.basename(input),
+      snapshotTime,
+      edges,
+    };
+    const outputPath = path.join(processedDir, 'delays.json');
+    fs.writeFileSync(outputPath, JSON.stringify(delaysFile, null, 2));
+
+    const delayedEdges = edges.filter((edge) => edge.delaySec > 0);
+    console.log(`\n✅ Imported delays from ${feed.tripUpdates.length} trip updates`);
+    console.log(`   Output: ${outputPath}`);
+    console.log(`   Snapshot: ${new Date(snapshotTime * 1000).toISOString()}`);
+    console.log(`   Edges measured: ${edges.length} (${delayedEdges.length} slower than scheduled)`);
+  } catch (error) {
+    console.error('Error importing trip updates:', error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,158 @@
+import fs from 'fs';
+import zlib from 'zlib';
+
+import {
+  decodeProtobufString,
+  decodeZigZag,
+  readPackedVarints,
+  readProtobufFields,
+} from '../utils/protobuf.js';
+import type { ProtobufField } from '../utils/protobuf.js';
+
+/**
+ * Way of an OpenStreetMap extract
+ */
+export interface OsmWay {
+  id: number;
+  tags: Record<string, string>;
+  refs: number[]; // Node IDs in order
+}
+
+/**
+ * Handlers for the elements of an extract; elements without a handler aren't decoded
+ */
+export interface OsmHandlers {
+  onNode?: (id: number, lat: number, lon: number) => void;
+  onWay?: (way: OsmWay) => void;
+}
+
+// Blocks are at most 32 MiB once inflated; headers far less
+const MAX_BLOB_HEADER_BYTES = 64 * 1024;
+
+const getFields = (fields: ProtobufField[], fieldNumber: number) =>
+  fields.filter((field) => field.fieldNumber === fieldNumber).map((field) => field.value);
+
+const getNumber = (fields: ProtobufField[], fieldNumber: number, fallback: number) => {
+  const value = fields.find((field) => field.fieldNumber === fieldNumber)?.value;
+  return typeof value === 'number' ? value : fallback;
+};
+
+/**
+ * Read the data blocks of an .osm.pbf file, inflated, one at a time
+ * @throws Error on truncated files or compressions other than zlib
+ */
+function* readDataBlocks(filePath: string): Generator<Uint8Array> {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const read = (length: number, position: number): Uint8Array => {
+      const buffer = Buffer.alloc(length);
+      if (fs.readSync(fd, buffer, 0, length, position) !== length) {
+        throw new Error(`Truncated OSM PBF file ${filePath}`);
+      }
+      return new Uint8Array(buffer.buffer, buffer.byteOffset, length);
+    };
+
+    const fileSize = fs.fstatSync(fd).size;
+    let position = 0;
+    while (position < fileSize) {
+      const headerLength = Buffer.from(read(4, position)).readUInt32BE(0);
+      if (headerLength > MAX_BLOB_HEADER_BYTES) {
+        throw new Error(`Not an OSM PBF file: ${filePath}`);
+      }
+      const header = readProtobufFields(read(headerLength, position + 4));
+      const type = decodeProtobufString(getFields(header, 1)[0] ?? '');
+      const dataSize = getNumber(header, 3, 0);
+      const blobPosition = position + 4 + headerLength;
+      position = blobPosition + dataSize;
+      if (type !== 'OSMData') continue; // OSMHeader holds nothing needed here
+
+      const blob = readProtobufFields(read(dataSize, blobPosition));
+      const raw = getFields(blob, 1)[0];
+      const zlibData = getFields(blob, 3)[0];
+      if (raw instanceof Uint8Array) {
+        yield raw;
+      } else if (zlibData instanceof Uint8Array) {
+        yield new Uint8Array(zlib.inflateSync(zlibData));
+      } else {
+        throw new Error('Unsupported OSM PBF compression (only zlib is supported)');
+      }
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Read a way's tags from its key and value indexes into the block's string table
+ */
+function readTags(fields: ProtobufField[], strings: string[]): Record<string, string> {
+  const keys = getFields(fields, 2).flatMap((value) => readPackedVarints(value));
+  const values = getFields(fields, 3).flatMap((value) => readPackedVarints(value));
+  const tags: Record<string, string> = {};
+  keys.forEach((key, i) => {
+    tags[strings[key]] = strings[values[i]];
+  });
+  return tags;
+}
+
+/**
+ * Decode the delta-coded values of a packed sint64 field
+ */
+function readDeltas(value: number | Uint8Array | undefined): number[] {
+  if (value === undefined) {
+    return [];
+  }
+  const values = readPackedVarints(value, true);
+  for (let i = 1; i < values.length; i++) {
+    values[i] += values[i - 1];
+  }
+  return values;
+}
+
+/**
+ * Read the nodes and ways of an OpenStreetMap .osm.pbf extract, block by block
+ * Relations and metadata are skipped
+ * @throws Error on truncated files or compressions other than zlib
+ */
+export function readOsmPbf(filePath: string, handlers: OsmHandlers): void {
+  for (const block of readDataBlocks(filePath)) {
+    const fields = readProtobufFields(block);
+    const stringTable = getFields(fields, 1)[0];
+    const strings =
+      stringTable instanceof Uint8Array
+        ? getFields(readProtobufFields(stringTable), 1).map(decodeProtobufString)
+        : [];
+    const granularity = getNumber(fields, 17, 100);
+    const latOffset = getNumber(fields, 19, 0);
+    const lonOffset = getNumber(fields, 20, 0);
+    const toDegrees = (value: number, offset: number) => (offset + granularity * value) * 1e-9;
+
+    for (const group of getFields(fields, 2)) {
+      for (const { fieldNumber, value } of readProtobufFields(group as Uint8Array)) {
+        if (fieldNumber === 1 && handlers.onNode) {
+          const node = readProtobufFields(value as Uint8Array);
+          handlers.onNode(
+            decodeZigZag(getNumber(node, 1, 0)),
+            toDegrees(decodeZigZag(getNumber(node, 8, 0)), latOffset),
+            toDegrees(decodeZigZag(getNumber(node, 9, 0)), lonOffset)
+          );
+        } else if (fieldNumber === 2 && handlers.onNode) {
+          const dense = readProtobufFields(value as Uint8Array);
+          const ids = readDeltas(getFields(dense, 1)[0]);
+          const lats = readDeltas(getFields(dense, 8)[0]);
+          const lons = readDeltas(getFields(dense, 9)[0]);
+          for (let i = 0; i < ids.length; i++) {
+            handlers.onNode(ids[i], toDegrees(lats[i], latOffset), toDegrees(lons[i], lonOffset));
+          }
+        } else if (fieldNumber === 3 && handlers.onWay) {
+          const way = readProtobufFields(value as Uint8Array);
+          handlers.onWay({
+            id: getNumber(way, 1, 0),
+            tags: readTags(way, strings),
+            refs: readDeltas(getFields(way, 8)[0]),
+          });
+        }
+      }
+    }
+  }
+}
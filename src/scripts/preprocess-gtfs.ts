@@ -1,46 +1,91 @@
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
 
-import type { Station, Edge, ProcessedNetwork } from '../types/network.js';
+import type {
+  Station,
+  Edge,
+  FeedInfo,
+  ProcessedNetwork,
+  Route,
+  ServiceCalendar,
+  Timetable,
+  Transfer,
+  TimetableTrip,
+  TransitMode,
+  TripPattern,
+} from '../types/network.js';
+import type { ProfileNetwork, ServiceProfileId } from '../types/serviceProfile.js';
+import {
+  SERVICE_PROFILES,
+  getProfileId,
+  getServiceDayTypes,
+  getTimeBand,
+} from '../utils/serviceProfiles.js';
+import { sliceShape } from '../utils/shapes.js';
+import { TRANSIT_MODES } from '../utils/routeColors.js';
+import { parseCSVRows } from '../utils/csv.js';
+import type { ValidationReport } from '../types/validation.js';
+import {
+  addIssue,
+  createValidationReport,
+  getThresholdViolations,
+  readThresholds,
+} from './validation.js';
+import { openGTFSSource } from './gtfsSource.js';
+import { getFeedDates, mergeFeedInfo } from './feedInfo.js';
+import { fillStopTimes, parseGTFSTime } from './stopTimes.js';
+import type { StopTime } from './stopTimes.js';
+import type { GTFSSource } from './gtfsSource.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 /**
- * Parse GTFS CSV file
+ * Stream the rows of a GTFS CSV file, header first
+ * Rows with a different number of fields than the header are reported as malformed
+ * @param input Text stream of the file
+ * @param fileName File name used in the validation report
  */
-function parseCSV(filePath: string): string[][] {
-  const content = fs.readFileSync(filePath, 'utf-8');
-  const lines = content.trim().split('\n');
-  return lines.map((line: string) => {
-    // Handle quoted fields that may contain commas
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(current);
-        current = '';
-      } else {
-        current += char;
-      }
+async function* readCSVRows(
+  input: AsyncIterable<string>,
+  fileName: string,
+  report: ValidationReport
+): AsyncGenerator<string[]> {
+  let fieldCount = -1;
+  let rowNumber = 0;
+
+  for await (const row of parseCSVRows(input)) {
+    rowNumber += 1;
+    if (fieldCount === -1) {
+      fieldCount = row.length;
+    } else if (row.length !== fieldCount) {
+      addIssue(
+        report,
+        'malformed_row',
+        fileName,
+        `Expected ${fieldCount} fields, found ${row.length}`,
+        rowNumber
+      );
     }
-    result.push(current);
-    return result;
-  });
+    yield row;
+  }
 }
 
 /**
- * Convert HH:MM:SS time string to seconds since midnight
+ * Parse a whole GTFS CSV file (for the smaller files; stop_times.txt is streamed)
  */
-function timeToSeconds(timeStr: string): number {
-  const [hours, minutes, seconds] = timeStr.split(':').map(Number);
-  return hours * 3600 + minutes * 60 + seconds;
+async function parseCSV(
+  input: AsyncIterable<string>,
+  fileName: string,
+  report: ValidationReport
+): Promise<string[][]> {
+  const rows: string[][] = [];
+  for await (const row of readCSVRows(input, fileName, report)) {
+    rows.push(row);
+  }
+  return rows;
 }
 
 /**
@@ -55,23 +100,299 @@ function median(numbers: number[]): number {
 }
 
 /**
- * Preprocess GTFS data into Stations and Edges
+ * Longest gap between departures counted as a headway; longer gaps are service breaks
+ */
+const MAX_HEADWAY_SEC = 3600;
+
+/**
+ * Build edges from travel times collected per (fromId, toId, routeId), using the median
+ * @param edgeTravelTimes Travel times per edge key
+ * @param edgeHeadways Gaps between departures per edge key; the median becomes headwaySec
+ * @param edgeShapes Track polyline per edge key
+ * @param routes Routes by route_id, for each edge's mode and agency
+ */
+function aggregateEdges(
+  edgeTravelTimes: Map<string, number[]>,
+  edgeHeadways: Map<string, number[]>,
+  edgeShapes: Map<string, [number, number][]>,
+  routes: Map<string, Route>
+): Edge[] {
+  const edges: Edge[] = [];
+
+  for (const [edgeKey, travelTimes] of edgeTravelTimes.entries()) {
+    const [fromId, toId, routeId] = edgeKey.split('|');
+    const medianTime = median(travelTimes);
+    const headways = edgeHeadways.get(edgeKey);
+    const shape = edgeShapes.get(edgeKey);
+    const route = routes.get(routeId);
+
+    edges.push({
+      fromId,
+      toId,
+      travelTimeSec: Math.round(medianTime),
+      routeId,
+      // Without at least two departures there is no headway; the router uses its default
+      ...(headways && headways.length > 0 ? { headwaySec: Math.round(median(headways)) } : {}),
+      ...(shape ? { shape } : {}),
+      ...(route ? { mode: route.mode, agencyId: route.agencyId } : {}),
+    });
+  }
+
+  return edges;
+}
+
+/**
+ * Add a value to the list stored under a key
+ */
+function pushTo<K>(map: Map<K, number[]>, key: K, value: number): void {
+  const values = map.get(key);
+  if (values) {
+    values.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+}
+
+/**
+ * Build service calendars from calendar.txt and calendar_dates.txt
+ */
+function parseServiceCalendars(calendar: string[][], calendarDates: string[][]): ServiceCalendar[] {
+  const servicesMap = new Map<string, ServiceCalendar>();
+
+  const calendarHeader = calendar[0];
+  const serviceIdIdx = calendarHeader.indexOf('service_id');
+  const startDateIdx = calendarHeader.indexOf('start_date');
+  const endDateIdx = calendarHeader.indexOf('end_date');
+  // Ordered to match Date.getDay() (0 = Sunday)
+  const dayIdxs = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+    .map((day) => calendarHeader.indexOf(day));
+
+  for (let i = 1; i < calendar.length; i++) {
+    const row = calendar[i];
+    const serviceId = row[serviceIdIdx];
+    servicesMap.set(serviceId, {
+      serviceId,
+      days: dayIdxs.map((idx) => row[idx] === '1'),
+      startDate: row[startDateIdx],
+      endDate: row[endDateIdx],
+      addedDates: [],
+      removedDates: [],
+    });
+  }
+
+  const datesHeader = calendarDates[0];
+  const datesServiceIdIdx = datesHeader.indexOf('service_id');
+  const dateIdx = datesHeader.indexOf('date');
+  const exceptionTypeIdx = datesHeader.indexOf('exception_type');
+
+  for (let i = 1; i < calendarDates.length; i++) {
+    const row = calendarDates[i];
+    const serviceId = row[datesServiceIdIdx];
+    const date = row[dateIdx];
+
+    // Services defined only in calendar_dates.txt have no weekly pattern
+    if (!servicesMap.has(serviceId)) {
+      servicesMap.set(serviceId, {
+        serviceId,
+        days: new Array(7).fill(false),
+        startDate: date,
+        endDate: date,
+        addedDates: [],
+        removedDates: [],
+      });
+    }
+
+    const service = servicesMap.get(serviceId)!;
+    if (row[exceptionTypeIdx] === '1') {
+      service.addedDates.push(date);
+    } else if (row[exceptionTypeIdx] === '2') {
+      service.removedDates.push(date);
+    }
+  }
+
+  return Array.from(servicesMap.values());
+}
+
+/**
+ * Read the optional list of ADA-accessible stations
+ * Accepts MTA's station list ("GTFS Stop ID" and "ADA" columns) or a plain stop_id,ada CSV;
+ * ADA=1 means fully accessible (2, accessible in one direction only, is not counted)
+ * @returns Map of stop ID to accessibility, or null if the file is missing
+ */
+async function readAccessibleStations(
+  filePath: string,
+  report: ValidationReport
+): Promise<Map<string, boolean> | null> {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  const rows = await parseCSV(
+    fs.createReadStream(filePath, { encoding: 'utf-8' }),
+    path.basename(filePath),
+    report
+  );
+  const header = rows[0].map((column) => column.trim());
+  const stopIdIdx = header.findIndex((column) => column === 'GTFS Stop ID' || column === 'stop_id');
+  const adaIdx = header.findIndex((column) => column === 'ADA' || column === 'ada');
+  if (stopIdIdx === -1 || adaIdx === -1) {
+    throw new Error(`${filePath} needs "GTFS Stop ID"/"stop_id" and "ADA"/"ada" columns`);
+  }
+
+  const accessibleStations = new Map<string, boolean>();
+  for (let i = 1; i < rows.length; i++) {
+    const stopId = rows[i][stopIdIdx]?.trim();
+    if (stopId) {
+      accessibleStations.set(stopId, rows[i][adaIdx]?.trim() === '1');
+    }
+  }
+  return accessibleStations;
+}
+
+/**
+ * Read the optional shapes.txt
+ * @param fileLabel Name of the file in the validation report
+ * @returns Map of shape_id to its [lon, lat] points in sequence order, or null if the file is missing
+ */
+async function readShapes(
+  source: GTFSSource,
+  fileLabel: string,
+  report: ValidationReport
+): Promise<Map<string, [number, number][]> | null> {
+  if (!source.has('shapes.txt')) {
+    return null;
+  }
+
+  const rows = readCSVRows(source.open('shapes.txt'), fileLabel, report);
+  const header = (await rows.next()).value ?? [];
+  const shapeIdIdx = header.indexOf('shape_id');
+  const latIdx = header.indexOf('shape_pt_lat');
+  const lonIdx = header.indexOf('shape_pt_lon');
+  const sequenceIdx = header.indexOf('shape_pt_sequence');
+
+  const points = new Map<string, Array<{ sequence: number; coordinates: [number, number] }>>();
+  for await (const row of rows) {
+    const shapeId = row[shapeIdIdx];
+    if (!points.has(shapeId)) {
+      points.set(shapeId, []);
+    }
+    points.get(shapeId)!.push({
+      sequence: parseInt(row[sequenceIdx], 10),
+      coordinates: [parseFloat(row[lonIdx]), parseFloat(row[latIdx])],
+    });
+  }
+
+  const shapes = new Map<string, [number, number][]>();
+  for (const [shapeId, shapePoints] of points) {
+    shapePoints.sort((a, b) => a.sequence - b.sequence);
+    shapes.set(shapeId, shapePoints.map((point) => point.coordinates));
+  }
+  return shapes;
+}
+
+/**
+ * Round coordinates to 6 decimals (about 10 cm) to keep the output small
+ */
+function roundCoordinates(line: [number, number][]): [number, number][] {
+  return line.map(([lon, lat]) => [Math.round(lon * 1e6) / 1e6, Math.round(lat * 1e6) / 1e6]);
+}
+
+/**
+ * Mode of a GTFS route_type, including the extended (Google) route types
+ * Unknown types are treated as buses, the most common kind of route
+ */
+function getModeForRouteType(routeType: number): TransitMode {
+  if (routeType === 1 || routeType === 12 || (routeType >= 400 && routeType < 500)) return 'subway';
+  if (routeType === 2 || (routeType >= 100 && routeType < 200)) return 'rail';
+  if (routeType === 4 || routeType === 1200 || (routeType >= 1000 && routeType < 1100)) return 'ferry';
+  if (
+    [0, 5, 6, 7].includes(routeType) ||
+    (routeType >= 900 && routeType < 1000) ||
+    (routeType >= 1300 && routeType < 1400)
+  ) {
+    return 'tram';
+  }
+  return 'bus';
+}
+
+/**
+ * Prefix the values of some columns (skipping empty ones) in parsed CSV rows
+ * Keeps IDs of feeds merged into one network from colliding
  */
-function preprocessGTFS(): ProcessedNetwork {
+function prefixColumns(rows: string[][], columns: string[], prefix: string): void {
+  if (!prefix || rows.length === 0) return;
+  const columnIdxs = columns.map((column) => rows[0].indexOf(column)).filter((idx) => idx !== -1);
+  for (let i = 1; i < rows.length; i++) {
+    for (const idx of columnIdxs) {
+      if (rows[i][idx]) {
+        rows[i][idx] = prefix + rows[i][idx];
+      }
+    }
+  }
+}
+
+/**
+ * A GTFS feed to preprocess
+ * Feeds with an id have all their stop, route, agency and service IDs prefixed with `${id}:`
+ */
+interface FeedInput {
+  id?: string;
+  path: string; // Unzipped GTFS directory or GTFS .zip file
+}
+
+/**
+ * Preprocess one GTFS feed into Stations and Edges
+ * Also returns the edges of each service profile (day type and time band)
+ * @param input Feed to read, with the ID its IDs are prefixed with
+ * @param report Validation report the feed's issues are added to
+ */
+async function preprocessFeed(input: FeedInput, report: ValidationReport): Promise<{
+  network: ProcessedNetwork & { feed: FeedInfo; routes: Route[] };
+  profiles: ProfileNetwork[];
+}> {
   // Resolve path relative to project root (not dist/)
   const projectRoot = path.resolve(__dirname, '..', '..');
-  const dataPath = path.join(projectRoot, 'src', 'data', 'gtfs_subway');
+  const source = openGTFSSource(input.path);
+  const prefix = input.id ? `${input.id}:` : '';
+  // With several feeds, issues are reported per feed (e.g. "path/stop_times.txt")
+  const fileLabel = (fileName: string) => (input.id ? `${input.id}/${fileName}` : fileName);
   
   // Read GTFS files
-  console.log('Reading GTFS files...');
-  const stops = parseCSV(path.join(dataPath, 'stops.txt'));
-  const stopTimes = parseCSV(path.join(dataPath, 'stop_times.txt'));
-  const trips = parseCSV(path.join(dataPath, 'trips.txt'));
-  const routes = parseCSV(path.join(dataPath, 'routes.txt'));
+  console.log(`Reading GTFS files from ${source.path}...`);
+  const readFile = (fileName: string) => parseCSV(source.open(fileName), fileLabel(fileName), report);
+  // Optional files read as a header-less empty table
+  const readOptionalFile = async (fileName: string): Promise<string[][]> =>
+    source.has(fileName) ? readFile(fileName) : [[]];
+  const stops = await readFile('stops.txt');
+  const trips = await readFile('trips.txt');
+  const routes = await readFile('routes.txt');
+  const agencies = await readOptionalFile('agency.txt');
+  const calendar = await readOptionalFile('calendar.txt');
+  const calendarDates = await readOptionalFile('calendar_dates.txt');
+  const transfersTxt = await readOptionalFile('transfers.txt');
+  const shapes = await readShapes(source, fileLabel('shapes.txt'), report);
+
+  prefixColumns(stops, ['stop_id', 'parent_station'], prefix);
+  prefixColumns(trips, ['route_id', 'service_id'], prefix);
+  prefixColumns(routes, ['route_id', 'agency_id'], prefix);
+  prefixColumns(agencies, ['agency_id'], prefix);
+  prefixColumns(calendar, ['service_id'], prefix);
+  prefixColumns(calendarDates, ['service_id'], prefix);
+  prefixColumns(transfersTxt, ['from_stop_id', 'to_stop_id'], prefix);
+  if (!shapes) {
+    console.warn('No shapes.txt: edges will be drawn as straight lines between stations');
+  }
+  const adaStations = await readAccessibleStations(
+    path.join(projectRoot, 'src', 'data', 'accessibility', 'ada_stations.csv'),
+    report
+  );
+
+  // stop_times.txt can be hundreds of megabytes, so it is streamed row by row below
+  const stopTimes = readCSVRows(source.open('stop_times.txt'), fileLabel('stop_times.txt'), report);
   
   // Parse headers
   const stopsHeader = stops[0];
-  const stopTimesHeader = stopTimes[0];
+  const stopTimesHeader = (await stopTimes.next()).value ?? [];
   const tripsHeader = trips[0];
   const routesHeader = routes[0];
   
@@ -81,6 +402,7 @@ function preprocessGTFS(): ProcessedNetwork {
   const stopLonIdx = stopsHeader.indexOf('stop_lon');
   const locationTypeIdx = stopsHeader.indexOf('location_type');
   const parentStationIdx = stopsHeader.indexOf('parent_station');
+  const wheelchairBoardingIdx = stopsHeader.indexOf('wheelchair_boarding'); // Optional in GTFS
   
   const tripIdIdx = stopTimesHeader.indexOf('trip_id');
   const stopTimesStopIdIdx = stopTimesHeader.indexOf('stop_id');
@@ -90,9 +412,15 @@ function preprocessGTFS(): ProcessedNetwork {
   
   const tripsTripIdIdx = tripsHeader.indexOf('trip_id');
   const routeIdIdx = tripsHeader.indexOf('route_id');
+  const serviceIdIdx = tripsHeader.indexOf('service_id');
+  const shapeIdIdx = tripsHeader.indexOf('shape_id'); // Optional in GTFS
   
   const routeIdRoutesIdx = routesHeader.indexOf('route_id');
   const routeShortNameIdx = routesHeader.indexOf('route_short_name');
+  const routeLongNameIdx = routesHeader.indexOf('route_long_name');
+  const routeTypeIdx = routesHeader.indexOf('route_type');
+  const routeColorIdx = routesHeader.indexOf('route_color'); // Optional in GTFS
+  const routeAgencyIdx = routesHeader.indexOf('agency_id'); // Optional in single-agency feeds
   
   // Build maps
   console.log('Building station maps...');
@@ -102,8 +430,11 @@ function preprocessGTFS(): ProcessedNetwork {
   
   // Map: parent_station_id -> Station data
   const stationsMap = new Map<string, Station>();
+
+  // Map: stop_id -> [lon, lat] (for all stops, including children), for slicing shapes
+  const stopCoordinates = new Map<string, [number, number]>();
   
-  // Map: stop_id -> route_short_name (for all stops, including children)
+  // Map: parent station ID -> route_ids serving it
   const stopToRoutes = new Map<string, Set<string>>();
   
   // First pass: identify parent stations and map child stops
@@ -112,6 +443,7 @@ function preprocessGTFS(): ProcessedNetwork {
     const stopId = row[stopIdIdx];
     const locationType = row[locationTypeIdx];
     const parentStation = row[parentStationIdx];
+    stopCoordinates.set(stopId, [parseFloat(row[stopLonIdx]), parseFloat(row[stopLatIdx])]);
     
     if (locationType === '1') {
       // This is a parent station
@@ -124,107 +456,163 @@ function preprocessGTFS(): ProcessedNetwork {
         name,
         lat,
         lon,
-        accessible: false, // Default to false (GTFS doesn't have this field in stops.txt)
+        accessible: wheelchairBoardingIdx !== -1 && row[wheelchairBoardingIdx] === '1',
         routesServed: [],
       });
     } else if (parentStation) {
       // This is a child stop, map it to parent
       stopToParent.set(stopId, parentStation);
+    } else if (!locationType || locationType === '0') {
+      // A stop without a parent station (common outside the subway) is its own station
+      stationsMap.set(stopId, {
+        id: stopId,
+        name: row[stopNameIdx],
+        lat: parseFloat(row[stopLatIdx]),
+        lon: parseFloat(row[stopLonIdx]),
+        accessible: wheelchairBoardingIdx !== -1 && row[wheelchairBoardingIdx] === '1',
+        routesServed: [],
+      });
+    }
+  }
+
+  // An accessible platform makes its parent station accessible
+  if (wheelchairBoardingIdx !== -1) {
+    for (let i = 1; i < stops.length; i++) {
+      const row = stops[i];
+      const station = stationsMap.get(row[parentStationIdx]);
+      if (station && row[wheelchairBoardingIdx] === '1') {
+        station.accessible = true;
+      }
+    }
+  }
+
+  // The ADA station list, when present, takes precedence over wheelchair_boarding
+  if (adaStations) {
+    for (const [stopId, accessible] of adaStations) {
+      const station = stationsMap.get(stopToParent.get(stopId) || stopId);
+      if (station) {
+        station.accessible = accessible;
+      }
     }
   }
+  const accessibleCount = Array.from(stationsMap.values()).filter((s) => s.accessible).length;
+  if (wheelchairBoardingIdx === -1 && !adaStations) {
+    console.warn('No wheelchair_boarding in stops.txt and no ada_stations.csv: all stations marked inaccessible');
+  } else {
+    console.log(`Marked ${accessibleCount} accessible stations`);
+  }
   
   // Second pass: collect routes for each station via trips and stop_times
   console.log('Mapping routes to stations...');
   
-  // Build trip_id -> route_id map
+  // Build trip_id -> route_id and trip_id -> service_id maps
   const tripToRoute = new Map<string, string>();
+  const tripToService = new Map<string, string>();
+  const tripToShape = new Map<string, string>();
   for (let i = 1; i < trips.length; i++) {
     const row = trips[i];
     const tripId = row[tripsTripIdIdx];
     const routeId = row[routeIdIdx];
     tripToRoute.set(tripId, routeId);
+    tripToService.set(tripId, row[serviceIdIdx]);
+    if (shapeIdIdx !== -1 && row[shapeIdIdx]) {
+      tripToShape.set(tripId, row[shapeIdIdx]);
+    }
   }
   
-  // Build route_id -> route_short_name map
-  const routeIdToShortName = new Map<string, string>();
+  // agency_id may be left out of a feed with a single agency
+  const agencyIdIdx = agencies[0].indexOf('agency_id');
+  const agencyNameIdx = agencies[0].indexOf('agency_name');
+  const defaultAgencyId =
+    (agencyIdIdx !== -1 && agencies[1]?.[agencyIdIdx]) ||
+    input.id ||
+    (agencyNameIdx !== -1 && agencies[1]?.[agencyNameIdx]) ||
+    path.basename(input.path, '.zip');
+
+  // Build route_id -> route map
+  const routesById = new Map<string, Route>();
   for (let i = 1; i < routes.length; i++) {
     const row = routes[i];
     const routeId = row[routeIdRoutesIdx];
-    const routeShortName = row[routeShortNameIdx];
-    routeIdToShortName.set(routeId, routeShortName);
-  }
-  
-  // Process stop_times to map routes to stops
-  for (let i = 1; i < stopTimes.length; i++) {
-    const row = stopTimes[i];
-    const tripId = row[tripIdIdx];
-    const stopId = row[stopTimesStopIdIdx];
-    
-    // Get parent station ID
-    const parentId = stopToParent.get(stopId) || stopId;
-    
-    // Get route short name
-    const routeId = tripToRoute.get(tripId);
-    if (routeId) {
-      const routeShortName = routeIdToShortName.get(routeId);
-      if (routeShortName) {
-        if (!stopToRoutes.has(parentId)) {
-          stopToRoutes.set(parentId, new Set());
-        }
-        stopToRoutes.get(parentId)!.add(routeShortName);
-      }
-    }
+    const color = routeColorIdx !== -1 ? row[routeColorIdx] : '';
+    routesById.set(routeId, {
+      id: routeId,
+      name: row[routeShortNameIdx] || row[routeLongNameIdx] || routeId,
+      ...(color ? { color: `#${color}` } : {}),
+      mode: getModeForRouteType(parseInt(row[routeTypeIdx], 10)),
+      agencyId: (routeAgencyIdx !== -1 && row[routeAgencyIdx]) || defaultAgencyId,
+    });
   }
   
-  // Update stations with routes
-  for (const [stationId, station] of stationsMap.entries()) {
-    const routesSet = stopToRoutes.get(stationId);
-    if (routesSet) {
-      station.routesServed = Array.from(routesSet).sort();
+  // Trips whose route is missing from routes.txt are reported and left out
+  for (const [tripId, routeId] of tripToRoute) {
+    if (!routesById.has(routeId)) {
+      addIssue(report, 'trip_without_route', fileLabel('trips.txt'), `Trip ${tripId} has unknown route ${routeId}`);
+      tripToRoute.delete(tripId);
     }
   }
-  
-  // Third pass: build edges from consecutive stop_times
-  console.log('Building edges from stop_times...');
+
+  // Third pass: build edges and the timetable from stop_times, one trip at a time
+  console.log('Building edges and timetable from stop_times...');
   
   // Map: (fromId, toId, routeId) -> travel times array
   const edgeTravelTimes = new Map<string, number[]>();
-  
-  // Group stop_times by trip_id
-  const tripStopTimes = new Map<string, Array<{
-    stopId: string;
-    arrivalTime: string;
-    departureTime: string;
-    sequence: number;
-  }>>();
-  
-  for (let i = 1; i < stopTimes.length; i++) {
-    const row = stopTimes[i];
-    const tripId = row[tripIdIdx];
-    const stopId = row[stopTimesStopIdIdx];
-    const arrivalTime = row[arrivalTimeIdx];
-    const departureTime = row[departureTimeIdx];
-    const sequence = parseInt(row[stopSequenceIdx], 10);
-    
-    if (!tripStopTimes.has(tripId)) {
-      tripStopTimes.set(tripId, []);
-    }
-    
-    tripStopTimes.get(tripId)!.push({
-      stopId,
-      arrivalTime,
-      departureTime,
-      sequence,
-    });
-  }
-  
-  // Process each trip to create edges
-  for (const [tripId, stops] of tripStopTimes.entries()) {
+
+  // Same, per service profile, bucketed by the service's day types and the departure time
+  const services = parseServiceCalendars(calendar, calendarDates);
+  const serviceDayTypes = new Map(
+    services.map((service) => [service.serviceId, getServiceDayTypes(service)])
+  );
+  const profileTravelTimes = new Map<ServiceProfileId, Map<string, number[]>>(
+    SERVICE_PROFILES.map((profile) => [profile.id, new Map()])
+  );
+
+  // Map: edge key -> track polyline, sliced from the shape of the first trip seen on the edge
+  const edgeShapes = new Map<string, [number, number][]>();
+
+  // Map: edge key -> service_id -> departure times, for headways
+  // (per edge, so each route, direction and station gets its own)
+  const edgeDepartures = new Map<string, Map<string, number[]>>();
+
+  // Trips of a route serving the same station sequence share a pattern
+  const patternsMap = new Map<string, TripPattern>();
+
+  // Add a trip's edges, headway departures and timetable entry
+  const addTrip = (tripId: string, tripStops: StopTime[]) => {
     // Sort by sequence
-    stops.sort((a, b) => a.sequence - b.sequence);
+    tripStops.sort((a, b) => a.sequence - b.sequence);
     
     const routeId = tripToRoute.get(tripId);
-    if (!routeId) continue;
+    if (!routeId) return;
+
+    // Stops that aren't timepoints may have no times
+    const { stops, interpolated, dropped } = fillStopTimes(tripStops, stopCoordinates);
+    if (interpolated > 0 || dropped > 0) {
+      addIssue(
+        report,
+        'missing_time',
+        fileLabel('stop_times.txt'),
+        `Trip ${tripId} has no times at ${interpolated + dropped} stops: ` +
+          `${interpolated} interpolated between timepoints, ${dropped} outside them left out`,
+        tripStops[0].row
+      );
+    }
+    const shape = shapes?.get(tripToShape.get(tripId) ?? '');
+
+    // Times must not go backwards along a trip (GTFS counts past 24:00 instead of wrapping)
+    for (let i = 0; i < stops.length; i++) {
+      const stop = stops[i];
+      const previous = i > 0 ? stops[i - 1] : null;
+      if (stop.departureTime < stop.arrivalTime || (previous && stop.arrivalTime < previous.departureTime)) {
+        addIssue(
+          report,
+          'non_monotonic_time',
+          fileLabel('stop_times.txt'),
+          `Trip ${tripId} goes back in time at stop_sequence ${stop.sequence}`,
+          stop.row
+        );
+      }
+    }
     
     // Create edges between consecutive stops
     for (let i = 0; i < stops.length - 1; i++) {
@@ -239,68 +627,432 @@ function preprocessGTFS(): ProcessedNetwork {
       if (fromParentId === toParentId) continue;
       
       // Calculate travel time
-      const fromTime = timeToSeconds(fromStop.departureTime);
-      const toTime = timeToSeconds(toStop.arrivalTime);
+      const fromTime = fromStop.departureTime;
+      const toTime = toStop.arrivalTime;
       const travelTime = toTime - fromTime;
       
       // Handle overnight trips (time wraps around)
       const adjustedTravelTime = travelTime < 0 ? travelTime + 86400 : travelTime;
       
       // Skip invalid travel times (likely data errors)
-      if (adjustedTravelTime < 0 || adjustedTravelTime > 3600) continue; // Max 1 hour between stops
+      if (adjustedTravelTime < 0 || adjustedTravelTime > 3600) { // Max 1 hour between stops
+        addIssue(
+          report,
+          'skipped_edge',
+          fileLabel('stop_times.txt'),
+          `Trip ${tripId} takes ${adjustedTravelTime} s from ${fromStop.stopId} to ${toStop.stopId} (over an hour)`,
+          toStop.row
+        );
+        continue;
+      }
       
       const edgeKey = `${fromParentId}|${toParentId}|${routeId}`;
       if (!edgeTravelTimes.has(edgeKey)) {
         edgeTravelTimes.set(edgeKey, []);
       }
       edgeTravelTimes.get(edgeKey)!.push(adjustedTravelTime);
+
+      // Platforms lie on the track, so slice between their coordinates rather than the stations'
+      const fromCoordinates = stopCoordinates.get(fromStop.stopId);
+      const toCoordinates = stopCoordinates.get(toStop.stopId);
+      if (shape && fromCoordinates && toCoordinates && !edgeShapes.has(edgeKey)) {
+        const slice = sliceShape(shape, fromCoordinates, toCoordinates);
+        if (slice) {
+          edgeShapes.set(edgeKey, roundCoordinates(slice));
+        }
+      }
+
+      const serviceId = tripToService.get(tripId) ?? '';
+      if (!edgeDepartures.has(edgeKey)) {
+        edgeDepartures.set(edgeKey, new Map());
+      }
+      pushTo(edgeDepartures.get(edgeKey)!, serviceId, fromTime);
+
+      const timeBand = getTimeBand(fromTime);
+      for (const dayType of serviceDayTypes.get(serviceId) ?? []) {
+        const profileTimes = profileTravelTimes.get(getProfileId(dayType, timeBand))!;
+        if (!profileTimes.has(edgeKey)) {
+          profileTimes.set(edgeKey, []);
+        }
+        profileTimes.get(edgeKey)!.push(adjustedTravelTime);
+      }
+    }
+
+    // Timetable: consecutive stops at the same parent station collapse into one
+    const serviceId = tripToService.get(tripId);
+    if (!serviceId) return;
+    const stationIds: string[] = [];
+    const arrivals: number[] = [];
+    const departures: number[] = [];
+    
+    for (const stop of stops) {
+      const parentId = stopToParent.get(stop.stopId) || stop.stopId;
+      if (stationIds[stationIds.length - 1] === parentId) {
+        departures[departures.length - 1] = stop.departureTime;
+        continue;
+      }
+      
+      stationIds.push(parentId);
+      arrivals.push(stop.arrivalTime);
+      departures.push(stop.departureTime);
+    }
+    
+    if (stationIds.length < 2) return;
+    
+    const patternKey = `${routeId}|${stationIds.join(',')}`;
+    if (!patternsMap.has(patternKey)) {
+      patternsMap.set(patternKey, {
+        id: `${routeId}-${patternsMap.size}`,
+        routeId,
+        stationIds,
+        trips: [],
+      });
+    }
+    
+    // Only store arrivals when they differ from departures to keep the output compact
+    const trip: TimetableTrip = { serviceId, departures };
+    if (arrivals.some((arrival, i) => arrival !== departures[i])) {
+      trip.arrivals = arrivals;
+    }
+    patternsMap.get(patternKey)!.trips.push(trip);
+  };
+
+  // Stream stop_times, mapping routes to stops and adding each trip once its last row is read.
+  // A trip's rows must be together (as feeds write them), so only one trip is held at a time
+  const tripsReportedWithoutRoute = new Set<string>();
+  const finishedTrips = new Set<string>();
+  let tripId: string | null = null;
+  let tripStops: StopTime[] = [];
+  let stopTimesRow = 1;
+
+  for await (const row of stopTimes) {
+    stopTimesRow += 1;
+    if (row[tripIdIdx] !== tripId) {
+      if (tripId !== null) {
+        addTrip(tripId, tripStops);
+        finishedTrips.add(tripId);
+      }
+      tripId = row[tripIdIdx];
+      tripStops = [];
+      if (finishedTrips.has(tripId)) {
+        addIssue(report, 'split_trip', fileLabel('stop_times.txt'), `Trip ${tripId} has rows apart from its others (rows left out)`, stopTimesRow);
+      }
+    }
+    if (finishedTrips.has(tripId)) continue;
+    const stopId = prefix + row[stopTimesStopIdIdx];
+
+    if (!stopCoordinates.has(stopId)) {
+      addIssue(report, 'unknown_stop', fileLabel('stop_times.txt'), `Trip ${tripId} stops at unknown stop ${stopId}`, stopTimesRow);
+      continue;
+    }
+
+    const routeId = tripToRoute.get(tripId);
+    if (!routeId) {
+      if (!tripsReportedWithoutRoute.has(tripId)) {
+        tripsReportedWithoutRoute.add(tripId);
+        addIssue(report, 'trip_without_route', fileLabel('stop_times.txt'), `Trip ${tripId} is missing from trips.txt or has no route`, stopTimesRow);
+      }
+      continue;
+    }
+
+    // Get parent station ID
+    const parentId = stopToParent.get(stopId) || stopId;
+
+    if (!stopToRoutes.has(parentId)) {
+      stopToRoutes.set(parentId, new Set());
+    }
+    stopToRoutes.get(parentId)!.add(routeId);
+
+    // Empty times are allowed (stops that aren't timepoints); others must parse
+    const [arrivalTime, departureTime] = [row[arrivalTimeIdx], row[departureTimeIdx]].map((value) => {
+      const time = parseGTFSTime(value ?? '');
+      if (time === null && value?.trim()) {
+        addIssue(report, 'invalid_time', fileLabel('stop_times.txt'), `Trip ${tripId} has time "${value}", read as missing`, stopTimesRow);
+      }
+      return time;
+    });
+    tripStops.push({
+      stopId,
+      arrivalTime,
+      departureTime,
+      sequence: parseInt(row[stopSequenceIdx], 10),
+      row: stopTimesRow,
+    });
+  }
+  if (tripId !== null) {
+    addTrip(tripId, tripStops);
+  }
+  
+  // Update stations with routes, taking the mode and agency of the first route by mode
+  // (stations without trips get those of the feed's first route)
+  const modeOrder = (route: Route) => TRANSIT_MODES.indexOf(route.mode);
+  const firstRoute = routesById.values().next().value as Route | undefined;
+  for (const [stationId, station] of stationsMap.entries()) {
+    const stationRoutes = Array.from(stopToRoutes.get(stationId) ?? [], (routeId) => routesById.get(routeId)!);
+    station.routesServed = Array.from(new Set(stationRoutes.map((route) => route.name))).sort();
+
+    const mainRoute = stationRoutes.sort((a, b) => modeOrder(a) - modeOrder(b))[0] ?? firstRoute;
+    if (mainRoute) {
+      station.mode = mainRoute.mode;
+      station.agencyId = mainRoute.agencyId;
     }
   }
   
+  // Headways: gaps between consecutive departures of the same service,
+  // bucketed by the time band of the later departure for profiles
+  console.log('Computing headways...');
+  const edgeHeadways = new Map<string, number[]>();
+  const profileHeadways = new Map<ServiceProfileId, Map<string, number[]>>(
+    SERVICE_PROFILES.map((profile) => [profile.id, new Map()])
+  );
+  for (const [edgeKey, departuresByService] of edgeDepartures.entries()) {
+    for (const [serviceId, departures] of departuresByService.entries()) {
+      departures.sort((a, b) => a - b);
+      for (let i = 1; i < departures.length; i++) {
+        const gap = departures[i] - departures[i - 1];
+        if (gap <= 0 || gap > MAX_HEADWAY_SEC) continue;
+
+        pushTo(edgeHeadways, edgeKey, gap);
+        const timeBand = getTimeBand(departures[i]);
+        for (const dayType of serviceDayTypes.get(serviceId) ?? []) {
+          pushTo(profileHeadways.get(getProfileId(dayType, timeBand))!, edgeKey, gap);
+        }
+      }
+    }
+  }
+
   // Create edges with median travel times
   console.log('Aggregating edge travel times...');
-  const edges: Edge[] = [];
+  const edges = aggregateEdges(edgeTravelTimes, edgeHeadways, edgeShapes, routesById);
+  const profiles: ProfileNetwork[] = SERVICE_PROFILES.map((profile) => ({
+    profile,
+    edges: aggregateEdges(
+      profileTravelTimes.get(profile.id)!,
+      profileHeadways.get(profile.id)!,
+      edgeShapes,
+      routesById
+    ),
+  }));
+  console.log(`Found track shapes for ${edgeShapes.size} of ${edgeTravelTimes.size} edges`);
   
-  for (const [edgeKey, travelTimes] of edgeTravelTimes.entries()) {
-    const [fromId, toId, routeId] = edgeKey.split('|');
-    const medianTime = median(travelTimes);
+  // Build transfers between parent stations from transfers.txt
+  console.log('Building transfers...');
+  const transfersHeader = transfersTxt[0];
+  const fromStopIdIdx = transfersHeader.indexOf('from_stop_id');
+  const toStopIdIdx = transfersHeader.indexOf('to_stop_id');
+  const transferTypeIdx = transfersHeader.indexOf('transfer_type');
+  const minTransferTimeIdx = transfersHeader.indexOf('min_transfer_time');
+  
+  // Map: (fromId, toId) -> shortest min_transfer_time
+  const transferTimes = new Map<string, number>();
+  for (let i = 1; i < transfersTxt.length; i++) {
+    const row = transfersTxt[i];
     
-    edges.push({
-      fromId,
-      toId,
-      travelTimeSec: Math.round(medianTime),
-      routeId,
-    });
+    // transfer_type 3 means no transfer is possible
+    if (row[transferTypeIdx] === '3') continue;
+    
+    const fromId = stopToParent.get(row[fromStopIdIdx]) || row[fromStopIdIdx];
+    const toId = stopToParent.get(row[toStopIdIdx]) || row[toStopIdIdx];
+    if (!stationsMap.has(fromId) || !stationsMap.has(toId)) continue;
+    
+    const minTransferTime = parseInt(row[minTransferTimeIdx], 10) || 0;
+    const transferKey = `${fromId}|${toId}`;
+    const existing = transferTimes.get(transferKey);
+    if (existing === undefined || minTransferTime < existing) {
+      transferTimes.set(transferKey, minTransferTime);
+    }
+  }
+  
+  const transfers: Transfer[] = Array.from(transferTimes.entries()).map(([transferKey, minTransferTimeSec]) => {
+    const [fromId, toId] = transferKey.split('|');
+    return { fromId, toId, minTransferTimeSec };
+  });
+  
+  const patterns = Array.from(patternsMap.values());
+  for (const pattern of patterns) {
+    pattern.trips.sort((a, b) => a.departures[0] - b.departures[0]);
   }
   
+  const timetable: Timetable = {
+    services,
+    patterns,
+  };
+  
   const stations = Array.from(stationsMap.values());
   
   console.log(`Processed ${stations.length} stations and ${edges.length} edges`);
+  console.log(`Built timetable with ${patterns.length} trip patterns`);
+  console.log(`Built ${transfers.length} transfers`);
+  for (const { profile, edges: profileEdges } of profiles) {
+    console.log(`Profile ${profile.id}: ${profileEdges.length} edges`);
+  }
   
-  return { stations, edges };
+  const feed: FeedInfo = {
+    ...getFeedDates(services),
+    sourceHash: await source.hash(),
+    generatedAt: new Date().toISOString(),
+  };
+  console.log(`Feed valid ${feed.startDate} to ${feed.endDate}`);
+  
+  return {
+    network: { stations, edges, transfers, timetable, feed, routes: Array.from(routesById.values()) },
+    profiles,
+  };
+}
+
+/**
+ * Preprocess one or more GTFS feeds into one network
+ * Feeds aren't linked by transfers.txt; the router connects them with straight-line walks
+ * between nearby stations, like any out-of-system transfer
+ * @param inputs Feeds to merge; only one may be without an id
+ * @throws Error if two feeds have a station with the same ID
+ */
+async function preprocessGTFS(inputs: FeedInput[]): Promise<{
+  network: ProcessedNetwork;
+  profiles: ProfileNetwork[];
+  report: ValidationReport;
+}> {
+  const report = createValidationReport();
+  const results: Array<Awaited<ReturnType<typeof preprocessFeed>>> = [];
+  for (const input of inputs) {
+    results.push(await preprocessFeed(input, report));
+  }
+
+  const stationIds = new Set<string>();
+  for (const { network } of results) {
+    for (const station of network.stations) {
+      if (stationIds.has(station.id)) {
+        throw new Error(
+          `Station ${station.id} is in more than one feed; give the feeds IDs (--input <id>=<path>)`
+        );
+      }
+      stationIds.add(station.id);
+    }
+  }
+
+  const networks = results.map((result) => result.network);
+  const network: ProcessedNetwork = {
+    stations: networks.flatMap((feedNetwork) => feedNetwork.stations),
+    edges: networks.flatMap((feedNetwork) => feedNetwork.edges),
+    transfers: networks.flatMap((feedNetwork) => feedNetwork.transfers ?? []),
+    timetable: {
+      services: networks.flatMap((feedNetwork) => feedNetwork.timetable?.services ?? []),
+      patterns: networks.flatMap((feedNetwork) => feedNetwork.timetable?.patterns ?? []),
+    },
+    feed: mergeFeedInfo(networks.map((feedNetwork) => feedNetwork.feed)),
+    routes: networks.flatMap((feedNetwork) => feedNetwork.routes),
+  };
+  const profiles: ProfileNetwork[] = SERVICE_PROFILES.map((profile) => ({
+    profile,
+    edges: results.flatMap((result) =>
+      result.profiles.find((feedProfile) => feedProfile.profile.id === profile.id)?.edges ?? []
+    ),
+  }));
+
+  if (results.length > 1) {
+    console.log(`Merged ${results.length} feeds: ${network.stations.length} stations and ${network.edges.length} edges`);
+  }
+  console.log(`Validation: ${report.errorCount} errors, ${report.warningCount} warnings`);
+
+  return { network, profiles, report };
+}
+
+const USAGE = `Usage: npm run preprocess -- [--input [<id>=]<gtfs.zip | directory>]...
+
+Options:
+  -i, --input  GTFS feed as a .zip file or unzipped directory (default: src/data/gtfs_subway)
+               Repeat to merge feeds; the id (e.g. path=gtfs_path.zip) prefixes the feed's
+               stop, route and service IDs, and one feed may be without it
+  -h, --help   Show this help`;
+
+/**
+ * Parse --input values of the form [<id>=]<path>
+ * @throws Error if more than one feed has no id or two feeds share one
+ */
+function parseFeedInputs(values: string[]): FeedInput[] {
+  const inputs = values.map((value) => {
+    const match = /^([A-Za-z0-9_-]+)=(.+)$/.exec(value);
+    return match
+      ? { id: match[1], path: path.resolve(match[2]) }
+      : { path: path.resolve(value) };
+  });
+
+  if (inputs.filter((input) => !input.id).length > 1) {
+    throw new Error('Only one --input may be without an id (use --input <id>=<path>)');
+  }
+  const ids = inputs.flatMap((input) => (input.id ? [input.id] : []));
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicate) {
+    throw new Error(`Feed id "${duplicate}" is used more than once`);
+  }
+  return inputs;
 }
 
 // Main execution
 async function main() {
   try {
-    const network = preprocessGTFS();
+    const { values } = parseArgs({
+      options: {
+        input: { type: 'string', short: 'i', multiple: true },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+    if (values.help) {
+      console.log(USAGE);
+      return;
+    }
+
+    const projectRoot = path.resolve(__dirname, '..', '..');
+    const inputs = values.input
+      ? parseFeedInputs(values.input)
+      : [{ path: path.join(projectRoot, 'src', 'data', 'gtfs_subway') }];
+
+    const thresholds = readThresholds();
+    const { network, profiles, report } = await preprocessGTFS(inputs);
     
     // Write output files
-    const projectRoot = path.resolve(__dirname, '..', '..');
     const outputDir = path.join(projectRoot, 'src', 'data', 'processed');
     if (!fs.existsSync(outputDir)) {
       fs.mkdirSync(outputDir, { recursive: true });
     }
+
+    // The report is written even when the build fails, so the problems can be inspected
+    const reportPath = path.join(outputDir, 'validation-report.json');
+    fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
+
+    const violations = getThresholdViolations(report, thresholds);
+    if (violations.length > 0) {
+      throw new Error(
+        `GTFS validation failed (see ${reportPath}):\n  ${violations.join('\n  ')}\n` +
+          'Raise a threshold with GTFS_MAX_<CODE> (e.g. GTFS_MAX_UNKNOWN_STOP=10) to build anyway'
+      );
+    }
     
+    // Written compactly: with a timetable the network runs to tens of megabytes, all of it bundled
+    // and copied into the isochrone worker
     fs.writeFileSync(
       path.join(outputDir, 'network.json'),
-      JSON.stringify(network, null, 2)
+      JSON.stringify(network)
     );
     
+    // One file per service profile, loaded on demand by the app
+    const profilesDir = path.join(outputDir, 'profiles');
+    if (!fs.existsSync(profilesDir)) {
+      fs.mkdirSync(profilesDir, { recursive: true });
+    }
+    for (const profileNetwork of profiles) {
+      fs.writeFileSync(
+        path.join(profilesDir, `${profileNetwork.profile.id}.json`),
+        JSON.stringify(profileNetwork)
+      );
+    }
+    
     console.log(`\n✅ Preprocessing complete!`);
     console.log(`   Output: ${path.join(outputDir, 'network.json')}`);
     console.log(`   Stations: ${network.stations.length}`);
     console.log(`   Edges: ${network.edges.length}`);
+    console.log(`   Profiles: ${profilesDir} (${profiles.length} files)`);
+    console.log(`   Validation report: ${reportPath}`);
   } catch (error) {
     console.error('Error preprocessing GTFS data:', error);
     process.exit(1);
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { fillStopTimes, parseGTFSTime } from './stopTimes';
+import type { StopTime } from './stopTimes';
+
+// Four stops due north, the second a quarter of the way and the third three quarters
+const stopCoordinates = new Map<string, [number, number]>([
+  ['A', [-73.98, 40.7]],
+  ['B', [-73.98, 40.71]],
+  ['C', [-73.98, 40.73]],
+  ['D', [-73.98, 40.74]],
+]);
+
+const stop = (stopId: string, sequence: number, time: number | null): StopTime => ({
+  stopId,
+  arrivalTime: time,
+  departureTime: time,
+  sequence,
+  row: sequence + 1,
+});
+
+describe('parseGTFSTime', () => {
+  it('reads times past midnight', () => {
+    expect(parseGTFSTime('08:30:15')).toBe(30615);
+    expect(parseGTFSTime('7:05:00')).toBe(25500);
+    expect(parseGTFSTime('25:10:00')).toBe(90600);
+  });
+
+  it('is null for empty or malformed times', () => {
+    expect(parseGTFSTime('')).toBeNull();
+    expect(parseGTFSTime('  ')).toBeNull();
+    expect(parseGTFSTime('08:30')).toBeNull();
+    expect(parseGTFSTime('08:61:00')).toBeNull();
+    expect(parseGTFSTime('8h30')).toBeNull();
+  });
+});
+
+describe('fillStopTimes', () => {
+  it('interpolates stops between timepoints by distance', () => {
+    const { stops, interpolated, dropped } = fillStopTimes(
+      [stop('A', 1, 0), stop('B', 2, null), stop('C', 3, null), stop('D', 4, 400)],
+      stopCoordinates
+    );
+
+    expect(stops.map((s) => s.arrivalTime)).toEqual([0, 100, 300, 400]);
+    expect(stops.every((s) => s.arrivalTime === s.departureTime)).toBe(true);
+    expect(interpolated).toBe(2);
+    expect(dropped).toBe(0);
+  });
+
+  it('spaces stops without coordinates evenly', () => {
+    const { stops } = fillStopTimes(
+      [stop('X', 1, 0), stop('Y', 2, null), stop('Z', 3, 300)],
+      new Map()
+    );
+
+    expect(stops.map((s) => s.arrivalTime)).toEqual([0, 150, 300]);
+  });
+
+  it('uses one time for both where the other is empty', () => {
+    const { stops, interpolated } = fillStopTimes(
+      [{ ...stop('A', 1, null), departureTime: 60 }, { ...stop('B', 2, null), arrivalTime: 120 }],
+      stopCoordinates
+    );
+
+    expect(stops.map((s) => [s.arrivalTime, s.departureTime])).toEqual([[60, 60], [120, 120]]);
+    expect(interpolated).toBe(0);
+  });
+
+  it('leaves out stops before the first timepoint and after the last', () => {
+    const { stops, interpolated, dropped } = fillStopTimes(
+      [stop('A', 1, null), stop('B', 2, 100), stop('C', 3, 300), stop('D', 4, null)],
+      stopCoordinates
+    );
+
+    expect(stops.map((s) => s.stopId)).toEqual(['B', 'C']);
+    expect(interpolated).toBe(0);
+    expect(dropped).toBe(2);
+  });
+
+  it('leaves out every stop of a trip without times', () => {
+    expect(fillStopTimes([stop('A', 1, null), stop('B', 2, null)], stopCoordinates)).toEqual({
+      stops: [],
+      interpolated: 0,
+      dropped: 2,
+    });
+  });
+});
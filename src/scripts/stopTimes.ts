@@ -0,0 +1,95 @@
+import { calculateDistance } from '../utils/distance.js';
+
+/**
+ * One row of a trip in stop_times.txt, times in seconds after midnight
+ * Times are null where the feed leaves them empty, as it may for stops that aren't timepoints
+ */
+export interface StopTime {
+  stopId: string;
+  arrivalTime: number | null;
+  departureTime: number | null;
+  sequence: number;
+  row: number; // Record number in stop_times.txt
+}
+
+/**
+ * Stop time with both times known
+ */
+export interface TimedStopTime extends StopTime {
+  arrivalTime: number;
+  departureTime: number;
+}
+
+/**
+ * Convert a GTFS time (H:MM:SS, hours may pass 24) to seconds after midnight
+ * @returns Seconds, or null if the time is empty or not a GTFS time
+ */
+export function parseGTFSTime(value: string): number | null {
+  const match = /^(\d{1,3}):([0-5]\d):([0-5]\d)$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [hours, minutes, seconds] = match.slice(1).map(Number);
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+/**
+ * Fill in the times a trip leaves out
+ * A stop with only one of its times uses it for both. Stops with neither get a time between the
+ * timepoints either side, in proportion to the straight-line distance along the stops; stops
+ * before the first timepoint or after the last can't be timed and are left out.
+ * @param stops The trip's stops, sorted by stop_sequence
+ * @param stopCoordinates [lon, lat] of each stop; stops without are spaced evenly
+ * @returns The timed stops, with how many were interpolated and how many left out
+ */
+export function fillStopTimes(
+  stops: StopTime[],
+  stopCoordinates: Map<string, [number, number]>
+): { stops: TimedStopTime[]; interpolated: number; dropped: number } {
+  const times = stops.map((stop) => ({
+    arrivalTime: stop.arrivalTime ?? stop.departureTime,
+    departureTime: stop.departureTime ?? stop.arrivalTime,
+  }));
+
+  // Distance along the trip at each stop, one unit per hop where coordinates are missing
+  const along: number[] = [];
+  stops.forEach((stop, i) => {
+    if (i === 0) {
+      along.push(0);
+      return;
+    }
+    const from = stopCoordinates.get(stops[i - 1].stopId);
+    const to = stopCoordinates.get(stop.stopId);
+    const hop = from && to ? calculateDistance(from[1], from[0], to[1], to[0]) : NaN;
+    along.push(along[i - 1] + (Number.isFinite(hop) ? hop : 1));
+  });
+
+  const timed: TimedStopTime[] = [];
+  let interpolated = 0;
+  let dropped = 0;
+  let previous = -1; // Index of the last timepoint
+
+  for (let i = 0; i < stops.length; i++) {
+    const { arrivalTime, departureTime } = times[i];
+    if (arrivalTime === null || departureTime === null) continue;
+
+    if (previous === -1) {
+      dropped += i;
+    } else {
+      // Time the stops since the last timepoint
+      const startTime = times[previous].departureTime!;
+      const span = along[i] - along[previous];
+      for (let j = previous + 1; j < i; j++) {
+        const share = span > 0 ? (along[j] - along[previous]) / span : (j - previous) / (i - previous);
+        const time = Math.round(startTime + (arrivalTime - startTime) * share);
+        timed.push({ ...stops[j], arrivalTime: time, departureTime: time });
+        interpolated += 1;
+      }
+    }
+    timed.push({ ...stops[i], arrivalTime, departureTime });
+    previous = i;
+  }
+  dropped += previous === -1 ? stops.length : stops.length - 1 - previous;
+
+  return { stops: timed, interpolated, dropped };
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_THRESHOLDS,
+  ISSUE_SEVERITY,
+  addIssue,
+  createValidationReport,
+  getThresholdViolations,
+  readThresholds,
+} from './validation';
+
+describe('addIssue', () => {
+  it('counts issues by code and severity', () => {
+    const report = createValidationReport();
+    addIssue(report, 'unknown_stop', 'stop_times.txt', 'Trip 1 stops at unknown stop X', 12);
+    addIssue(report, 'skipped_edge', 'stop_times.txt', 'Trip 1 takes 4000 s');
+
+    expect(report.counts.unknown_stop).toBe(1);
+    expect(report.counts.skipped_edge).toBe(1);
+    expect(report.counts.invalid_time).toBe(0);
+    expect(report.errorCount).toBe(1);
+    expect(report.warningCount).toBe(1);
+    expect(report.issues).toEqual([
+      { code: 'unknown_stop', severity: 'error', file: 'stop_times.txt', message: 'Trip 1 stops at unknown stop X', row: 12 },
+      { code: 'skipped_edge', severity: 'warning', file: 'stop_times.txt', message: 'Trip 1 takes 4000 s' },
+    ]);
+  });
+
+  it('lists the first 50 issues of each code and counts the rest', () => {
+    const report = createValidationReport();
+    for (let i = 0; i < 60; i++) {
+      addIssue(report, 'skipped_edge', 'stop_times.txt', `Trip ${i}`);
+    }
+    addIssue(report, 'invalid_time', 'stop_times.txt', 'Trip 60');
+
+    expect(report.counts.skipped_edge).toBe(60);
+    expect(report.warningCount).toBe(60);
+    expect(report.issues.filter((issue) => issue.code === 'skipped_edge')).toHaveLength(50);
+    expect(report.issues[report.issues.length - 1].code).toBe('invalid_time');
+  });
+});
+
+describe('readThresholds', () => {
+  it('fails on any error and never on warnings by default', () => {
+    for (const [code, severity] of Object.entries(ISSUE_SEVERITY)) {
+      expect(DEFAULT_THRESHOLDS[code as keyof typeof DEFAULT_THRESHOLDS]).toBe(severity === 'error' ? 0 : Infinity);
+    }
+    expect(readThresholds({})).toEqual(DEFAULT_THRESHOLDS);
+  });
+
+  it('reads GTFS_MAX_<CODE> variables', () => {
+    const thresholds = readThresholds({ GTFS_MAX_NON_MONOTONIC_TIME: '20', GTFS_MAX_SKIPPED_EDGE: '0', GTFS_MAX_SPLIT_TRIP: '' });
+
+    expect(thresholds.non_monotonic_time).toBe(20);
+    expect(thresholds.skipped_edge).toBe(0);
+    expect(thresholds.split_trip).toBe(0);
+  });
+
+  it('rejects values that are not non-negative numbers', () => {
+    expect(() => readThresholds({ GTFS_MAX_UNKNOWN_STOP: 'lots' })).toThrow('GTFS_MAX_UNKNOWN_STOP');
+    expect(() => readThresholds({ GTFS_MAX_UNKNOWN_STOP: '-1' })).toThrow('non-negative');
+  });
+});
+
+describe('getThresholdViolations', () => {
+  it('lists each code over its threshold', () => {
+    const report = createValidationReport();
+    addIssue(report, 'unknown_stop', 'stop_times.txt', 'a');
+    addIssue(report, 'unknown_stop', 'stop_times.txt', 'b');
+    addIssue(report, 'skipped_edge', 'stop_times.txt', 'c');
+
+    expect(getThresholdViolations(report, DEFAULT_THRESHOLDS)).toEqual(['2 unknown_stop issues (at most 0 allowed)']);
+    expect(getThresholdViolations(report, { ...DEFAULT_THRESHOLDS, unknown_stop: 2 })).toEqual([]);
+    expect(getThresholdViolations(report, { ...DEFAULT_THRESHOLDS, skipped_edge: 0 })).toHaveLength(2);
+  });
+});
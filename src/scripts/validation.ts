@@ -0,0 +1,120 @@
+import type {
+  ValidationIssue,
+  ValidationIssueCode,
+  ValidationReport,
+  ValidationSeverity,
+  ValidationThresholds,
+} from '../types/validation.js';
+
+/**
+ * Severity of each issue code
+ */
+export const ISSUE_SEVERITY: Record<ValidationIssueCode, ValidationSeverity> = {
+  malformed_row: 'warning',
+  unknown_stop: 'error',
+  trip_without_route: 'error',
+  non_monotonic_time: 'error',
+  skipped_edge: 'warning',
+  missing_time: 'warning',
+  invalid_time: 'error',
+  split_trip: 'error',
+};
+
+/**
+ * By default any error fails the build and warnings never do
+ */
+export const DEFAULT_THRESHOLDS: ValidationThresholds = {
+  malformed_row: Infinity,
+  unknown_stop: 0,
+  trip_without_route: 0,
+  non_monotonic_time: 0,
+  skipped_edge: Infinity,
+  missing_time: Infinity,
+  invalid_time: 0,
+  split_trip: 0,
+};
+
+/**
+ * Issues listed per code; the rest are only counted
+ */
+const MAX_LISTED_ISSUES_PER_CODE = 50;
+
+/**
+ * Create an empty report
+ */
+export function createValidationReport(): ValidationReport {
+  const counts = Object.fromEntries(
+    Object.keys(ISSUE_SEVERITY).map((code) => [code, 0])
+  ) as Record<ValidationIssueCode, number>;
+
+  return {
+    generatedAt: new Date().toISOString(),
+    counts,
+    errorCount: 0,
+    warningCount: 0,
+    issues: [],
+  };
+}
+
+/**
+ * Record an issue in the report
+ */
+export function addIssue(
+  report: ValidationReport,
+  code: ValidationIssueCode,
+  file: string,
+  message: string,
+  row?: number
+): void {
+  const severity = ISSUE_SEVERITY[code];
+  report.counts[code] += 1;
+  if (severity === 'error') {
+    report.errorCount += 1;
+  } else {
+    report.warningCount += 1;
+  }
+
+  if (report.counts[code] <= MAX_LISTED_ISSUES_PER_CODE) {
+    const issue: ValidationIssue = { code, severity, file, message };
+    if (row !== undefined) {
+      issue.row = row;
+    }
+    report.issues.push(issue);
+  }
+}
+
+/**
+ * Read thresholds from GTFS_MAX_<CODE> environment variables (e.g. GTFS_MAX_UNKNOWN_STOP=10),
+ * falling back to the defaults
+ * @throws Error if a variable is not a non-negative number
+ */
+export function readThresholds(env: NodeJS.ProcessEnv = process.env): ValidationThresholds {
+  const thresholds = { ...DEFAULT_THRESHOLDS };
+
+  for (const code of Object.keys(thresholds) as ValidationIssueCode[]) {
+    const name = `GTFS_MAX_${code.toUpperCase()}`;
+    const value = env[name];
+    if (value === undefined || value === '') continue;
+
+    const threshold = Number(value);
+    if (Number.isNaN(threshold) || threshold < 0) {
+      throw new Error(`${name} must be a non-negative number, got "${value}"`);
+    }
+    thresholds[code] = threshold;
+  }
+
+  return thresholds;
+}
+
+/**
+ * Describe each issue code whose count is over its threshold
+ * @returns One message per exceeded threshold (empty when the build may proceed)
+ */
+export function getThresholdViolations(
+  report: ValidationReport,
+  thresholds: ValidationThresholds
+): string[] {
+  return (Object.keys(report.counts) as ValidationIssueCode[])
+    .filter((code) => report.counts[code] > thresholds[code])
+    .map((code) => `${report.counts[code]} ${code} issues (at most ${thresholds[code]} allowed)`);
+}
@@ -0,0 +1,18 @@
+import type { AlertsFile, ServiceAlert } from '../types/alerts';
+
+// Alerts written by import-alerts.ts, loaded on demand
+// (none are bundled until it has been run)
+const alertsModules = import.meta.glob<{ default: AlertsFile }>('../data/processed/alerts.json');
+
+/**
+ * Load the imported service alerts
+ * @returns The alerts, or none if no alerts file has been imported
+ */
+export async function loadAlerts(): Promise<ServiceAlert[]> {
+  const load = alertsModules['../data/processed/alerts.json'];
+  if (!load) {
+    return [];
+  }
+  const module = await load();
+  return module.default.alerts;
+}
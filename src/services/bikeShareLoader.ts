@@ -0,0 +1,21 @@
+import type { BikeShareStation } from '../types/bikeShare';
+import { parseStationInformation } from '../utils/bikeShare';
+
+// GBFS station_information snapshot saved to src/data/gbfs, loaded on demand
+// (none is bundled; see README.md)
+const stationInformationModules = import.meta.glob<{ default: unknown }>(
+  '../data/gbfs/station_information.json'
+);
+
+/**
+ * Load the bike share docks
+ * @returns The docks, or none if no snapshot has been saved
+ */
+export async function loadBikeShareStations(): Promise<BikeShareStation[]> {
+  const load = stationInformationModules['../data/gbfs/station_information.json'];
+  if (!load) {
+    return [];
+  }
+  const module = await load();
+  return parseStationInformation(module.default);
+}
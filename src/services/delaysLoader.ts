@@ -0,0 +1,18 @@
+import type { DelaysFile } from '../types/delays';
+
+// Delays written by import-trip-updates.ts, loaded on demand
+// (none are bundled until it has been run)
+const delaysModules = import.meta.glob<{ default: DelaysFile }>('../data/processed/delays.json');
+
+/**
+ * Load the imported TripUpdates snapshot
+ * @returns The snapshot, or null if none has been imported
+ */
+export async function loadDelays(): Promise<DelaysFile | null> {
+  const load = delaysModules['../data/processed/delays.json'];
+  if (!load) {
+    return null;
+  }
+  const module = await load();
+  return module.default;
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { ProcessedNetwork } from '../types/network';
+import { createIsochroneService } from './isochroneService';
+
+// jsdom has no Worker, so the service computes on the main thread between yields
+const network: ProcessedNetwork = {
+  stations: [
+    { id: 'A', name: 'A', lat: 40.75, lon: -73.98, accessible: false, routesServed: ['1'] },
+    { id: 'B', name: 'B', lat: 40.77, lon: -73.98, accessible: false, routesServed: ['1'] },
+  ],
+  edges: [{ fromId: 'A', toId: 'B', travelTimeSec: 600, routeId: '1' }],
+};
+
+const office = { latitude: 40.7505, longitude: -73.98, placeName: 'Office' };
+
+describe('createIsochroneService', () => {
+  it('reports each band as it is computed', async () => {
+    const service = createIsochroneService();
+    const onBand = vi.fn();
+
+    await new Promise<void>((resolve) => {
+      service.computeBands(office, network, [15, 30], {}, { onBand, onDone: resolve });
+    });
+
+    expect(onBand).toHaveBeenCalledTimes(2);
+    expect(onBand.mock.calls[0][0]).toBe(15);
+    expect(onBand.mock.calls[0][1].totalStations).toBe(2);
+    expect(onBand.mock.calls[1][0]).toBe(30);
+  });
+
+  it('draws every band from one travel-time grid', async () => {
+    const service = createIsochroneService();
+    const onBand = vi.fn();
+
+    await new Promise<void>((resolve) => {
+      service.computeBands(office, network, [15, 30], {}, { onBand, onDone: resolve });
+    });
+
+    const [[, shortBand], [, longBand]] = onBand.mock.calls;
+    expect(shortBand.grid).toBe(longBand.grid);
+    expect(longBand.grid.maxTravelTimeSec).toBe(30 * 60);
+  });
+
+  it('stops reporting bands after cancel', async () => {
+    const service = createIsochroneService();
+    const onBand = vi.fn();
+    const onDone = vi.fn();
+
+    const request = service.computeBands(office, network, [15, 30, 45], {}, { onBand, onDone });
+    request.cancel();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(onBand).not.toHaveBeenCalled();
+    expect(onDone).not.toHaveBeenCalled();
+  });
+
+  describe('with a worker', () => {
+    // Worker that never answers, so the test decides when it fails
+    const workers: Array<{ onerror: (() => void) | null; terminate: () => void }> = [];
+    class FakeWorker {
+      onmessage = null;
+      onerror: (() => void) | null = null;
+      onmessageerror = null;
+      postMessage = vi.fn();
+      terminate = vi.fn();
+      constructor() {
+        workers.push(this);
+      }
+    }
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      workers.length = 0;
+    });
+
+    it('fails pending requests and falls back to the main thread when the worker fails', async () => {
+      vi.stubGlobal('Worker', FakeWorker);
+      const service = createIsochroneService();
+      const onError = vi.fn();
+      const onDone = vi.fn();
+
+      service.computeBands(office, network, [15, 30], {}, { onBand: vi.fn(), onError, onDone });
+      workers[0].onerror!();
+
+      expect(onError.mock.calls.map(([minutes]) => minutes)).toEqual([15, 30]);
+      expect(onDone).toHaveBeenCalledTimes(1);
+      expect(workers[0].terminate).toHaveBeenCalled();
+
+      const onBand = vi.fn();
+      await new Promise<void>((resolve) => {
+        service.computeBands(office, network, [15], {}, { onBand, onDone: resolve });
+      });
+
+      expect(onBand.mock.calls[0][1].totalStations).toBe(2);
+      expect(workers).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import type { ProcessedNetwork } from '../types/network';
+import type { StreetNetwork } from '../types/streets';
+import type { GeocodeResult } from '../types/geocoding';
+import type {
+  IsochroneOptions,
+  IsochroneResult,
+  TravelTimeGrid,
+  TravelTimeSurface,
+} from '../types/isochrone';
+import type { IsochroneWorkerRequest, IsochroneWorkerResponse } from '../types/isochroneWorker';
+import { createTravelTimeSurface, getIsochroneFromSurface } from '../utils/isochrone';
+
+/**
+ * Callbacks for a running isochrone request
+ */
+export interface IsochroneRequestCallbacks {
+  onBand: (minutes: number, result: IsochroneResult | null) => void; // Called as each band is ready
+  onError?: (minutes: number, error: Error) => void;
+  onDone?: () => void; // Called once all bands were reported (not called after cancel)
+}
+
+/**
+ * Handle to a running isochrone request
+ */
+export interface IsochroneRequest {
+  cancel: () => void;
+}
+
+/**
+ * Isochrone service computing bands in a Web Worker
+ * Each request searches once, for its longest band; every band is a contour of that search's
+ * travel-time grid, so the bands nest and share the grid
+ */
+export interface IsochroneService {
+  computeBands: (
+    officeLocation: GeocodeResult,
+    network: ProcessedNetwork,
+    bandsMinutes: number[],
+    options: IsochroneOptions,
+    callbacks: IsochroneRequestCallbacks
+  ) => IsochroneRequest;
+  terminate: () => void;
+}
+
+/**
+ * Request sent to the worker, with the bands it hasn't reported yet
+ */
+interface PendingRequest {
+  callbacks: IsochroneRequestCallbacks;
+  remainingMinutes: Set<number>;
+}
+
+const toError = (err: unknown) => (err instanceof Error ? err : new Error('Unknown error'));
+
+/**
+ * Compute bands on the main thread, yielding between bands
+ * Used where Web Workers are unavailable (e.g. jsdom in tests)
+ */
+function computeOnMainThread(
+  officeLocation: GeocodeResult,
+  network: ProcessedNetwork,
+  bandsMinutes: number[],
+  options: IsochroneOptions,
+  callbacks: IsochroneRequestCallbacks
+): IsochroneRequest {
+  let cancelled = false;
+
+  (async () => {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    if (cancelled) return;
+
+    let surface: TravelTimeSurface | null = null;
+    let searchError: unknown = null;
+    try {
+      surface = createTravelTimeSurface(
+        officeLocation,
+        network,
+        Math.max(...bandsMinutes) * 60,
+        undefined,
+        undefined,
+        options
+      );
+    } catch (err) {
+      searchError = err;
+    }
+
+    for (const minutes of bandsMinutes) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      if (cancelled) return;
+
+      if (!surface) {
+        callbacks.onError?.(minutes, toError(searchError));
+        continue;
+      }
+      try {
+        callbacks.onBand(minutes, getIsochroneFromSurface(surface, minutes * 60));
+      } catch (err) {
+        callbacks.onError?.(minutes, toError(err));
+      }
+    }
+    if (!cancelled) {
+      callbacks.onDone?.();
+    }
+  })();
+
+  return {
+    cancel: () => {
+      cancelled = true;
+    },
+  };
+}
+
+/**
+ * Create an isochrone service
+ * The worker is started on the first request and receives each network only once
+ * If the worker fails, its pending requests fail and later ones run on the main thread
+ */
+export function createIsochroneService(): IsochroneService {
+  let worker: Worker | null = null;
+  let workerFailed = false;
+  let workerNetwork: ProcessedNetwork | null = null;
+  let workerStreets: StreetNetwork | null = null;
+  let nextRequestId = 1;
+  const pending = new Map<number, PendingRequest>();
+  // Grid of each running request, added back to its bands
+  const grids = new Map<number, TravelTimeGrid>();
+
+  const post = (message: IsochroneWorkerRequest) => {
+    worker!.postMessage(message);
+  };
+
+  const handleMessage = (event: MessageEvent<IsochroneWorkerResponse>) => {
+    const message = event.data;
+    const request = pending.get(message.requestId);
+    if (!request) return; // Cancelled or unknown request
+    const { callbacks, remainingMinutes } = request;
+
+    switch (message.type) {
+      case 'grid':
+        grids.set(message.requestId, message.grid);
+        break;
+      case 'band':
+        remainingMinutes.delete(message.minutes);
+        callbacks.onBand(
+          message.minutes,
+          message.result && { ...message.result, grid: grids.get(message.requestId) }
+        );
+        break;
+      case 'error':
+        remainingMinutes.delete(message.minutes);
+        callbacks.onError?.(message.minutes, new Error(message.message));
+        break;
+      case 'done':
+        pending.delete(message.requestId);
+        grids.delete(message.requestId);
+        callbacks.onDone?.();
+        break;
+    }
+  };
+
+  // The worker failed to load or a message couldn't be read: fail the bands still pending and
+  // drop the worker, so later requests run on the main thread
+  const handleWorkerError = () => {
+    const failed = Array.from(pending.values());
+    worker?.terminate();
+    worker = null;
+    workerFailed = true;
+    workerNetwork = null;
+    workerStreets = null;
+    pending.clear();
+    grids.clear();
+
+    const error = new Error('Isochrone worker failed');
+    for (const { callbacks, remainingMinutes } of failed) {
+      for (const minutes of remainingMinutes) {
+        callbacks.onError?.(minutes, error);
+      }
+      callbacks.onDone?.();
+    }
+  };
+
+  const getWorker = (): Worker | null => {
+    if (typeof Worker === 'undefined' || workerFailed) {
+      return null;
+    }
+    if (!worker) {
+      worker = new Worker(new URL('../workers/isochrone.worker.ts', import.meta.url), {
+        type: 'module',
+      });
+      worker.onmessage = handleMessage;
+      worker.onerror = handleWorkerError;
+      worker.onmessageerror = handleWorkerError;
+    }
+    return worker;
+  };
+
+  return {
+    computeBands(officeLocation, network, bandsMinutes, options, callbacks) {
+      if (!getWorker()) {
+        return computeOnMainThread(officeLocation, network, bandsMinutes, options, callbacks);
+      }
+
+      // Structured cloning the network is expensive, so only send it when it changes
+      if (workerNetwork !== network) {
+        post({ type: 'init', network });
+        workerNetwork = network;
+      }
+      // The street graph too
+      const { streets, ...computeOptions } = options;
+      if (streets && workerStreets !== streets) {
+        post({ type: 'streets', streets });
+        workerStreets = streets;
+      }
+
+      const requestId = nextRequestId++;
+      pending.set(requestId, { callbacks, remainingMinutes: new Set(bandsMinutes) });
+      post({ type: 'compute', requestId, officeLocation, bandsMinutes, options: computeOptions });
+
+      return {
+        cancel: () => {
+          grids.delete(requestId);
+          if (pending.delete(requestId)) {
+            post({ type: 'cancel', requestId });
+          }
+        },
+      };
+    },
+
+    terminate() {
+      worker?.terminate();
+      worker = null;
+      workerNetwork = null;
+      workerStreets = null;
+      pending.clear();
+      grids.clear();
+    },
+  };
+}
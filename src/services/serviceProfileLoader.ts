@@ -0,0 +1,40 @@
+import type { ProfileNetwork, ServiceProfileId } from '../types/serviceProfile';
+import { getServiceProfile } from '../utils/serviceProfiles';
+
+// Profile files written by the preprocessor, loaded on demand
+// (none are bundled until it has been run with stop_times.txt)
+const profileModules = import.meta.glob<{ default: ProfileNetwork }>(
+  '../data/processed/profiles/*.json'
+);
+
+/**
+ * Get the module path of a profile file
+ */
+function getProfilePath(profileId: ServiceProfileId): string {
+  return `../data/processed/profiles/${profileId}.json`;
+}
+
+/**
+ * List the service profiles that have a processed file
+ */
+export function getAvailableProfileIds(): ServiceProfileId[] {
+  return Object.keys(profileModules)
+    .map((path) => path.slice(path.lastIndexOf('/') + 1, -'.json'.length))
+    .map((id) => getServiceProfile(id)?.id)
+    .filter((id): id is ServiceProfileId => id !== undefined);
+}
+
+/**
+ * Load the edges of a service profile
+ * @returns The profile network, or null if the profile has no processed file
+ */
+export async function loadProfileNetwork(
+  profileId: ServiceProfileId
+): Promise<ProfileNetwork | null> {
+  const load = profileModules[getProfilePath(profileId)];
+  if (!load) {
+    return null;
+  }
+  const module = await load();
+  return module.default;
+}
@@ -0,0 +1,18 @@
+import type { StreetsFile } from '../types/streets';
+
+// Street graph written by import-streets.ts, loaded on demand
+// (none is bundled until it has been run)
+const streetsModules = import.meta.glob<{ default: StreetsFile }>('../data/processed/streets.json');
+
+/**
+ * Load the imported street graph
+ * @returns The street graph, or null if none has been imported (walks are then straight lines)
+ */
+export async function loadStreets(): Promise<StreetsFile | null> {
+  const load = streetsModules['../data/processed/streets.json'];
+  if (!load) {
+    return null;
+  }
+  const module = await load();
+  return module.default;
+}
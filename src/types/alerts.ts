@@ -0,0 +1,49 @@
+/**
+ * Time an alert is in effect, in Unix seconds
+ * A missing start or end means the period is open on that side
+ */
+export interface ActivePeriod {
+  start?: number;
+  end?: number;
+}
+
+/**
+ * Part of the network an alert applies to (GTFS-realtime EntitySelector)
+ * A route alone suspends the route, a station alone closes the station, and both together
+ * take the route out of service at that station
+ */
+export interface InformedEntity {
+  routeId?: string; // GTFS route_id
+  stationId?: string; // Station ID (parent station stop_id)
+}
+
+/**
+ * Service alert or planned work, from GTFS-realtime Alerts or a closures file
+ */
+export interface ServiceAlert {
+  id: string;
+  header: string;
+  description?: string;
+  activePeriods: ActivePeriod[]; // Empty means always active
+  informedEntities: InformedEntity[];
+  closesService: boolean; // Whether the router should avoid the entities (GTFS-realtime NO_SERVICE)
+}
+
+/**
+ * Contents of src/data/processed/alerts.json, written by import-alerts.ts
+ */
+export interface AlertsFile {
+  generatedAt: string; // ISO timestamp of the import
+  source: string; // File the alerts were imported from
+  alerts: ServiceAlert[];
+}
+
+/**
+ * Parts of the network closed by the active alerts
+ * Serializable, so it can be passed to the isochrone worker with the other options
+ */
+export interface Closures {
+  stationIds: string[]; // Stations trains run through without stopping
+  edgeKeys: string[]; // Closed edges as `${fromId}|${toId}|${routeId}`
+  routeStops: string[]; // Stops a route runs through without stopping, as `${routeId}|${stationId}`
+}
@@ -0,0 +1,9 @@
+/**
+ * Bike share dock from a GBFS station_information feed
+ */
+export interface BikeShareStation {
+  id: string; // GBFS station_id
+  name: string;
+  lat: number;
+  lon: number;
+}
@@ -0,0 +1,28 @@
+/**
+ * Delay observed on one edge in a GTFS-realtime TripUpdates snapshot
+ */
+export interface EdgeDelay {
+  fromId: string;
+  toId: string;
+  routeId: string;
+  delaySec: number; // Median running time over the scheduled travelTimeSec (negative when early)
+  headwaySec?: number; // Median gap between predicted departures, when the feed gives times
+  tripCount: number; // Trips the delay was measured on
+}
+
+/**
+ * Delays from one TripUpdates snapshot, applied on top of a network's typical times
+ * A snapshot is identified by its timestamp
+ */
+export interface DelaySnapshot {
+  snapshotTime: number; // Feed header timestamp, Unix seconds
+  edges: EdgeDelay[];
+}
+
+/**
+ * Contents of src/data/processed/delays.json, written by import-trip-updates.ts
+ */
+export interface DelaysFile extends DelaySnapshot {
+  generatedAt: string; // ISO timestamp of the import
+  source: string; // File or URL the snapshot was read from
+}
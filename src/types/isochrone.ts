@@ -1,26 +1,172 @@
+import type { GeocodeResult } from './geocoding';
+import type { Closures } from './alerts';
+import type { DelaySnapshot } from './delays';
+import type { TransitMode } from './network';
+import type { BikeShareStation } from './bikeShare';
+import type { StreetNetwork } from './streets';
+
+/**
+ * How to get between the office and stations
+ * walk: on foot only
+ * bikeShare: a shared bike between docks near each end, or on foot
+ * bike: your own bike, or on foot
+ */
+export type AccessMode = 'walk' | 'bikeShare' | 'bike';
+
+/**
+ * One leg of the journey between the office and a station
+ */
+export type ItineraryLeg =
+  | {
+      type: 'walk'; // Walk between the office and a station, or between nearby stations
+      fromStationId: string | null; // null = the office
+      toStationId: string | null; // null = the office
+      durationSec: number;
+      accessMode?: AccessMode; // Bike used between the office and a station (absent: on foot)
+    }
+  | {
+      type: 'ride';
+      routeId: string;
+      fromStationId: string;
+      toStationId: string;
+      stationIds: string[]; // Stations passed, including both ends
+      stopCount: number; // Number of stops ridden
+      waitSec: number; // Expected or scheduled wait before boarding
+      durationSec: number; // Time on the train
+    }
+  | {
+      type: 'transfer'; // Change platforms or walk to a connected station
+      fromStationId: string;
+      toStationId: string;
+      durationSec: number;
+    };
+
+/**
+ * Directions between the office and a reachable station, in travel order
+ */
+export interface Itinerary {
+  legs: ItineraryLeg[];
+  totalTimeSec: number;
+}
+
 /**
  * Station that can be reached within the time limit
  */
 export interface ReachableStation {
   stationId: string;
-  travelTimeSec: number; // Total time from office to this station
+  travelTimeSec: number; // Total time between office and this station
+  waitTimeSec: number; // Part of travelTimeSec spent waiting on platforms
+  transfers: number; // Number of route changes on the fastest path
+  itinerary: Itinerary; // How the fastest path gets there
+}
+
+/**
+ * Travel times on a regular grid of points around the office
+ * Each point holds the quickest time over the office and every reached station, plus the walk
+ * from there; points no walk reaches hold null
+ */
+export interface TravelTimeGrid {
+  west: number; // Longitude of the first column
+  south: number; // Latitude of the first row
+  lonStep: number; // Degrees between columns
+  latStep: number; // Degrees between rows
+  columns: number;
+  rows: number;
+  timesSec: Array<number | null>; // Row by row, from the south-west corner
+  maxTravelTimeSec: number; // Time limit of the search the grid was built from
 }
 
 /**
  * Result of isochrone calculation
  */
 export interface IsochroneResult {
-  polygon: GeoJSON.Feature<GeoJSON.Polygon>;
+  polygon: GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.MultiPolygon>; // Contour of the grid at the time limit
   reachableStations: ReachableStation[];
   totalStations: number;
+  grid?: TravelTimeGrid; // Shared by the bands of one request, which may search further
+}
+
+/**
+ * Stations reached in one search and the travel-time grid around them, from which the
+ * isochrones of every time limit up to the search's are drawn
+ */
+export interface TravelTimeSurface {
+  reachableStations: ReachableStation[];
+  grid: TravelTimeGrid;
 }
 
 /**
  * Start station for routing algorithm
- * Includes the station ID and remaining time after walking to it
+ * Includes the station ID and the walking time between it and the office
  */
 export interface StartStation {
   stationId: string;
-  remainingTimeSec: number; // Time available for subway travel after walking
+  walkingTimeSec: number; // Time to/from office on foot or by bike, used to seed the search
 }
 
+
+/**
+ * Departure moment for schedule-aware routing
+ * Interpreted in the feed's local time (America/New_York)
+ */
+export interface DepartureTime {
+  date: string; // YYYY-MM-DD
+  timeSec: number; // Seconds after midnight
+}
+
+/**
+ * Which way the commute goes
+ * fromOffice: where can I get to from the office
+ * toOffice: where can I live and still reach the office
+ */
+export type TravelDirection = 'fromOffice' | 'toOffice';
+
+/**
+ * Optional settings for isochrone calculation
+ */
+export interface IsochroneOptions {
+  departureTime?: DepartureTime; // "Leave at" time; uses the timetable when the network has one (fromOffice only)
+  direction?: TravelDirection; // Default: fromOffice
+  waitFactor?: number; // Expected wait as a fraction of the headway (default: DEFAULT_WAIT_FACTOR)
+  accessibleOnly?: boolean; // Only board, alight and transfer at accessible stations
+  walkingTransferMiles?: number; // Max straight-line walk between stations (default: DEFAULT_WALKING_TRANSFER_MILES, 0 disables)
+  closures?: Closures; // Stations, edges and route stops closed by service alerts
+  delays?: DelaySnapshot; // Realtime delays to replay instead of the timetable
+  modes?: TransitMode[]; // Modes the router may use (default: all)
+  accessMode?: AccessMode; // How to get between the office and stations, and from them to the areas around (default: walk)
+  bikeShareStations?: BikeShareStation[]; // Docks for the bikeShare access mode
+  streets?: StreetNetwork; // Street graph for walks; straight lines without it
+}
+
+/**
+ * An office with its own commute time budget
+ */
+export interface OfficeCommute {
+  location: GeocodeResult;
+  travelTimeMinutes: number;
+}
+
+/**
+ * How to compare commutes when several people share a home
+ * max: the longest of the commutes
+ * difference: longest minus shortest commute
+ */
+export type FairnessMetric = 'max' | 'difference';
+
+/**
+ * Station reachable within every office's budget
+ */
+export interface SharedStation {
+  stationId: string;
+  travelTimesSec: number[]; // Commute time per office, in office order
+  maxTimeSec: number;
+  differenceSec: number;
+}
+
+/**
+ * Combined result for several offices
+ */
+export interface MultiOfficeResult {
+  polygon: GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.MultiPolygon>; // Area inside every isochrone
+  sharedStations: SharedStation[];
+}
@@ -0,0 +1,28 @@
+import type { ProcessedNetwork } from './network';
+import type { StreetNetwork } from './streets';
+import type { GeocodeResult } from './geocoding';
+import type { IsochroneOptions, IsochroneResult, TravelTimeGrid } from './isochrone';
+
+/**
+ * Messages sent from the main thread to the isochrone worker
+ */
+export type IsochroneWorkerRequest =
+  | { type: 'init'; network: ProcessedNetwork } // Load the network (sent once per network)
+  | { type: 'streets'; streets: StreetNetwork } // Load the street graph, used by later requests
+  | {
+      type: 'compute';
+      requestId: number;
+      officeLocation: GeocodeResult;
+      bandsMinutes: number[]; // Travel time bands to compute, in order; one search covers them all
+      options: IsochroneOptions; // Without streets, which are sent on their own
+    }
+  | { type: 'cancel'; requestId: number };
+
+/**
+ * Messages sent from the isochrone worker back to the main thread
+ */
+export type IsochroneWorkerResponse =
+  | { type: 'grid'; requestId: number; grid: TravelTimeGrid } // Sent once, before the bands
+  | { type: 'band'; requestId: number; minutes: number; result: IsochroneResult | null } // Without the grid
+  | { type: 'done'; requestId: number }
+  | { type: 'error'; requestId: number; minutes: number; message: string };
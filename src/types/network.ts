@@ -1,32 +1,138 @@
+import type { ServiceProfile } from './serviceProfile';
+
+/**
+ * Kind of vehicle a route runs, from GTFS route_type
+ */
+export type TransitMode = 'subway' | 'rail' | 'bus' | 'ferry' | 'tram';
+
 /**
  * Station represents a subway station (parent station from GTFS)
- * IDs are stable and tied to GTFS stop_id for traceability
+ * IDs are stable and tied to GTFS stop_id for traceability; stations from feeds merged under a
+ * feed ID are prefixed with it (e.g. "path:26733")
  */
 export interface Station {
-  id: string; // GTFS stop_id of parent station (location_type=1)
+  id: string; // GTFS stop_id of parent station (location_type=1), or of a stop without one
   name: string; // stop_name
   lat: number; // stop_lat
   lon: number; // stop_lon
-  accessible: boolean; // wheelchair accessibility (defaults to false if not in GTFS)
-  routesServed: string[]; // route_short_name values (e.g., ["1", "2", "3"])
+  accessible: boolean; // wheelchair_boarding or the ADA station list (false if neither is available)
+  routesServed: string[]; // route_short_name values (e.g., ["1", "2", "3"]), or route_long_name without one
+  mode?: TransitMode; // Mode of the routes served (absent in older builds: subway)
+  agencyId?: string; // GTFS agency_id of the routes served (absent in older builds)
+}
+
+/**
+ * Route of a feed, for labels and colors
+ */
+export interface Route {
+  id: string; // route_id from GTFS (prefixed like station IDs)
+  name: string; // route_short_name, or route_long_name without one
+  color?: string; // route_color as #RRGGBB (absent when the feed has none)
+  mode: TransitMode;
+  agencyId: string; // GTFS agency_id (prefixed like station IDs)
 }
 
+/**
+ * Kind of edge
+ * ride: in-train travel between consecutive stops
+ * walk: walking on the street between nearby stations (out-of-system transfer)
+ */
+export type EdgeKind = 'ride' | 'walk';
+
 /**
  * Edge represents travel time between two stations
- * Derived from consecutive stop_times on trips
+ * Ride edges are derived from consecutive stop_times on trips;
+ * walk edges are generated between nearby stations when building the graph
  */
 export interface Edge {
   fromId: string; // Station ID (parent station stop_id)
   toId: string; // Station ID (parent station stop_id)
-  travelTimeSec: number; // Median travel time in seconds
+  travelTimeSec: number; // Median travel time in seconds (walking time for walk edges)
+  routeId: string; // route_id from GTFS (empty for walk edges)
+  kind?: EdgeKind; // Default: ride
+  headwaySec?: number; // Median time between trains boarding this edge (absent for walk edges and older builds)
+  shape?: [number, number][]; // Track polyline [lon, lat] from shapes.txt (absent without shapes)
+  mode?: TransitMode; // Mode of the route (absent for walk edges and older builds: subway)
+  agencyId?: string; // GTFS agency_id of the route (absent for walk edges and older builds)
+}
+
+/**
+ * Transfer between two stations, or between platforms of one station
+ * Derived from transfers.txt
+ */
+export interface Transfer {
+  fromId: string; // Station ID (parent station stop_id)
+  toId: string; // Station ID (same as fromId for in-station transfers)
+  minTransferTimeSec: number; // min_transfer_time from GTFS
+}
+
+/**
+ * Service calendar for a GTFS service_id
+ * Combines calendar.txt with the exceptions in calendar_dates.txt
+ */
+export interface ServiceCalendar {
+  serviceId: string; // GTFS service_id (e.g., "Weekday")
+  days: boolean[]; // Whether service runs, indexed by day of week (0 = Sunday)
+  startDate: string; // YYYYMMDD, first day of service
+  endDate: string; // YYYYMMDD, last day of service
+  addedDates: string[]; // YYYYMMDD dates with service added (exception_type=1)
+  removedDates: string[]; // YYYYMMDD dates with service removed (exception_type=2)
+}
+
+/**
+ * A single scheduled trip within a trip pattern
+ * Times are seconds after midnight of the service day and may exceed 24h
+ */
+export interface TimetableTrip {
+  serviceId: string; // GTFS service_id
+  departures: number[]; // Departure time at each station of the pattern
+  arrivals?: number[]; // Arrival time at each station (omitted when equal to departures)
+}
+
+/**
+ * Trips of one route that serve the same sequence of stations
+ * Trips are sorted by departure time at the first station
+ */
+export interface TripPattern {
+  id: string; // `${routeId}-${index}`
   routeId: string; // route_id from GTFS
+  stationIds: string[]; // Station IDs (parent station stop_id) in stop order
+  trips: TimetableTrip[];
 }
 
+/**
+ * Compact timetable derived from stop_times.txt, trips.txt and the calendars
+ */
+export interface Timetable {
+  services: ServiceCalendar[];
+  patterns: TripPattern[];
+}
+
+/**
+ * Where a processed network came from
+ */
+export interface FeedInfo {
+  startDate: string; // YYYYMMDD, first day with service in the feed's calendar
+  endDate: string; // YYYYMMDD, last day with service in the feed's calendar
+  sourceHash: string; // SHA-256 of the GTFS zip, or of the .txt files of a directory (of the feeds' hashes when merged)
+  generatedAt: string; // ISO timestamp of the preprocessing run
+}
+
+/**
+ * Whether a date falls before, within or after a feed's service window
+ */
+export type FeedValidity = 'notYetValid' | 'valid' | 'expired';
+
 /**
  * Processed network data ready for frontend consumption
  */
 export interface ProcessedNetwork {
   stations: Station[];
   edges: Edge[];
+  transfers?: Transfer[]; // Transfers from transfers.txt (absent in older builds)
+  timetable?: Timetable; // Scheduled trips for time-of-day routing (absent in older builds)
+  profile?: ServiceProfile; // Set when edges are limited to one service profile (see useNetworkData)
+  feed?: FeedInfo; // Source feeds, combined when several are merged (absent in older builds)
+  routes?: Route[]; // Routes of all feeds (absent in older builds)
 }
 
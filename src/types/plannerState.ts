@@ -0,0 +1,40 @@
+import type { GeocodeResult } from './geocoding';
+import type { TransitMode } from './network';
+import type { ServiceProfileId } from './serviceProfile';
+import type {
+  AccessMode,
+  FairnessMetric,
+  OfficeCommute,
+  TravelDirection,
+} from './isochrone';
+
+/**
+ * Center and zoom of the map
+ */
+export interface MapViewport {
+  latitude: number;
+  longitude: number;
+  zoom: number;
+}
+
+/**
+ * Everything needed to restore a view of the planner, as kept in its URL
+ */
+export interface PlannerState {
+  office: GeocodeResult | null;
+  travelTimeMinutes: number;
+  viewport: MapViewport;
+  direction: TravelDirection;
+  departureInput: string; // "Leave at" as YYYY-MM-DDTHH:mm, or '' for typical times
+  accessibleOnly: boolean;
+  waitFactor: number;
+  profileId: ServiceProfileId | null; // null: all-day edges
+  hiddenModes: TransitMode[];
+  accessMode: AccessMode;
+  replayDelays: boolean;
+  bandMinutes: number;
+  showHeatmap: boolean;
+  additionalOffices: OfficeCommute[];
+  fairnessMetric: FairnessMetric;
+  selectedStationId: string | null;
+}
@@ -0,0 +1,34 @@
+import type { Edge } from './network';
+
+/**
+ * Kind of service day, from the days a GTFS service runs on
+ */
+export type DayType = 'weekday' | 'saturday' | 'sunday';
+
+/**
+ * Part of the service day with broadly similar service
+ */
+export type TimeBand = 'amPeak' | 'midday' | 'pmPeak' | 'evening' | 'lateNight';
+
+/**
+ * Identifier of a service profile (e.g., "weekday-amPeak")
+ */
+export type ServiceProfileId = `${DayType}-${TimeBand}`;
+
+/**
+ * Service running on one day type during one time band
+ */
+export interface ServiceProfile {
+  id: ServiceProfileId;
+  dayType: DayType;
+  timeBand: TimeBand;
+}
+
+/**
+ * Contents of a profile file (src/data/processed/profiles/<id>.json)
+ * Only the edges differ between profiles; stations, transfers and timetable come from network.json
+ */
+export interface ProfileNetwork {
+  profile: ServiceProfile;
+  edges: Edge[]; // Edges with at least one trip in the profile, with median times for it
+}
@@ -0,0 +1,17 @@
+/**
+ * Pedestrian street graph built from an OpenStreetMap extract by import-streets.ts
+ * Nodes are intersections and dead ends; edges are the street segments between them and can be
+ * walked both ways
+ */
+export interface StreetNetwork {
+  nodes: Array<[number, number]>; // [lon, lat]
+  edges: Array<[number, number, number]>; // [from node index, to node index, length in meters]
+}
+
+/**
+ * Street graph written by import-streets.ts
+ */
+export interface StreetsFile extends StreetNetwork {
+  generatedAt: string; // ISO timestamp
+  source: string; // File name of the extract
+}
@@ -0,0 +1,45 @@
+/**
+ * Kind of problem found while preprocessing a GTFS feed
+ */
+export type ValidationIssueCode =
+  | 'malformed_row' // Row with a different number of fields than the header
+  | 'unknown_stop' // stop_times.txt refers to a stop missing from stops.txt
+  | 'trip_without_route' // Trip missing from trips.txt, or whose route is missing from routes.txt
+  | 'non_monotonic_time' // Time going backwards along a trip
+  | 'skipped_edge' // Hop between consecutive stops left out of the network
+  | 'missing_time' // Stops without times, interpolated between timepoints or left out
+  | 'invalid_time' // Time that isn't H:MM:SS, read as missing
+  | 'split_trip'; // Trip whose stop_times rows aren't all together
+
+/**
+ * Errors count towards failing the build; warnings are only reported
+ */
+export type ValidationSeverity = 'error' | 'warning';
+
+/**
+ * One problem found in the feed
+ */
+export interface ValidationIssue {
+  code: ValidationIssueCode;
+  severity: ValidationSeverity;
+  file: string; // GTFS file name (e.g. stop_times.txt)
+  row?: number; // Record number in the file, counting the header as 1
+  message: string;
+}
+
+/**
+ * Contents of src/data/processed/validation-report.json
+ * Every issue is counted, but only the first few of each code are listed
+ */
+export interface ValidationReport {
+  generatedAt: string; // ISO timestamp
+  counts: Record<ValidationIssueCode, number>;
+  errorCount: number;
+  warningCount: number;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Most issues of each code allowed before the build fails
+ */
+export type ValidationThresholds = Record<ValidationIssueCode, number>;
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import type { BikeShareStation } from '../types/bikeShare';
+import type { Station } from '../types/network';
+import { ACCESS_MODES, findAccessStations } from './access';
+
+const office = { lat: 40.75, lon: -73.98 };
+
+const station = (id: string, lat: number, lon: number): Station => ({
+  id,
+  name: id,
+  lat,
+  lon,
+  accessible: false,
+  routesServed: [],
+});
+
+// Near is a short walk away; Far (1.4 miles north) has a dock next to it, East (1.6 miles) none
+const stations = [
+  station('Near', 40.753, -73.98),
+  station('Far', 40.77, -73.98),
+  station('East', 40.75, -73.95),
+];
+
+const docks: BikeShareStation[] = [
+  { id: 'office-dock', name: 'Office dock', lat: 40.7505, lon: -73.98 },
+  { id: 'far-dock', name: 'Far dock', lat: 40.7695, lon: -73.98 },
+];
+
+const accessModesById = (results: ReturnType<typeof findAccessStations>) =>
+  Object.fromEntries(results.map(({ station, accessMode }) => [station.id, accessMode]));
+
+describe('findAccessStations', () => {
+  it('only walks by default', () => {
+    const results = findAccessStations(office.lat, office.lon, stations, 'walk');
+
+    expect(accessModesById(results)).toEqual({ Near: 'walk' });
+  });
+
+  it('cycles to stations beyond walking distance', () => {
+    const results = findAccessStations(office.lat, office.lon, stations, 'bike');
+
+    expect(Object.keys(accessModesById(results)).sort()).toEqual(['East', 'Far', 'Near']);
+    const far = results.find((result) => result.station.id === 'Far')!;
+    expect(far.accessMode).toBe('bike');
+    expect(far.accessTimeSec).toBeGreaterThan(ACCESS_MODES.bike.overheadSec);
+    expect(far.accessTimeSec).toBeLessThan(10 * 60);
+  });
+
+  it('only takes a shared bike with a dock near both ends', () => {
+    const results = findAccessStations(office.lat, office.lon, stations, 'bikeShare', {
+      bikeShareStations: docks,
+    });
+
+    expect(accessModesById(results)).toEqual({ Near: 'walk', Far: 'bikeShare' });
+  });
+
+  it('walks when no dock is near the office', () => {
+    const results = findAccessStations(office.lat, office.lon, stations, 'bikeShare', {
+      bikeShareStations: docks.filter((dock) => dock.id !== 'office-dock'),
+    });
+
+    expect(accessModesById(results)).toEqual({ Near: 'walk' });
+  });
+
+  it('lists the quickest stations first', () => {
+    const results = findAccessStations(office.lat, office.lon, stations, 'bike');
+    const times = results.map((result) => result.accessTimeSec);
+
+    expect(times).toEqual([...times].sort((a, b) => a - b));
+  });
+});
@@ -0,0 +1,170 @@
+import type { Station } from '../types/network';
+import type { AccessMode } from '../types/isochrone';
+import type { BikeShareStation } from '../types/bikeShare';
+import type { StreetNetwork } from '../types/streets';
+import {
+  calculateDistance,
+  calculateWalkingTime,
+  findNearestStations,
+  DEFAULT_MAX_WALK_DISTANCE_MILES,
+  WALKING_SPEED_MPH,
+} from './distance';
+import { findStreetWalkStations } from './streetGraph';
+
+/**
+ * How an access mode gets between the office and stations
+ */
+export interface AccessModeSettings {
+  label: string;
+  legLabel: string; // Verb in directions, e.g. "Cycle to 14 St"
+  speedMph: number;
+  maxDistanceMiles: number; // Longest trip between the office and a station
+  overheadSec: number; // Unlocking and docking or locking the bike
+}
+
+export const ACCESS_MODES: Record<AccessMode, AccessModeSettings> = {
+  walk: {
+    label: 'Walk',
+    legLabel: 'Walk',
+    speedMph: WALKING_SPEED_MPH,
+    maxDistanceMiles: DEFAULT_MAX_WALK_DISTANCE_MILES,
+    overheadSec: 0,
+  },
+  bikeShare: { label: 'Citi Bike', legLabel: 'Ride a Citi Bike', speedMph: 8, maxDistanceMiles: 2, overheadSec: 120 },
+  bike: { label: 'Own bike', legLabel: 'Cycle', speedMph: 10, maxDistanceMiles: 3, overheadSec: 60 },
+};
+
+/**
+ * Longest walk between a bike share dock and the office or a station in miles
+ */
+export const BIKE_SHARE_DOCK_WALK_MILES = 0.25;
+
+/**
+ * Quickest way between the office and a station
+ */
+export interface AccessStation {
+  station: Station;
+  accessTimeSec: number;
+  accessMode: AccessMode;
+}
+
+/**
+ * Settings for finding access stations
+ */
+export interface AccessOptions {
+  maxWalkDistanceMiles?: number; // Longest walk between the point and a station (default: 0.5 miles)
+  accessibleOnly?: boolean; // Only include wheelchair-accessible stations
+  bikeShareStations?: BikeShareStation[]; // Docks, needed for bikeShare
+  streets?: StreetNetwork; // Walks follow the streets when given, else straight lines
+}
+
+/**
+ * Find stations reachable by shared bike: walk to a dock near the point, ride to a dock near
+ * the station and walk the rest
+ */
+function findBikeShareStations(
+  lat: number,
+  lon: number,
+  stations: Station[],
+  docks: BikeShareStation[],
+  accessibleOnly: boolean
+): AccessStation[] {
+  const { speedMph, maxDistanceMiles, overheadSec } = ACCESS_MODES.bikeShare;
+  const startDocks = docks
+    .map((dock) => ({ dock, distanceMiles: calculateDistance(lat, lon, dock.lat, dock.lon) }))
+    .filter(({ distanceMiles }) => distanceMiles <= BIKE_SHARE_DOCK_WALK_MILES);
+  if (startDocks.length === 0) {
+    return [];
+  }
+
+  // Quickest time from the point to each dock a ride can end at
+  const dockTimes = new Map<BikeShareStation, number>();
+  for (const dock of docks) {
+    for (const start of startDocks) {
+      const rideMiles = calculateDistance(start.dock.lat, start.dock.lon, dock.lat, dock.lon);
+      if (rideMiles > maxDistanceMiles) continue;
+      const timeSec =
+        calculateWalkingTime(start.distanceMiles) +
+        calculateWalkingTime(rideMiles, speedMph) +
+        overheadSec;
+      dockTimes.set(dock, Math.min(timeSec, dockTimes.get(dock) ?? Infinity));
+    }
+  }
+
+  const results: AccessStation[] = [];
+  const reachMiles = BIKE_SHARE_DOCK_WALK_MILES + maxDistanceMiles + BIKE_SHARE_DOCK_WALK_MILES;
+  for (const { station } of findNearestStations(lat, lon, stations, reachMiles, accessibleOnly)) {
+    let accessTimeSec = Infinity;
+    for (const [dock, dockTimeSec] of dockTimes) {
+      const walkMiles = calculateDistance(dock.lat, dock.lon, station.lat, station.lon);
+      if (walkMiles <= BIKE_SHARE_DOCK_WALK_MILES) {
+        accessTimeSec = Math.min(accessTimeSec, dockTimeSec + calculateWalkingTime(walkMiles));
+      }
+    }
+    if (accessTimeSec < Infinity) {
+      results.push({ station, accessTimeSec, accessMode: 'bikeShare' });
+    }
+  }
+  return results;
+}
+
+/**
+ * Find the stations that can be reached from a point (or can reach it) with an access mode
+ * Walking is always allowed; a bike is used where it's quicker. Shared bikes need a dock within
+ * walking distance of both the point and the station. Walks between the point and stations follow
+ * the streets when a street network is given; bike rides and walks to docks are straight lines
+ * @param lat Latitude of the point (the office)
+ * @param lon Longitude of the point
+ * @param accessMode How to get between the point and stations
+ * @returns The quickest way to each station, quickest first
+ */
+export function findAccessStations(
+  lat: number,
+  lon: number,
+  stations: Station[],
+  accessMode: AccessMode,
+  options: AccessOptions = {}
+): AccessStation[] {
+  const {
+    maxWalkDistanceMiles = DEFAULT_MAX_WALK_DISTANCE_MILES,
+    accessibleOnly = false,
+    bikeShareStations = [],
+    streets,
+  } = options;
+
+  const best = new Map<string, AccessStation>();
+  const offer = (access: AccessStation) => {
+    const existing = best.get(access.station.id);
+    if (!existing || access.accessTimeSec < existing.accessTimeSec) {
+      best.set(access.station.id, access);
+    }
+  };
+
+  const walks = streets
+    ? findStreetWalkStations(streets, lat, lon, stations, maxWalkDistanceMiles, accessibleOnly)
+    : findNearestStations(lat, lon, stations, maxWalkDistanceMiles, accessibleOnly);
+  for (const { station, walkingTimeSec } of walks) {
+    offer({ station, accessTimeSec: walkingTimeSec, accessMode: 'walk' });
+  }
+
+  if (accessMode === 'bike') {
+    const { speedMph, maxDistanceMiles, overheadSec } = ACCESS_MODES.bike;
+    for (const { station, distanceMiles } of findNearestStations(
+      lat,
+      lon,
+      stations,
+      maxDistanceMiles,
+      accessibleOnly
+    )) {
+      offer({
+        station,
+        accessTimeSec: calculateWalkingTime(distanceMiles, speedMph) + overheadSec,
+        accessMode: 'bike',
+      });
+    }
+  } else if (accessMode === 'bikeShare') {
+    findBikeShareStations(lat, lon, stations, bikeShareStations, accessibleOnly).forEach(offer);
+  }
+
+  return Array.from(best.values()).sort((a, b) => a.accessTimeSec - b.accessTimeSec);
+}
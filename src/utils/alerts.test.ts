@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import type { ServiceAlert } from '../types/alerts';
+import type { ProcessedNetwork } from '../types/network';
+import { applyClosures, getActiveAlerts, getClosures, isAlertActive } from './alerts';
+
+// The 1 runs A -> B -> C; the 2 runs A -> C
+const network: ProcessedNetwork = {
+  stations: [
+    { id: 'A', name: 'A', lat: 40.75, lon: -73.98, accessible: false, routesServed: ['1', '2'] },
+    { id: 'B', name: 'B', lat: 40.76, lon: -73.98, accessible: false, routesServed: ['1'] },
+    { id: 'C', name: 'C', lat: 40.77, lon: -73.98, accessible: false, routesServed: ['1', '2'] },
+  ],
+  edges: [
+    { fromId: 'A', toId: 'B', travelTimeSec: 120, routeId: '1' },
+    { fromId: 'B', toId: 'C', travelTimeSec: 120, routeId: '1' },
+    { fromId: 'A', toId: 'C', travelTimeSec: 180, routeId: '2' },
+  ],
+  timetable: {
+    services: [],
+    patterns: [
+      {
+        id: 'p1',
+        routeId: '1',
+        stationIds: ['A', 'B', 'C'],
+        trips: [{ serviceId: 'weekday', departures: [0, 120, 240] }],
+      },
+    ],
+  },
+};
+
+const makeAlert = (overrides: Partial<ServiceAlert>): ServiceAlert => ({
+  id: 'alert',
+  header: 'Alert',
+  activePeriods: [],
+  informedEntities: [],
+  closesService: true,
+  ...overrides,
+});
+
+describe('isAlertActive', () => {
+  it('is active within one of its periods', () => {
+    const alert = makeAlert({ activePeriods: [{ start: 100, end: 200 }, { start: 500 }] });
+
+    expect(isAlertActive(alert, 150)).toBe(true);
+    expect(isAlertActive(alert, 200)).toBe(false);
+    expect(isAlertActive(alert, 1000)).toBe(true);
+  });
+
+  it('is always active without periods', () => {
+    expect(getActiveAlerts([makeAlert({})], 0)).toHaveLength(1);
+  });
+});
+
+describe('getClosures', () => {
+  it('closes every edge of a suspended route', () => {
+    const closures = getClosures([makeAlert({ informedEntities: [{ routeId: '1' }] })], network);
+
+    expect(closures).toEqual({ stationIds: [], edgeKeys: ['A|B|1', 'B|C|1'], routeStops: [] });
+  });
+
+  it('skips the given station on a route without closing its edges', () => {
+    const closures = getClosures(
+      [makeAlert({ informedEntities: [{ routeId: '1', stationId: 'B' }] })],
+      network
+    );
+
+    expect(closures).toEqual({ stationIds: [], edgeKeys: [], routeStops: ['1|B'] });
+  });
+
+  it('closes stations named without a route', () => {
+    const closures = getClosures([makeAlert({ informedEntities: [{ stationId: 'B' }] })], network);
+
+    expect(closures).toEqual({ stationIds: ['B'], edgeKeys: [], routeStops: [] });
+  });
+
+  it('ignores alerts that do not close service', () => {
+    const closures = getClosures(
+      [makeAlert({ informedEntities: [{ routeId: '1' }], closesService: false })],
+      network
+    );
+
+    expect(closures.edgeKeys).toEqual([]);
+  });
+});
+
+describe('applyClosures', () => {
+  it('removes closed edges and splits trips at them', () => {
+    const closed = applyClosures(network, { stationIds: [], edgeKeys: ['B|C|1'], routeStops: [] });
+
+    expect(closed.edges.map((edge) => `${edge.fromId}${edge.toId}`)).toEqual(['AB', 'AC']);
+    expect(closed.timetable?.patterns).toEqual([
+      {
+        id: 'p1-0',
+        routeId: '1',
+        stationIds: ['A', 'B'],
+        trips: [{ serviceId: 'weekday', departures: [0, 120] }],
+      },
+    ]);
+  });
+
+  it('reuses the closed network for the same closures', () => {
+    const closures = { stationIds: [], edgeKeys: ['A|B|1'], routeStops: [] };
+
+    expect(applyClosures(network, closures)).toBe(applyClosures(network, { ...closures }));
+    expect(applyClosures(network, { stationIds: ['B'], edgeKeys: [], routeStops: ['1|B'] })).toBe(network);
+  });
+});
@@ -0,0 +1,147 @@
+import type { Closures, ServiceAlert } from '../types/alerts';
+import type { Edge, ProcessedNetwork, TripPattern } from '../types/network';
+
+/**
+ * Key identifying an edge in closures
+ */
+export function getEdgeKey(edge: Pick<Edge, 'fromId' | 'toId' | 'routeId'>): string {
+  return `${edge.fromId}|${edge.toId}|${edge.routeId}`;
+}
+
+/**
+ * Check whether an alert is in effect at a given time
+ * @param timeSec Unix time in seconds
+ */
+export function isAlertActive(alert: ServiceAlert, timeSec: number): boolean {
+  if (alert.activePeriods.length === 0) {
+    return true;
+  }
+  return alert.activePeriods.some(
+    (period) =>
+      (period.start === undefined || period.start <= timeSec) &&
+      (period.end === undefined || timeSec < period.end)
+  );
+}
+
+/**
+ * Get the alerts in effect at a given time
+ * @param timeSec Unix time in seconds
+ */
+export function getActiveAlerts(alerts: ServiceAlert[], timeSec: number): ServiceAlert[] {
+  return alerts.filter((alert) => isAlertActive(alert, timeSec));
+}
+
+/**
+ * Map alerts to the stations, edges and route stops they close
+ * A route alone closes all of its edges, a station alone closes the station, and a route with
+ * a station makes the route's trains run through the station without stopping. Alerts that
+ * don't close service are ignored.
+ * @param alerts Alerts to apply, usually the active ones
+ * @param network Network whose edges are matched
+ */
+export function getClosures(alerts: ServiceAlert[], network: ProcessedNetwork): Closures {
+  const closedStationIds = new Set<string>();
+  const closedRouteIds = new Set<string>();
+  const closedRouteStops = new Set<string>(); // `${routeId}|${stationId}`
+
+  for (const alert of alerts) {
+    if (!alert.closesService) continue;
+    for (const { routeId, stationId } of alert.informedEntities) {
+      if (routeId && stationId) {
+        closedRouteStops.add(`${routeId}|${stationId}`);
+      } else if (routeId) {
+        closedRouteIds.add(routeId);
+      } else if (stationId) {
+        closedStationIds.add(stationId);
+      }
+    }
+  }
+
+  const edgeKeys = network.edges
+    .filter((edge) => closedRouteIds.has(edge.routeId))
+    .map(getEdgeKey);
+
+  return {
+    stationIds: Array.from(closedStationIds).sort(),
+    edgeKeys,
+    routeStops: Array.from(closedRouteStops).sort(),
+  };
+}
+
+/**
+ * Split a pattern's trips where they use a closed edge, so the timetable router can't ride
+ * across the closure
+ */
+function splitPattern(pattern: TripPattern, closedEdgeKeys: Set<string>): TripPattern[] {
+  // Index ranges of the stations between closed hops
+  const ranges: Array<[number, number]> = [];
+  let start = 0;
+  for (let i = 0; i < pattern.stationIds.length - 1; i++) {
+    const key = getEdgeKey({
+      fromId: pattern.stationIds[i],
+      toId: pattern.stationIds[i + 1],
+      routeId: pattern.routeId,
+    });
+    if (closedEdgeKeys.has(key)) {
+      ranges.push([start, i]);
+      start = i + 1;
+    }
+  }
+  if (start === 0) {
+    return [pattern];
+  }
+  ranges.push([start, pattern.stationIds.length - 1]);
+
+  return ranges
+    .filter(([first, last]) => last > first)
+    .map(([first, last], index) => ({
+      ...pattern,
+      id: `${pattern.id}-${index}`,
+      stationIds: pattern.stationIds.slice(first, last + 1),
+      trips: pattern.trips.map((trip) => ({
+        ...trip,
+        departures: trip.departures.slice(first, last + 1),
+        ...(trip.arrivals ? { arrivals: trip.arrivals.slice(first, last + 1) } : {}),
+      })),
+    }));
+}
+
+// Networks with closed edges removed, per source network and closures, so their routing graphs
+// are reused while the closures stay the same
+const closedNetworkCache = new WeakMap<ProcessedNetwork, Map<string, ProcessedNetwork>>();
+
+/**
+ * Remove closed edges from a network (including the timetable's trips across them)
+ * Closed stations and route stops are left in place; the router avoids stopping at them
+ * @returns The network without closed edges, or the same network when no edge is closed
+ */
+export function applyClosures(network: ProcessedNetwork, closures: Closures): ProcessedNetwork {
+  if (closures.edgeKeys.length === 0) {
+    return network;
+  }
+
+  let cached = closedNetworkCache.get(network);
+  if (!cached) {
+    cached = new Map();
+    closedNetworkCache.set(network, cached);
+  }
+  const cacheKey = closures.edgeKeys.join(',');
+  const existing = cached.get(cacheKey);
+  if (existing) {
+    return existing;
+  }
+
+  const closedEdgeKeys = new Set(closures.edgeKeys);
+  const closedNetwork: ProcessedNetwork = {
+    ...network,
+    edges: network.edges.filter((edge) => !closedEdgeKeys.has(getEdgeKey(edge))),
+    timetable: network.timetable && {
+      ...network.timetable,
+      patterns: network.timetable.patterns.flatMap((pattern) =>
+        splitPattern(pattern, closedEdgeKeys)
+      ),
+    },
+  };
+  cached.set(cacheKey, closedNetwork);
+  return closedNetwork;
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { parseStationInformation } from './bikeShare';
+
+describe('parseStationInformation', () => {
+  it('reads GBFS 2 docks', () => {
+    const json = {
+      last_updated: 1760000000,
+      data: { stations: [{ station_id: '72', name: 'W 52 St & 11 Ave', lat: 40.767, lon: -73.994 }] },
+    };
+
+    expect(parseStationInformation(json)).toEqual([
+      { id: '72', name: 'W 52 St & 11 Ave', lat: 40.767, lon: -73.994 },
+    ]);
+  });
+
+  it('reads GBFS 3 translated names, preferring English', () => {
+    const json = {
+      data: {
+        stations: [
+          {
+            station_id: 'a1',
+            name: [
+              { text: 'Calle 52', language: 'es' },
+              { text: '52 St', language: 'en' },
+            ],
+            lat: 40.7,
+            lon: -73.9,
+          },
+        ],
+      },
+    };
+
+    expect(parseStationInformation(json)[0].name).toBe('52 St');
+  });
+
+  it('skips docks without coordinates', () => {
+    const json = { data: { stations: [{ station_id: '1', name: 'Virtual' }] } };
+
+    expect(parseStationInformation(json)).toEqual([]);
+  });
+
+  it('rejects other files', () => {
+    expect(() => parseStationInformation({ data: { bikes: [] } })).toThrow('station_information');
+  });
+});
@@ -0,0 +1,37 @@
+import type { BikeShareStation } from '../types/bikeShare';
+
+/**
+ * Name of a GBFS station: a string in GBFS 2, a list of translations in GBFS 3
+ */
+function getStationName(name: unknown, stationId: string): string {
+  if (typeof name === 'string') {
+    return name;
+  }
+  if (Array.isArray(name)) {
+    const english = name.find((translation) => translation?.language?.startsWith('en')) ?? name[0];
+    if (typeof english?.text === 'string') {
+      return english.text;
+    }
+  }
+  return stationId;
+}
+
+/**
+ * Read the docks of a GBFS station_information file (GBFS 2 or 3)
+ * Docks without coordinates are skipped
+ * @throws Error if the file has no data.stations list
+ */
+export function parseStationInformation(json: unknown): BikeShareStation[] {
+  const stations = (json as { data?: { stations?: unknown } })?.data?.stations;
+  if (!Array.isArray(stations)) {
+    throw new Error('Not a GBFS station_information file: data.stations is missing');
+  }
+
+  const docks: BikeShareStation[] = [];
+  for (const station of stations) {
+    const { station_id: stationId, name, lat, lon } = station ?? {};
+    if (typeof lat !== 'number' || typeof lon !== 'number' || stationId === undefined) continue;
+    docks.push({ id: String(stationId), name: getStationName(name, String(stationId)), lat, lon });
+  }
+  return docks;
+}
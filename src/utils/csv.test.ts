@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { formatCSV, parseCSVRows } from './csv';
+
+async function parse(...chunks: string[]): Promise<string[][]> {
+  const rows: string[][] = [];
+  for await (const row of parseCSVRows(chunks)) {
+    rows.push(row);
+  }
+  return rows;
+}
+
+describe('parseCSVRows', () => {
+  it('splits rows and fields', async () => {
+    expect(await parse('stop_id,stop_name\n101,Van Cortlandt Park\n')).toEqual([
+      ['stop_id', 'stop_name'],
+      ['101', 'Van Cortlandt Park'],
+    ]);
+  });
+
+  it('handles CRLF line endings, a byte order mark and a missing final line break', async () => {
+    expect(await parse('\uFEFFa,b\r\n1,2\r\n3,4')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+      ['3', '4'],
+    ]);
+  });
+
+  it('unquotes fields with commas, line breaks and escaped quotes', async () => {
+    expect(await parse('id,name\n1,"Times Sq, ""42 St""\nMain"\n')).toEqual([
+      ['id', 'name'],
+      ['1', 'Times Sq, "42 St"\nMain'],
+    ]);
+  });
+
+  it('keeps empty fields', async () => {
+    expect(await parse('a,,""\n')).toEqual([['a', '', '']]);
+  });
+
+  it('skips blank lines', async () => {
+    expect(await parse('a\n\n\r\nb\n')).toEqual([['a'], ['b']]);
+  });
+
+  it('reads rows split anywhere across chunks', async () => {
+    const text = 'id,name\r\n1,"a ""b"", c"\r\n2,d\r\n';
+    const expected = await parse(text);
+
+    for (let i = 1; i < text.length; i++) {
+      expect(await parse(text.slice(0, i), text.slice(i))).toEqual(expected);
+    }
+  });
+
+  it('rejects an unterminated quoted field', async () => {
+    await expect(parse('a,"b\n')).rejects.toThrow('quoted field');
+  });
+});
+
+describe('formatCSV', () => {
+  it('quotes fields only where needed and reads back', async () => {
+    const rows = [
+      ['id', 'name', 'minutes'],
+      ['1', 'Times Sq, "42 St"\nMain', 12.5],
+      ['2', '', 0],
+    ];
+    const text = formatCSV(rows);
+
+    expect(text.split('\r\n')[0]).toBe('id,name,minutes');
+    expect(await parse(text)).toEqual(rows.map((row) => row.map(String)));
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Parse CSV text arriving in chunks into rows, following RFC 4180
+ * Handles quoted fields containing commas, line breaks and escaped ("") quotes, CRLF or LF
+ * line endings (even when split across chunks) and a leading UTF-8 byte order mark.
+ * Blank lines are skipped. Rows are yielded as soon as they are complete, so files far
+ * larger than memory can be read from a stream.
+ * @param chunks Text chunks, e.g. a file stream opened with an encoding
+ * @throws Error if the input ends inside a quoted field
+ */
+export async function* parseCSVRows(
+  chunks: AsyncIterable<string> | Iterable<string>
+): AsyncGenerator<string[]> {
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let quoteInQuotes = false; // A quote inside a quoted field: an escape if another follows, else the end
+  let afterCR = false;
+  let atStart = true;
+
+  for await (const chunk of chunks) {
+    let i = 0;
+    if (atStart && chunk.length > 0) {
+      atStart = false;
+      if (chunk.charCodeAt(0) === 0xfeff) i = 1;
+    }
+
+    for (; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      // CRLF ends one row, not two
+      if (afterCR) {
+        afterCR = false;
+        if (char === '\n') continue;
+      }
+
+      if (inQuotes) {
+        if (quoteInQuotes) {
+          quoteInQuotes = false;
+          if (char === '"') {
+            field += '"';
+            continue;
+          }
+          inQuotes = false; // The quote closed the field; handle this character below
+        } else {
+          if (char === '"') {
+            quoteInQuotes = true;
+          } else {
+            field += char;
+          }
+          continue;
+        }
+      }
+
+      if (char === '"' && field === '') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        row.push(field);
+        field = '';
+        if (row.length > 1 || row[0] !== '') {
+          yield row;
+        }
+        row = [];
+        afterCR = char === '\r';
+      } else {
+        field += char;
+      }
+    }
+  }
+
+  if (inQuotes && !quoteInQuotes) {
+    throw new Error('CSV ends inside a quoted field');
+  }
+
+  // Last row without a trailing line break
+  if (row.length > 0 || field !== '') {
+    row.push(field);
+    yield row;
+  }
+}
+
+/**
+ * Write rows as CSV text, following RFC 4180
+ * Fields holding commas, quotes or line breaks are quoted, with quotes doubled. Rows end in CRLF.
+ */
+export function formatCSV(rows: Array<Array<string | number>>): string {
+  return rows
+    .map((row) =>
+      row
+        .map((value) => {
+          const field = String(value);
+          return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+        })
+        .join(',')
+    )
+    .map((line) => `${line}\r\n`)
+    .join('');
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import type { DelaySnapshot } from '../types/delays';
+import type { ProcessedNetwork } from '../types/network';
+import { applyDelays, formatSnapshotTime } from './delays';
+
+const network: ProcessedNetwork = {
+  stations: [
+    { id: 'A', name: 'A', lat: 40.75, lon: -73.98, accessible: false, routesServed: ['1'] },
+    { id: 'B', name: 'B', lat: 40.76, lon: -73.98, accessible: false, routesServed: ['1'] },
+    { id: 'C', name: 'C', lat: 40.77, lon: -73.98, accessible: false, routesServed: ['1'] },
+  ],
+  edges: [
+    { fromId: 'A', toId: 'B', travelTimeSec: 120, routeId: '1', headwaySec: 300 },
+    { fromId: 'B', toId: 'C', travelTimeSec: 120, routeId: '1', headwaySec: 300 },
+  ],
+  timetable: { services: [], patterns: [] },
+};
+
+const snapshot: DelaySnapshot = {
+  snapshotTime: 1760000000,
+  edges: [
+    { fromId: 'A', toId: 'B', routeId: '1', delaySec: 180, headwaySec: 900, tripCount: 3 },
+    { fromId: 'B', toId: 'C', routeId: '1', delaySec: -200, tripCount: 1 },
+  ],
+};
+
+describe('applyDelays', () => {
+  it('adds delays to travel times and uses observed headways', () => {
+    const delayed = applyDelays(network, snapshot);
+
+    expect(delayed.edges).toEqual([
+      { fromId: 'A', toId: 'B', travelTimeSec: 300, routeId: '1', headwaySec: 900 },
+      // Never faster than instant, and the scheduled headway is kept without an observed one
+      { fromId: 'B', toId: 'C', travelTimeSec: 0, routeId: '1', headwaySec: 300 },
+    ]);
+  });
+
+  it('drops the timetable', () => {
+    expect(applyDelays(network, snapshot).timetable).toBeUndefined();
+  });
+
+  it('reuses the delayed network for the same snapshot', () => {
+    expect(applyDelays(network, { ...snapshot })).toBe(applyDelays(network, snapshot));
+  });
+});
+
+describe('formatSnapshotTime', () => {
+  it('formats in New York time', () => {
+    expect(formatSnapshotTime(1760000000)).toBe('Oct 9, 4:53 AM');
+  });
+});
@@ -0,0 +1,56 @@
+import type { DelaySnapshot } from '../types/delays';
+import type { ProcessedNetwork } from '../types/network';
+import { getEdgeKey } from './alerts';
+
+// Networks with delays applied, per source network and snapshot, so their routing graphs are
+// reused while the same snapshot is replayed
+const delayedNetworkCache = new WeakMap<ProcessedNetwork, Map<number, ProcessedNetwork>>();
+
+/**
+ * Adjust a network's edges to the running times and headways of a TripUpdates snapshot
+ * The snapshot describes one moment rather than the schedule, so the timetable is dropped and
+ * routing uses the adjusted typical times
+ * @returns The network with delayed travel times and observed headways
+ */
+export function applyDelays(network: ProcessedNetwork, snapshot: DelaySnapshot): ProcessedNetwork {
+  let cached = delayedNetworkCache.get(network);
+  if (!cached) {
+    cached = new Map();
+    delayedNetworkCache.set(network, cached);
+  }
+  const existing = cached.get(snapshot.snapshotTime);
+  if (existing) {
+    return existing;
+  }
+
+  const delays = new Map(snapshot.edges.map((delay) => [getEdgeKey(delay), delay]));
+  const delayedNetwork: ProcessedNetwork = {
+    ...network,
+    edges: network.edges.map((edge) => {
+      const delay = delays.get(getEdgeKey(edge));
+      if (!delay) return edge;
+      return {
+        ...edge,
+        travelTimeSec: Math.max(0, edge.travelTimeSec + delay.delaySec),
+        ...(delay.headwaySec !== undefined ? { headwaySec: delay.headwaySec } : {}),
+      };
+    }),
+    timetable: undefined,
+  };
+  cached.set(snapshot.snapshotTime, delayedNetwork);
+  return delayedNetwork;
+}
+
+/**
+ * Format a snapshot time for display, in New York time (e.g. "Oct 9, 4:53 AM")
+ * @param snapshotTime Unix seconds
+ */
+export function formatSnapshotTime(snapshotTime: number): string {
+  return new Date(snapshotTime * 1000).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: 'America/New_York',
+  });
+}
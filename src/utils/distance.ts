@@ -1,5 +1,6 @@
 import * as turf from '@turf/turf';
 import type { Station } from '../types/network';
+import { getStationIndex } from './spatialIndex';
 
 /**
  * Standard walking speed in miles per hour
@@ -45,47 +46,44 @@ export function calculateWalkingTime(
   return Math.round(timeHours * 3600); // Convert to seconds
 }
 
+/**
+ * Calculate how far one can walk in a given time
+ * @param timeSec Walking time in seconds
+ * @param walkSpeedMph Walking speed in miles per hour (default: 3 mph)
+ * @returns Walking distance in miles (0 for no time)
+ */
+export function calculateWalkingDistance(
+  timeSec: number,
+  walkSpeedMph: number = WALKING_SPEED_MPH
+): number {
+  return (Math.max(0, timeSec) / 3600) * walkSpeedMph;
+}
+
 /**
  * Find stations within walking distance of a point
+ * Searches the stations' spatial index, built on the first search of a list
  * @param officeLat Latitude of office location
  * @param officeLon Longitude of office location
  * @param stations Array of stations to search
  * @param maxWalkDistanceMiles Maximum walking distance in miles
+ * @param accessibleOnly Only include wheelchair-accessible stations
  * @returns Array of stations within walking distance with their distances
  */
 export function findNearestStations(
   officeLat: number,
   officeLon: number,
   stations: Station[],
-  maxWalkDistanceMiles: number = DEFAULT_MAX_WALK_DISTANCE_MILES
+  maxWalkDistanceMiles: number = DEFAULT_MAX_WALK_DISTANCE_MILES,
+  accessibleOnly: boolean = false
 ): Array<{ station: Station; distanceMiles: number; walkingTimeSec: number }> {
-  const results: Array<{
-    station: Station;
-    distanceMiles: number;
-    walkingTimeSec: number;
-  }> = [];
-
-  for (const station of stations) {
-    const distance = calculateDistance(
-      officeLat,
-      officeLon,
-      station.lat,
-      station.lon
-    );
-
-    if (distance <= maxWalkDistanceMiles) {
-      const walkingTime = calculateWalkingTime(distance);
-      results.push({
-        station,
-        distanceMiles: distance,
-        walkingTimeSec: walkingTime,
-      });
-    }
-  }
-
-  // Sort by distance (closest first)
-  results.sort((a, b) => a.distanceMiles - b.distanceMiles);
-
-  return results;
+  // Matches come sorted by distance (closest first)
+  return getStationIndex(stations)
+    .withinRadius(officeLat, officeLon, maxWalkDistanceMiles)
+    .filter(({ item: station }) => !accessibleOnly || station.accessible)
+    .map(({ item: station, distanceMiles }) => ({
+      station,
+      distanceMiles,
+      walkingTimeSec: calculateWalkingTime(distanceMiles),
+    }));
 }
 
@@ -0,0 +1,15 @@
+/**
+ * Save text as a file through the browser's downloads
+ * @param type MIME type, e.g. 'text/csv'
+ */
+export function downloadTextFile(text: string, filename: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download after click() returns, so the URL must outlive this call
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
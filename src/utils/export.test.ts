@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import * as turf from '@turf/turf';
+import type { IsochroneResult, ReachableStation } from '../types/isochrone';
+import type { Route, Station } from '../types/network';
+import { parseCSVRows } from './csv';
+import { isochronesToGeoJSON, isochronesToKML, reachableStationsToCSV } from './export';
+import type { IsochroneBand } from './export';
+
+const timesSquare: ReachableStation = {
+  stationId: 'mta:127',
+  travelTimeSec: 540,
+  waitTimeSec: 150,
+  transfers: 0,
+  itinerary: {
+    legs: [
+      { type: 'walk', fromStationId: null, toStationId: 'mta:631', durationSec: 120 },
+      {
+        type: 'ride',
+        routeId: 'mta:7',
+        fromStationId: 'mta:631',
+        toStationId: 'mta:127',
+        stationIds: ['mta:631', 'mta:127'],
+        stopCount: 1,
+        waitSec: 150,
+        durationSec: 270,
+      },
+    ],
+    totalTimeSec: 540,
+  },
+};
+
+const grandCentral: ReachableStation = {
+  stationId: 'mta:631',
+  travelTimeSec: 120,
+  waitTimeSec: 0,
+  transfers: 0,
+  itinerary: {
+    legs: [{ type: 'walk', fromStationId: null, toStationId: 'mta:631', durationSec: 120 }],
+    totalTimeSec: 120,
+  },
+};
+
+const result = (polygon: IsochroneResult['polygon'], reachableStations: ReachableStation[]): IsochroneResult => ({
+  polygon,
+  reachableStations,
+  totalStations: 2,
+});
+
+const bands: IsochroneBand[] = [
+  {
+    travelTimeMinutes: 10,
+    result: result(
+      turf.multiPolygon([
+        [[[-73.99, 40.75], [-73.97, 40.75], [-73.97, 40.76], [-73.99, 40.76], [-73.99, 40.75]]],
+        [[[-74.0, 40.7], [-73.99, 40.7], [-73.99, 40.71], [-74.0, 40.7]]],
+      ]),
+      [grandCentral, timesSquare]
+    ),
+  },
+  {
+    travelTimeMinutes: 5,
+    result: result(turf.circle([-73.977, 40.752], 0.25, { units: 'miles' }), [grandCentral]),
+  },
+];
+
+const stationMap = new Map<string, Station>([
+  ['mta:631', { id: 'mta:631', name: 'Grand Central-42 St', lat: 40.7518, lon: -73.9769, accessible: true, routesServed: ['4', '5', '6', '7', 'S'] }],
+  ['mta:127', { id: 'mta:127', name: 'Times Sq-42 St', lat: 40.7553, lon: -73.9871, accessible: true, routesServed: ['1', '2', '3'] }],
+]);
+const routeMap = new Map<string, Route>([['mta:7', { id: 'mta:7', name: '7', mode: 'subway', agencyId: 'mta:MTA' }]]);
+
+describe('isochronesToGeoJSON', () => {
+  it('lists every band shortest first with its time', () => {
+    const collection = isochronesToGeoJSON(bands);
+
+    expect(collection.features.map((feature) => feature.properties)).toEqual([
+      { travelTimeMinutes: 5, travelTimeSec: 300, reachableStations: 1 },
+      { travelTimeMinutes: 10, travelTimeSec: 600, reachableStations: 2 },
+    ]);
+    expect(collection.features[1].geometry).toEqual(bands[0].result.polygon.geometry);
+  });
+});
+
+describe('isochronesToKML', () => {
+  it('writes a placemark per band, with several polygons as one multi-geometry', () => {
+    const kml = isochronesToKML(bands, 'Grand Central & 42nd <Office>');
+
+    expect(kml).toContain('<name>Grand Central &amp; 42nd &lt;Office&gt;</name>');
+    expect(kml.match(/<Placemark>/g)).toHaveLength(2);
+    expect(kml.indexOf('Within 5 min')).toBeLessThan(kml.indexOf('Within 10 min'));
+    expect(kml.match(/<MultiGeometry>/g)).toHaveLength(1);
+    expect(kml).toContain('<coordinates>-74,40.7 -73.99,40.7 -73.99,40.71 -74,40.7</coordinates>');
+  });
+});
+
+describe('reachableStationsToCSV', () => {
+  it('lists stations quickest first with names, routes and times', async () => {
+    const rows: string[][] = [];
+    for await (const row of parseCSVRows([reachableStationsToCSV([timesSquare, grandCentral], [5, 10], stationMap, routeMap)])) {
+      rows.push(row);
+    }
+
+    expect(rows).toEqual([
+      ['station_id', 'name', 'latitude', 'longitude', 'routes_served', 'routes_taken', 'travel_time_min', 'wait_time_min', 'transfers', 'band_min'],
+      ['mta:631', 'Grand Central-42 St', '40.7518', '-73.9769', '4 5 6 7 S', '', '2', '0', '0', '5'],
+      ['mta:127', 'Times Sq-42 St', '40.7553', '-73.9871', '1 2 3', '7', '9', '2.5', '0', '10'],
+    ]);
+  });
+});
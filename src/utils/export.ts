@@ -0,0 +1,163 @@
+import type { IsochroneResult, ReachableStation } from '../types/isochrone';
+import type { Route, Station } from '../types/network';
+import { formatCSV } from './csv';
+import { getRouteLabel } from './routeColors';
+
+/**
+ * Isochrone of one band, as drawn on the map
+ */
+export interface IsochroneBand {
+  travelTimeMinutes: number;
+  result: IsochroneResult;
+}
+
+// Band fill and outline in KML's aabbggrr order: the map's rgb(0, 102, 204) at its opacities
+const KML_FILL_COLOR = '59cc6600';
+const KML_LINE_COLOR = '80cc6600';
+
+const CSV_HEADER = [
+  'station_id',
+  'name',
+  'latitude',
+  'longitude',
+  'routes_served',
+  'routes_taken',
+  'travel_time_min',
+  'wait_time_min',
+  'transfers',
+  'band_min',
+];
+
+const byTravelTime = (a: IsochroneBand, b: IsochroneBand) => a.travelTimeMinutes - b.travelTimeMinutes;
+
+// Minutes to one decimal place
+const toMinutes = (sec: number) => Math.round(sec / 6) / 10;
+
+/**
+ * Every band as one GeoJSON FeatureCollection, shortest time first
+ * Each feature's properties hold its time limit and how many stations it reaches.
+ */
+export function isochronesToGeoJSON(
+  bands: IsochroneBand[]
+): GeoJSON.FeatureCollection<GeoJSON.Polygon | GeoJSON.MultiPolygon> {
+  return {
+    type: 'FeatureCollection',
+    features: [...bands].sort(byTravelTime).map(({ travelTimeMinutes, result }) => ({
+      type: 'Feature',
+      geometry: result.polygon.geometry,
+      properties: {
+        travelTimeMinutes,
+        travelTimeSec: travelTimeMinutes * 60,
+        reachableStations: result.reachableStations.length,
+      },
+    })),
+  };
+}
+
+/**
+ * Escape text for an XML element or attribute
+ */
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * KML Polygon of a GeoJSON polygon's rings, the first the outline and the rest holes
+ */
+function polygonToKML(rings: GeoJSON.Position[][]): string {
+  const ring = (positions: GeoJSON.Position[]) =>
+    `<LinearRing><coordinates>${positions.map(([lon, lat]) => `${lon},${lat}`).join(' ')}</coordinates></LinearRing>`;
+  const [outer, ...holes] = rings;
+  return [
+    '<Polygon>',
+    `<outerBoundaryIs>${ring(outer)}</outerBoundaryIs>`,
+    ...holes.map((hole) => `<innerBoundaryIs>${ring(hole)}</innerBoundaryIs>`),
+    '</Polygon>',
+  ].join('');
+}
+
+/**
+ * Every band as a KML document for Google Earth, one placemark per band, shortest time first
+ * @param name Document name, e.g. the office's address
+ */
+export function isochronesToKML(bands: IsochroneBand[], name: string): string {
+  const placemarks = [...bands].sort(byTravelTime).map(({ travelTimeMinutes, result }) => {
+    const { geometry } = result.polygon;
+    const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+    const shape =
+      polygons.length === 1
+        ? polygonToKML(polygons[0])
+        : `<MultiGeometry>${polygons.map(polygonToKML).join('')}</MultiGeometry>`;
+
+    return [
+      '    <Placemark>',
+      `      <name>Within ${travelTimeMinutes} min</name>`,
+      '      <styleUrl>#isochrone</styleUrl>',
+      '      <ExtendedData>',
+      `        <Data name="travelTimeMinutes"><value>${travelTimeMinutes}</value></Data>`,
+      `        <Data name="reachableStations"><value>${result.reachableStations.length}</value></Data>`,
+      '      </ExtendedData>',
+      `      ${shape}`,
+      '    </Placemark>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXML(name)}</name>`,
+    '    <Style id="isochrone">',
+    `      <LineStyle><color>${KML_LINE_COLOR}</color><width>2</width></LineStyle>`,
+    `      <PolyStyle><color>${KML_FILL_COLOR}</color></PolyStyle>`,
+    '    </Style>',
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Reachable stations as CSV, quickest first
+ * Routes taken are the routes ridden on the fastest path, in order; band_min is the shortest
+ * band that reaches the station.
+ * @param stations Stations reached in the longest band, which holds every band's
+ * @param bandTimesMinutes Time limit of every band
+ * @param routeMap Route lookup for names; empty for networks built without routes
+ */
+export function reachableStationsToCSV(
+  stations: ReachableStation[],
+  bandTimesMinutes: number[],
+  stationMap: Map<string, Station>,
+  routeMap: Map<string, Route>
+): string {
+  const bands = [...bandTimesMinutes].sort((a, b) => a - b);
+  const rows = [...stations]
+    .sort((a, b) => a.travelTimeSec - b.travelTimeSec)
+    .map((reachable) => {
+      const station = stationMap.get(reachable.stationId);
+      const routesTaken = reachable.itinerary.legs.flatMap((leg) =>
+        leg.type === 'ride' ? [getRouteLabel(leg.routeId, routeMap.get(leg.routeId))] : []
+      );
+      return [
+        reachable.stationId,
+        station?.name ?? '',
+        station?.lat ?? '',
+        station?.lon ?? '',
+        station?.routesServed.join(' ') ?? '',
+        routesTaken.join(' '),
+        toMinutes(reachable.travelTimeSec),
+        toMinutes(reachable.waitTimeSec),
+        reachable.transfers,
+        bands.find((minutes) => reachable.travelTimeSec <= minutes * 60) ?? '',
+      ];
+    });
+
+  return formatCSV([CSV_HEADER, ...rows]);
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import type { Edge, Station } from '../types/network';
+import { edgesToGeoJSON, ROUTE_OFFSET_PX } from './geojson';
+
+const stations: Station[] = ['A', 'B'].map((id, index) => ({
+  id,
+  name: id,
+  lat: 40.75 + index * 0.01,
+  lon: -73.98,
+  accessible: false,
+  routesServed: [],
+}));
+const stationMap = new Map(stations.map((station) => [station.id, station]));
+
+describe('edgesToGeoJSON', () => {
+  it('draws the track shape when the edge has one', () => {
+    const shape: [number, number][] = [
+      [-73.98, 40.75],
+      [-73.985, 40.755],
+      [-73.98, 40.76],
+    ];
+    const edges: Edge[] = [
+      { fromId: 'A', toId: 'B', travelTimeSec: 60, routeId: '1', shape },
+      { fromId: 'B', toId: 'A', travelTimeSec: 60, routeId: '1' },
+    ];
+
+    const [withShape, without] = edgesToGeoJSON(edges, stationMap).features;
+
+    expect(withShape.geometry.coordinates).toEqual(shape);
+    expect(without.geometry.coordinates).toEqual([
+      [-73.98, 40.76],
+      [-73.98, 40.75],
+    ]);
+  });
+
+  it('spreads routes sharing track on the same side in both directions', () => {
+    const edges: Edge[] = [
+      { fromId: 'A', toId: 'B', travelTimeSec: 60, routeId: '2' },
+      { fromId: 'A', toId: 'B', travelTimeSec: 60, routeId: '3' },
+      { fromId: 'B', toId: 'A', travelTimeSec: 60, routeId: '2' },
+      { fromId: 'B', toId: 'A', travelTimeSec: 60, routeId: '3' },
+    ];
+
+    const offsets = edgesToGeoJSON(edges, stationMap).features.map(
+      (feature) => feature.properties.offset
+    );
+
+    // Offsets are to the right of travel, so the reverse direction flips the sign
+    expect(offsets).toEqual([
+      -ROUTE_OFFSET_PX / 2,
+      ROUTE_OFFSET_PX / 2,
+      ROUTE_OFFSET_PX / 2,
+      -ROUTE_OFFSET_PX / 2,
+    ]);
+  });
+
+  it('keeps a lone route on the track', () => {
+    const [feature] = edgesToGeoJSON(
+      [{ fromId: 'A', toId: 'B', travelTimeSec: 60, routeId: '1' }],
+      stationMap
+    ).features;
+
+    expect(feature.properties.offset).toBe(0);
+  });
+});
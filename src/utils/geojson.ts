@@ -1,4 +1,9 @@
-import type { Station, Edge, ProcessedNetwork } from '../types/network';
+import type { Station, Edge, ProcessedNetwork, TransitMode } from '../types/network';
+
+/**
+ * Spacing in pixels between routes drawn along the same track
+ */
+export const ROUTE_OFFSET_PX = 3;
 
 /**
  * GeoJSON Feature for a station point
@@ -14,6 +19,7 @@ export interface StationFeature {
     name: string;
     routesServed: string[];
     accessible: boolean;
+    mode: TransitMode;
   };
 }
 
@@ -24,13 +30,15 @@ export interface EdgeFeature {
   type: 'Feature';
   geometry: {
     type: 'LineString';
-    coordinates: [[number, number], [number, number]]; // [[fromLon, fromLat], [toLon, toLat]]
+    coordinates: [number, number][]; // Track from fromId to toId, or a straight line without a shape
   };
   properties: {
     fromId: string;
     toId: string;
     travelTimeSec: number;
     routeId: string;
+    offset: number; // Line offset in pixels, for drawing routes that share track side by side
+    mode: TransitMode;
   };
 }
 
@@ -67,20 +75,52 @@ export function stationsToGeoJSON(stations: Station[]): StationsFeatureCollectio
         name: station.name,
         routesServed: station.routesServed,
         accessible: station.accessible,
+        mode: station.mode ?? 'subway',
       },
     })),
   };
 }
 
+/**
+ * Offset of each edge so routes between the same two stations sit side by side
+ * Routes are spread evenly around the track in route order. Offsets are to the right of the
+ * direction of travel, so the reverse direction gets the opposite sign to land on the same side.
+ */
+function getRouteOffsets(edges: Edge[]): Map<Edge, number> {
+  // Routes per station pair, regardless of direction
+  const pairRoutes = new Map<string, Set<string>>();
+  const pairKey = (edge: Edge) =>
+    edge.fromId < edge.toId ? `${edge.fromId}|${edge.toId}` : `${edge.toId}|${edge.fromId}`;
+
+  for (const edge of edges) {
+    const key = pairKey(edge);
+    if (!pairRoutes.has(key)) {
+      pairRoutes.set(key, new Set());
+    }
+    pairRoutes.get(key)!.add(edge.routeId);
+  }
+
+  const offsets = new Map<Edge, number>();
+  for (const edge of edges) {
+    const routeIds = Array.from(pairRoutes.get(pairKey(edge))!).sort();
+    const slot = routeIds.indexOf(edge.routeId) - (routeIds.length - 1) / 2;
+    const sign = edge.fromId < edge.toId ? 1 : -1;
+    offsets.set(edge, slot * ROUTE_OFFSET_PX * sign);
+  }
+  return offsets;
+}
+
 /**
  * Convert edges to GeoJSON LineString features
- * Requires a station lookup map to get coordinates
+ * Requires a station lookup map to get coordinates; edges with a track shape use it,
+ * others are drawn as straight lines between stations
  */
 export function edgesToGeoJSON(
   edges: Edge[],
   stationMap: Map<string, Station>
 ): EdgesFeatureCollection {
   const features: EdgeFeature[] = [];
+  const offsets = getRouteOffsets(edges);
 
   for (const edge of edges) {
     const fromStation = stationMap.get(edge.fromId);
@@ -95,7 +135,7 @@ export function edgesToGeoJSON(
       type: 'Feature',
       geometry: {
         type: 'LineString',
-        coordinates: [
+        coordinates: edge.shape ?? [
           [fromStation.lon, fromStation.lat],
           [toStation.lon, toStation.lat],
         ],
@@ -105,6 +145,8 @@ export function edgesToGeoJSON(
         toId: edge.toId,
         travelTimeSec: edge.travelTimeSec,
         routeId: edge.routeId,
+        offset: offsets.get(edge) ?? 0,
+        mode: edge.mode ?? 'subway',
       },
     });
   }
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { getHeatmapColor, travelTimeGridToImage } from './heatmap';
+
+describe('getHeatmapColor', () => {
+  it('runs from green to red through yellow', () => {
+    expect(getHeatmapColor(0)).toEqual([26, 152, 80]);
+    expect(getHeatmapColor(0.5)).toEqual([254, 224, 139]);
+    expect(getHeatmapColor(1)).toEqual([215, 48, 39]);
+  });
+
+  it('clamps times outside the limit', () => {
+    expect(getHeatmapColor(-1)).toEqual(getHeatmapColor(0));
+    expect(getHeatmapColor(2)).toEqual(getHeatmapColor(1));
+  });
+});
+
+describe('travelTimeGridToImage', () => {
+  it('draws nothing for an empty grid', () => {
+    const grid = {
+      west: 0,
+      south: 0,
+      lonStep: 0.001,
+      latStep: 0.00075,
+      columns: 0,
+      rows: 0,
+      timesSec: [],
+      maxTravelTimeSec: 1800,
+    };
+    expect(travelTimeGridToImage(grid, 1800)).toBeNull();
+  });
+});
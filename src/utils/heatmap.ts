@@ -0,0 +1,82 @@
+import type { TravelTimeGrid } from '../types/isochrone';
+
+type Rgb = [number, number, number];
+
+// Heatmap colors from no time at all (green) to the time limit (red)
+const HEATMAP_STOPS: Array<[number, Rgb]> = [
+  [0, [26, 152, 80]],
+  [0.5, [254, 224, 139]],
+  [1, [215, 48, 39]],
+];
+
+/**
+ * Corners of an image on the map: top left, top right, bottom right, bottom left
+ */
+export type ImageCoordinates = [[number, number], [number, number], [number, number], [number, number]];
+
+/**
+ * Color of a travel time on the heatmap
+ * @param fraction Travel time as a fraction of the time limit (clamped to 0-1)
+ */
+export function getHeatmapColor(fraction: number): Rgb {
+  const clamped = Math.min(1, Math.max(0, fraction));
+  for (let i = 1; i < HEATMAP_STOPS.length; i++) {
+    const [toFraction, to] = HEATMAP_STOPS[i];
+    if (clamped <= toFraction) {
+      const [fromFraction, from] = HEATMAP_STOPS[i - 1];
+      const t = (clamped - fromFraction) / (toFraction - fromFraction);
+      return from.map((value, channel) => Math.round(value + (to[channel] - value) * t)) as Rgb;
+    }
+  }
+  return HEATMAP_STOPS[HEATMAP_STOPS.length - 1][1];
+}
+
+/**
+ * Draw a travel-time grid as a heatmap image for a map image source
+ * One pixel per grid point; points not reached within maxTravelTimeSec are transparent
+ * @returns Image data URL and where its corners go, or null where there's no canvas (e.g. jsdom)
+ *   or nothing to draw
+ */
+export function travelTimeGridToImage(
+  grid: TravelTimeGrid,
+  maxTravelTimeSec: number
+): { url: string; coordinates: ImageCoordinates } | null {
+  if (grid.columns === 0 || grid.rows === 0 || typeof document === 'undefined') {
+    return null;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = grid.columns;
+  canvas.height = grid.rows;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return null;
+  }
+
+  // Rows run from the south; image rows from the top
+  const image = context.createImageData(grid.columns, grid.rows);
+  for (let row = 0; row < grid.rows; row++) {
+    for (let column = 0; column < grid.columns; column++) {
+      const timeSec = grid.timesSec[row * grid.columns + column];
+      if (timeSec === null || timeSec > maxTravelTimeSec) continue;
+      const pixel = ((grid.rows - 1 - row) * grid.columns + column) * 4;
+      image.data.set([...getHeatmapColor(timeSec / maxTravelTimeSec), 255], pixel);
+    }
+  }
+  context.putImageData(image, 0, 0);
+
+  // Each pixel is centered on its grid point
+  const west = grid.west - grid.lonStep / 2;
+  const east = grid.west + (grid.columns - 0.5) * grid.lonStep;
+  const south = grid.south - grid.latStep / 2;
+  const north = grid.south + (grid.rows - 0.5) * grid.latStep;
+  return {
+    url: canvas.toDataURL(),
+    coordinates: [
+      [west, north],
+      [east, north],
+      [east, south],
+      [west, south],
+    ],
+  };
+}
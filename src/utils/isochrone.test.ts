@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import * as turf from '@turf/turf';
+import type { ProcessedNetwork } from '../types/network';
+import { createIsochrone, getWalkRadiusMiles } from './isochrone';
+
+const office = { latitude: 40.75, longitude: -73.98, placeName: 'Office' };
+
+// A is next to the office; B is a 20 minute ride north (default headway, so a 2.5 minute wait)
+const network: ProcessedNetwork = {
+  stations: [
+    { id: 'A', name: 'A', lat: 40.75, lon: -73.98, accessible: false, routesServed: ['1'] },
+    { id: 'B', name: 'B', lat: 40.85, lon: -73.98, accessible: false, routesServed: ['1'] },
+  ],
+  edges: [{ fromId: 'A', toId: 'B', travelTimeSec: 1200, routeId: '1' }],
+};
+
+describe('getWalkRadiusMiles', () => {
+  it('walks as far as the time left allows', () => {
+    // 5 minutes at 3 mph
+    expect(getWalkRadiusMiles(300, 0.5)).toBeCloseTo(0.25);
+  });
+
+  it('is capped at the maximum walk distance', () => {
+    expect(getWalkRadiusMiles(3600, 0.5)).toBe(0.5);
+  });
+
+  it('is zero when no time is left', () => {
+    expect(getWalkRadiusMiles(-60, 0.5)).toBe(0);
+  });
+});
+
+describe('createIsochrone', () => {
+  it('shrinks the walk area around stations reached late in the budget', () => {
+    const result = createIsochrone(office, network, 1650);
+
+    expect(result?.totalStations).toBe(2);
+    // B is reached after a 2.5 minute wait and 20 minute ride, leaving 5 minutes (0.25 miles)
+    // to walk north of it
+    const [, , , maxLat] = turf.bbox(result!.polygon);
+    const northOfB = turf.distance([-73.98, 40.85], [-73.98, maxLat], { units: 'miles' });
+    expect(northOfB).toBeCloseTo(0.25, 2);
+  });
+
+  it('only starts from accessible stations in accessible-only mode', () => {
+    const result = createIsochrone(office, network, 1500, undefined, undefined, {
+      accessibleOnly: true,
+    });
+
+    // A, next to the office, is not accessible, so only the office's walk area remains
+    expect(result?.totalStations).toBe(0);
+  });
+
+  it('does not ride closed edges', () => {
+    const result = createIsochrone(office, network, 1650, undefined, undefined, {
+      closures: { stationIds: [], edgeKeys: ['A|B|1'], routeStops: [] },
+    });
+
+    expect(result?.totalStations).toBe(1);
+  });
+
+  it('rides from stations to the areas around them with a bike', () => {
+    // B back to A, so B's surroundings can reach the office
+    const twoWay: ProcessedNetwork = {
+      ...network,
+      edges: [...network.edges, { fromId: 'B', toId: 'A', travelTimeSec: 1200, routeId: '1' }],
+    };
+    // A mile west of B: 7.5 minutes are left there, 6.5 of them riding after locking up
+    const home = turf.destination([-73.98, 40.85], 1, -90, { units: 'miles' });
+
+    const walked = createIsochrone(office, twoWay, 1800, undefined, undefined, { direction: 'toOffice' });
+    const ridden = createIsochrone(office, twoWay, 1800, undefined, undefined, {
+      direction: 'toOffice',
+      accessMode: 'bike',
+    });
+
+    expect(turf.booleanPointInPolygon(home, walked!.polygon)).toBe(false);
+    expect(turf.booleanPointInPolygon(home, ridden!.polygon)).toBe(true);
+  });
+
+  it('includes a walk-only area around the office when no station is nearby', () => {
+    const result = createIsochrone(
+      { latitude: 40.6, longitude: -73.98, placeName: 'Far away' },
+      network,
+      600
+    );
+
+    expect(result?.totalStations).toBe(0);
+    const [minLon, , maxLon] = turf.bbox(result!.polygon);
+    // 10 minutes of walking is 0.5 miles each way
+    const width = turf.distance([minLon, 40.6], [maxLon, 40.6], { units: 'miles' });
+    expect(width).toBeCloseTo(1, 1);
+  });
+});
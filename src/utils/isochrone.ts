@@ -1,9 +1,24 @@
-import * as turf from '@turf/turf';
 import type { ProcessedNetwork, Station } from '../types/network';
 import type { GeocodeResult } from '../types/geocoding';
-import type { IsochroneResult, ReachableStation, StartStation } from '../types/isochrone';
-import { findNearestStations, DEFAULT_MAX_WALK_DISTANCE_MILES } from './distance';
-import { buildGraph, findReachableStations } from './routing';
+import type {
+  AccessMode,
+  IsochroneOptions,
+  IsochroneResult,
+  ReachableStation,
+  StartStation,
+  TravelTimeSurface,
+} from '../types/isochrone';
+import { calculateWalkingDistance, DEFAULT_MAX_WALK_DISTANCE_MILES } from './distance';
+import { findAccessStations } from './access';
+import { createTravelTimeGrid, contourTravelTimeGrid } from './travelTimeGrid';
+import type { GridOrigin } from './travelTimeGrid';
+import { getGraph, findReachableStations } from './routing';
+import type { StationArrival } from './routing';
+import { findReachableStationsByTimetable } from './timetableRouting';
+import { buildItinerary, getWaitTimeSec } from './itinerary';
+import { applyClosures } from './alerts';
+import { applyDelays } from './delays';
+import { filterNetworkByModes } from './modes';
 
 /**
  * Default maximum travel time in seconds (30 minutes)
@@ -11,164 +26,209 @@ import { buildGraph, findReachableStations } from './routing';
 export const DEFAULT_MAX_TRAVEL_TIME_SEC = 30 * 60;
 
 /**
- * Generate a buffer (walkshed) around a station
- * @param station Station to create buffer around
- * @param distanceMiles Radius of buffer in miles
- * @returns GeoJSON Polygon feature
+ * Radius one can walk with the time left over, capped at a maximum walk distance
+ * @param remainingTimeSec Time left in the budget
+ * @param maxWalkDistanceMiles Cap on the radius in miles
+ * @returns Radius in miles (0 if no time is left)
  */
-export function generateStationBuffer(
-  station: Station,
-  distanceMiles: number
-): GeoJSON.Feature<GeoJSON.Polygon> {
-  const point = turf.point([station.lon, station.lat]);
-  // turf.buffer returns a polygon, distance is in the units specified
-  const buffered = turf.buffer(point, distanceMiles, { units: 'miles' });
-  return buffered as GeoJSON.Feature<GeoJSON.Polygon>;
+export function getWalkRadiusMiles(remainingTimeSec: number, maxWalkDistanceMiles: number): number {
+  return Math.min(maxWalkDistanceMiles, calculateWalkingDistance(remainingTimeSec));
 }
 
 /**
- * Union multiple buffer polygons into a single polygon
- * @param buffers Array of polygon features to union
- * @returns Unioned polygon feature, or null if no buffers provided
- */
-export function unionBuffers(
-  buffers: GeoJSON.Feature<GeoJSON.Polygon>[]
-): GeoJSON.Feature<GeoJSON.Polygon> | null {
-  if (buffers.length === 0) {
-    return null;
-  }
-
-  if (buffers.length === 1) {
-    return buffers[0];
-  }
-
-  // turf.union takes a single FeatureCollection with all features and returns a Feature
-  const featureCollection = turf.featureCollection(buffers);
-  const unioned = turf.union(featureCollection);
-
-  if (!unioned) {
-    return null;
-  }
-
-  return unioned as GeoJSON.Feature<GeoJSON.Polygon>;
-}
-
-/**
- * Create an isochrone polygon showing all areas reachable from an office location
+ * Find the stations reachable from (or able to reach) an office location, and the travel time
+ * to every point around them
  * @param officeLocation Office location coordinates
  * @param network Processed network data (stations and edges)
  * @param maxTravelTimeSec Maximum total travel time in seconds (default: 30 minutes)
- * @param walkDistanceMiles Walking distance radius around stations in miles (default: 0.5 miles)
+ * @param walkDistanceMiles Maximum walk from stations and the office in miles (default: 0.5 miles)
  * @param maxWalkDistanceMiles Maximum walking distance from office to stations (default: 0.5 miles)
- * @returns Isochrone result with polygon and metadata, or null if no accessible stations
+ * @param options Optional settings; a departureTime routes on the timetable including waits,
+ *   direction toOffice finds the areas from which the office can be reached instead,
+ *   accessibleOnly only boards, alights and transfers at accessible stations, and waitFactor sets
+ *   the expected wait per boarding as a fraction of the headway (median-time routing only),
+ *   closures remove closed edges and keep the router from stopping at closed stations and stops,
+ *   delays replay a realtime snapshot's running times and headways instead of the timetable,
+ *   modes limits the network to some modes, and accessMode lets a bike (shared, from
+ *   bikeShareStations, or your own) cover the trip between the office and stations and the one
+ *   between stations and the areas around them, and with streets walks follow the street
+ *   network instead of straight lines
+ * @returns Reachable stations and the travel-time grid, from which isochrones of up to
+ *   maxTravelTimeSec can be drawn
  */
-export function createIsochrone(
+export function createTravelTimeSurface(
   officeLocation: GeocodeResult,
   network: ProcessedNetwork,
   maxTravelTimeSec: number = DEFAULT_MAX_TRAVEL_TIME_SEC,
   walkDistanceMiles: number = DEFAULT_MAX_WALK_DISTANCE_MILES,
-  maxWalkDistanceMiles: number = DEFAULT_MAX_WALK_DISTANCE_MILES
-): IsochroneResult | null {
-  // Step 1: Find stations within walking distance of office
-  const nearbyStations = findNearestStations(
+  maxWalkDistanceMiles: number = DEFAULT_MAX_WALK_DISTANCE_MILES,
+  options: IsochroneOptions = {}
+): TravelTimeSurface {
+  // Stations and rides of modes left out are removed before anything else
+  const modeNetwork = options.modes ? filterNetworkByModes(network, options.modes) : network;
+
+  // Closed stations can't be entered or left; trains still run through them
+  const closedStationIds = new Set(options.closures?.stationIds);
+  // Likewise, a route closed at a station can't be boarded or left there
+  const skippedRouteStops = options.closures?.routeStops.length
+    ? new Set(options.closures.routeStops)
+    : undefined;
+
+  // Step 1: Find stations within walking (or riding) distance of office
+  const nearbyStations = findAccessStations(
     officeLocation.latitude,
     officeLocation.longitude,
-    network.stations,
-    maxWalkDistanceMiles
+    modeNetwork.stations,
+    options.accessMode ?? 'walk',
+    {
+      maxWalkDistanceMiles,
+      accessibleOnly: options.accessibleOnly,
+      bikeShareStations: options.bikeShareStations,
+      streets: options.streets,
+    }
+  ).filter(({ station }) => !closedStationIds.has(station.id));
+
+  // Step 2: Prepare start stations for routing
+  // Each nearby station is seeded with the time it takes to walk or ride there
+  const startStations: StartStation[] = nearbyStations
+    .filter(({ accessTimeSec }) => accessTimeSec < maxTravelTimeSec)
+    .map(({ station, accessTimeSec }) => ({
+      stationId: station.id,
+      walkingTimeSec: accessTimeSec,
+    }));
+  const startAccessModes = new Map<string, AccessMode>(
+    nearbyStations.map(({ station, accessMode }) => [station.id, accessMode])
   );
 
-  if (nearbyStations.length === 0) {
-    return null; // No stations within walking distance
-  }
-
-  // Step 2: Build graph from network
-  const graph = buildGraph(network);
-
-  // Step 3: Prepare start stations for routing
-  // For each nearby station, calculate remaining time after walking to it
-  const startStations: StartStation[] = nearbyStations.map(({ station, walkingTimeSec }) => ({
-    stationId: station.id,
-    remainingTimeSec: maxTravelTimeSec - walkingTimeSec,
-  }));
-
-  // Filter out start stations with negative remaining time
-  const validStartStations = startStations.filter((s) => s.remainingTimeSec > 0);
-
-  if (validStartStations.length === 0) {
-    return null; // No stations reachable within time limit
-  }
-
-  // Step 4: Find all reachable stations using routing algorithm
-  // We need to account for walking time to start stations
-  // For multi-source Dijkstra, we'll track total time from office
-  const reachableStationsMap = new Map<string, number>();
-
-  // Run routing for each start station and track minimum time
-  for (const nearby of nearbyStations) {
-    if (nearby.walkingTimeSec <= maxTravelTimeSec) {
-      const startStation: StartStation[] = [{
-        stationId: nearby.station.id,
-        remainingTimeSec: maxTravelTimeSec - nearby.walkingTimeSec,
-      }];
-
-      const reachableFromStart = findReachableStations(
-        startStation,
-        maxTravelTimeSec - nearby.walkingTimeSec,
-        graph
-      );
-
-      // Update reachable stations with total time (walking + subway)
-      for (const [stationId, subwayTime] of reachableFromStart.entries()) {
-        const totalTime = nearby.walkingTimeSec + subwayTime;
-        const existingTime = reachableStationsMap.get(stationId);
-
-        if (existingTime === undefined || totalTime < existingTime) {
-          reachableStationsMap.set(stationId, totalTime);
-        }
-      }
-    }
+  // Step 3: Find all reachable stations using routing algorithm
+  // Times are total time from office (walking + subway)
+  // For toOffice the search runs on the transposed graph, so times are total time to the office
+  const direction = options.direction ?? 'fromOffice';
+  const delayedNetwork = options.delays ? applyDelays(modeNetwork, options.delays) : modeNetwork;
+  const routingNetwork = options.closures
+    ? applyClosures(delayedNetwork, options.closures)
+    : delayedNetwork;
+  const graph = getGraph(routingNetwork, direction, options.walkingTransferMiles);
+  let reachableStationsMap: Map<string, StationArrival>;
+
+  // Trains pass through stations we can't use (inaccessible in accessible-only mode, or closed)
+  const stopStationIds =
+    options.accessibleOnly || closedStationIds.size > 0
+      ? new Set(
+          modeNetwork.stations
+            .filter((station) => !options.accessibleOnly || station.accessible)
+            .filter((station) => !closedStationIds.has(station.id))
+            .map((station) => station.id)
+        )
+      : undefined;
+
+  if (options.departureTime && routingNetwork.timetable && direction === 'fromOffice') {
+    // Timetable routing includes waiting times for the chosen departure
+    reachableStationsMap = findReachableStationsByTimetable(
+      startStations,
+      maxTravelTimeSec,
+      routingNetwork.timetable,
+      options.departureTime,
+      graph.transfers,
+      graph.walks,
+      stopStationIds,
+      skippedRouteStops
+    );
+  } else {
+    // Without a departure time (or timetable), use median edge times
+    // The timetable router only searches forward in time, so toOffice uses them too
+    reachableStationsMap = findReachableStations(startStations, maxTravelTimeSec, graph, {
+      stopStationIds,
+      skippedRouteStops,
+      waitFactor: options.waitFactor,
+    });
   }
 
   // Convert to ReachableStation array
   const reachableStations: ReachableStation[] = Array.from(
-    reachableStationsMap.entries()
-  ).map(([stationId, travelTimeSec]) => ({
-    stationId,
-    travelTimeSec,
-  }));
-
-  if (reachableStations.length === 0) {
-    return null;
-  }
-
-  // Step 5: Create station lookup map
+    reachableStationsMap.values()
+  ).map((arrival) => {
+    const itinerary = buildItinerary(arrival, direction, startAccessModes);
+    return {
+      stationId: arrival.stationId,
+      travelTimeSec: arrival.timeSec,
+      waitTimeSec: getWaitTimeSec(itinerary),
+      transfers: arrival.transfers,
+      itinerary,
+    };
+  });
+
+  // Step 4: Create station lookup map
   const stationMap = new Map<string, Station>();
-  for (const station of network.stations) {
+  for (const station of modeNetwork.stations) {
     stationMap.set(station.id, station);
   }
 
-  // Step 6: Generate buffers around each reachable station
-  const buffers: GeoJSON.Feature<GeoJSON.Polygon>[] = [];
+  // Step 5: Walk (or ride) from the office and from each station with time left
+  const origins: GridOrigin[] = [
+    { lat: officeLocation.latitude, lon: officeLocation.longitude, timeSec: 0 },
+  ];
   for (const reachable of reachableStations) {
     const station = stationMap.get(reachable.stationId);
-    if (station) {
-      const buffer = generateStationBuffer(station, walkDistanceMiles);
-      buffers.push(buffer);
+    if (station && getWalkRadiusMiles(maxTravelTimeSec - reachable.travelTimeSec, walkDistanceMiles) > 0) {
+      origins.push({ lat: station.lat, lon: station.lon, timeSec: reachable.travelTimeSec });
     }
   }
+  // The bike taken between the office and stations also covers the other end of the trip
+  const grid = createTravelTimeGrid(origins, maxTravelTimeSec, walkDistanceMiles, options.streets, {
+    mode: options.accessMode ?? 'walk',
+    bikeShareStations: options.bikeShareStations,
+  });
 
-  // Step 7: Union all buffers into a single polygon
-  const unionedPolygon = unionBuffers(buffers);
+  return { reachableStations, grid };
+}
 
-  if (!unionedPolygon) {
+/**
+ * Draw the isochrone for a time limit from a travel-time surface
+ * @param maxTravelTimeSec Time limit, up to the one the surface was searched with
+ * @returns Isochrone result with polygon and metadata, or null if nothing is reachable
+ */
+export function getIsochroneFromSurface(
+  surface: TravelTimeSurface,
+  maxTravelTimeSec: number
+): IsochroneResult | null {
+  const polygon = contourTravelTimeGrid(surface.grid, maxTravelTimeSec);
+  if (!polygon) {
     return null;
   }
 
-  // Step 8: Return result
+  const reachableStations = surface.reachableStations.filter(
+    (reachable) => reachable.travelTimeSec <= maxTravelTimeSec
+  );
   return {
-    polygon: unionedPolygon as GeoJSON.Feature<GeoJSON.Polygon>,
+    polygon,
     reachableStations,
     totalStations: reachableStations.length,
+    grid: surface.grid,
   };
 }
 
+/**
+ * Create an isochrone polygon showing all areas reachable from (or able to reach) an office location
+ * The polygon is the contour of the travel-time grid at maxTravelTimeSec; see createTravelTimeSurface
+ * for the parameters
+ * @returns Isochrone result with polygon and metadata, or null if nothing is reachable
+ */
+export function createIsochrone(
+  officeLocation: GeocodeResult,
+  network: ProcessedNetwork,
+  maxTravelTimeSec: number = DEFAULT_MAX_TRAVEL_TIME_SEC,
+  walkDistanceMiles: number = DEFAULT_MAX_WALK_DISTANCE_MILES,
+  maxWalkDistanceMiles: number = DEFAULT_MAX_WALK_DISTANCE_MILES,
+  options: IsochroneOptions = {}
+): IsochroneResult | null {
+  const surface = createTravelTimeSurface(
+    officeLocation,
+    network,
+    maxTravelTimeSec,
+    walkDistanceMiles,
+    maxWalkDistanceMiles,
+    options
+  );
+  return getIsochroneFromSurface(surface, maxTravelTimeSec);
+}
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import type { ProcessedNetwork } from '../types/network';
+import {
+  buildGraph,
+  findReachableStations,
+  DEFAULT_HEADWAY_SEC,
+  DEFAULT_WAIT_FACTOR,
+} from './routing';
+import { buildItinerary } from './itinerary';
+
+// Stations a mile or more apart, so no walks between them
+const station = (id: string, index: number) => ({
+  id,
+  name: id,
+  lat: 40.75 + index * 0.02,
+  lon: -73.98,
+  accessible: false,
+  routesServed: [],
+});
+
+// A -1-> B -1-> C, then C -2-> D
+// Expected wait for edges without a headway
+const WAIT_SEC = DEFAULT_HEADWAY_SEC * DEFAULT_WAIT_FACTOR;
+
+const network: ProcessedNetwork = {
+  stations: ['A', 'B', 'C', 'D'].map(station),
+  edges: [
+    { fromId: 'A', toId: 'B', travelTimeSec: 120, routeId: '1' },
+    { fromId: 'B', toId: 'C', travelTimeSec: 90, routeId: '1' },
+    { fromId: 'C', toId: 'D', travelTimeSec: 60, routeId: '2' },
+  ],
+  transfers: [{ fromId: 'C', toId: 'C', minTransferTimeSec: 200 }],
+};
+
+describe('buildItinerary', () => {
+  it('lists the walk, each ride with its stops, and transfers', () => {
+    const arrivals = findReachableStations(
+      [{ stationId: 'A', walkingTimeSec: 300 }],
+      3600,
+      buildGraph(network)
+    );
+
+    const itinerary = buildItinerary(arrivals.get('D')!);
+
+    expect(itinerary.legs).toEqual([
+      { type: 'walk', fromStationId: null, toStationId: 'A', durationSec: 300 },
+      {
+        type: 'ride',
+        routeId: '1',
+        fromStationId: 'A',
+        toStationId: 'C',
+        stationIds: ['A', 'B', 'C'],
+        stopCount: 2,
+        waitSec: WAIT_SEC,
+        durationSec: 210,
+      },
+      { type: 'transfer', fromStationId: 'C', toStationId: 'C', durationSec: 200 },
+      {
+        type: 'ride',
+        routeId: '2',
+        fromStationId: 'C',
+        toStationId: 'D',
+        stationIds: ['C', 'D'],
+        stopCount: 1,
+        waitSec: WAIT_SEC,
+        durationSec: 60,
+      },
+    ]);
+    expect(itinerary.totalTimeSec).toBe(300 + WAIT_SEC + 210 + 200 + WAIT_SEC + 60);
+  });
+
+  it('has only a walk leg for a start station', () => {
+    const arrivals = findReachableStations(
+      [{ stationId: 'A', walkingTimeSec: 300 }],
+      3600,
+      buildGraph(network)
+    );
+
+    expect(buildItinerary(arrivals.get('A')!).legs).toEqual([
+      { type: 'walk', fromStationId: null, toStationId: 'A', durationSec: 300 },
+    ]);
+  });
+
+  it('lists walks between nearby stations', () => {
+    // E is a short walk from C
+    const walkNetwork: ProcessedNetwork = {
+      ...network,
+      stations: [...network.stations, { ...station('E', 0), lat: network.stations[2].lat + 0.0015 }],
+    };
+    const arrivals = findReachableStations(
+      [{ stationId: 'A', walkingTimeSec: 300 }],
+      3600,
+      buildGraph(walkNetwork)
+    );
+
+    const arrival = arrivals.get('E')!;
+    const legs = buildItinerary(arrival).legs;
+
+    expect(legs.map((leg) => leg.type)).toEqual(['walk', 'ride', 'walk']);
+    expect(legs[2]).toEqual({
+      type: 'walk',
+      fromStationId: 'C',
+      toStationId: 'E',
+      durationSec: arrival.timeSec - arrivals.get('C')!.timeSec,
+    });
+  });
+
+  it('reads from the station to the office for a toOffice search', () => {
+    // Start at D (next to the office) and search the transposed graph
+    const arrivals = findReachableStations(
+      [{ stationId: 'D', walkingTimeSec: 300 }],
+      3600,
+      buildGraph(network, 'toOffice')
+    );
+
+    const itinerary = buildItinerary(arrivals.get('A')!, 'toOffice');
+
+    expect(itinerary.legs.map((leg) => leg.type)).toEqual(['ride', 'transfer', 'ride', 'walk']);
+    expect(itinerary.legs[0]).toMatchObject({
+      routeId: '1',
+      fromStationId: 'A',
+      toStationId: 'C',
+      stationIds: ['A', 'B', 'C'],
+    });
+    expect(itinerary.legs[2]).toMatchObject({ routeId: '2', fromStationId: 'C', toStationId: 'D' });
+    expect(itinerary.legs[3]).toEqual({
+      type: 'walk',
+      fromStationId: 'D',
+      toStationId: null,
+      durationSec: 300,
+    });
+    expect(itinerary.totalTimeSec).toBe(300 + WAIT_SEC + 210 + 200 + WAIT_SEC + 60);
+  });
+
+  it('marks the office leg ridden by bike', () => {
+    const arrivals = findReachableStations(
+      [{ stationId: 'A', walkingTimeSec: 200 }],
+      3600,
+      buildGraph(network)
+    );
+
+    const itinerary = buildItinerary(arrivals.get('B')!, 'fromOffice', new Map([['A', 'bike']]));
+
+    expect(itinerary.legs[0]).toEqual({
+      type: 'walk',
+      fromStationId: null,
+      toStationId: 'A',
+      durationSec: 200,
+      accessMode: 'bike',
+    });
+  });
+});
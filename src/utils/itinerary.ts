@@ -0,0 +1,170 @@
+import type { Edge, Station, Transfer } from '../types/network';
+import type { AccessMode, Itinerary, ItineraryLeg, TravelDirection } from '../types/isochrone';
+import type { StationArrival } from './routing';
+
+/**
+ * One step of the journey in travel order
+ */
+interface Hop {
+  via: Edge | Transfer;
+  fromStationId: string;
+  toStationId: string;
+  durationSec: number; // Time spent including any wait
+}
+
+/**
+ * Reconstruct directions by following an arrival's predecessors
+ * @param arrival Arrival at the destination station, as returned by the router
+ * @param direction toOffice when the arrival came from a search on the transposed graph;
+ *   the path is then walked backwards so the legs read from the station to the office
+ * @param accessModes How each start station is reached from the office (default: on foot)
+ * @returns Itinerary with walk, ride and transfer legs in travel order
+ */
+export function buildItinerary(
+  arrival: StationArrival,
+  direction: TravelDirection = 'fromOffice',
+  accessModes?: Map<string, AccessMode>
+): Itinerary {
+  // Collect the path from the start station to the destination
+  const path: StationArrival[] = [];
+  for (let step: StationArrival | null = arrival; step; step = step.previous) {
+    path.unshift(step);
+  }
+
+  const hops: Hop[] = [];
+  for (let i = 1; i < path.length; i++) {
+    const via = path[i].via;
+    if (!via) continue;
+    hops.push({
+      via,
+      fromStationId: via.fromId,
+      toStationId: via.toId,
+      durationSec: path[i].timeSec - path[i - 1].timeSec,
+    });
+  }
+
+  // Transposed edges point away from the office, so flip them back
+  if (direction === 'toOffice') {
+    hops.reverse();
+    for (const hop of hops) {
+      [hop.fromStationId, hop.toStationId] = [hop.toStationId, hop.fromStationId];
+    }
+  }
+
+  const start = path[0];
+  const accessMode = accessModes?.get(start.stationId) ?? 'walk';
+  const walk: ItineraryLeg = {
+    type: 'walk',
+    fromStationId: direction === 'toOffice' ? start.stationId : null,
+    toStationId: direction === 'toOffice' ? null : start.stationId,
+    durationSec: start.timeSec,
+    ...(accessMode !== 'walk' ? { accessMode } : {}),
+  };
+
+  const legs: ItineraryLeg[] = direction === 'toOffice' ? [] : [walk];
+
+  for (const hop of hops) {
+    const via = hop.via;
+    if (!('routeId' in via)) {
+      legs.push({
+        type: 'transfer',
+        fromStationId: hop.fromStationId,
+        toStationId: hop.toStationId,
+        durationSec: hop.durationSec,
+      });
+      continue;
+    }
+
+    if (via.kind === 'walk') {
+      legs.push({
+        type: 'walk',
+        fromStationId: hop.fromStationId,
+        toStationId: hop.toStationId,
+        durationSec: hop.durationSec,
+      });
+      continue;
+    }
+
+    // Anything beyond the in-vehicle time was spent waiting to board
+    const waitSec = hop.durationSec - via.travelTimeSec;
+
+    // Consecutive hops on the same route are one ride (changing trains always adds a transfer)
+    const lastLeg = legs[legs.length - 1];
+    if (lastLeg?.type === 'ride' && lastLeg.routeId === via.routeId) {
+      lastLeg.toStationId = hop.toStationId;
+      lastLeg.stationIds.push(hop.toStationId);
+      lastLeg.stopCount += 1;
+      lastLeg.waitSec += waitSec;
+      lastLeg.durationSec += via.travelTimeSec;
+      continue;
+    }
+
+    legs.push({
+      type: 'ride',
+      routeId: via.routeId,
+      fromStationId: hop.fromStationId,
+      toStationId: hop.toStationId,
+      stationIds: [hop.fromStationId, hop.toStationId],
+      stopCount: 1,
+      waitSec,
+      durationSec: via.travelTimeSec,
+    });
+  }
+
+  if (direction === 'toOffice') {
+    legs.push(walk);
+  }
+
+  return { legs, totalTimeSec: arrival.timeSec };
+}
+
+/**
+ * Total time an itinerary spends waiting to board
+ */
+export function getWaitTimeSec(itinerary: Itinerary): number {
+  return itinerary.legs.reduce((total, leg) => total + (leg.type === 'ride' ? leg.waitSec : 0), 0);
+}
+
+/**
+ * Format a duration in seconds as whole minutes (e.g. "4 min")
+ */
+export function formatDuration(durationSec: number): string {
+  return `${Math.max(0, Math.round(durationSec / 60))} min`;
+}
+
+/**
+ * Convert an itinerary's ride, transfer and station-to-station walk legs to GeoJSON lines
+ * for highlighting on the map
+ * @param itinerary Itinerary to draw
+ * @param stationMap Station lookup map for coordinates
+ */
+export function itineraryToGeoJSON(
+  itinerary: Itinerary,
+  stationMap: Map<string, Station>
+): GeoJSON.FeatureCollection<GeoJSON.LineString> {
+  const features: GeoJSON.Feature<GeoJSON.LineString>[] = [];
+
+  for (const leg of itinerary.legs) {
+    // Walks to or from the office have no station at one end
+    if (leg.fromStationId === null || leg.toStationId === null) continue;
+
+    const stationIds = leg.type === 'ride' ? leg.stationIds : [leg.fromStationId, leg.toStationId];
+    const coordinates = stationIds
+      .map((id) => stationMap.get(id))
+      .filter((station): station is Station => station !== undefined)
+      .map((station) => [station.lon, station.lat]);
+
+    if (coordinates.length < 2) continue;
+
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates },
+      properties: {
+        legType: leg.type,
+        routeId: leg.type === 'ride' ? leg.routeId : null,
+      },
+    });
+  }
+
+  return { type: 'FeatureCollection', features };
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import type { ProcessedNetwork } from '../types/network';
+import { filterNetworkByModes, getNetworkModes } from './modes';
+
+// The 1 train runs A -> B; the bus:M1 bus runs bus:X -> bus:Y
+const network: ProcessedNetwork = {
+  stations: [
+    { id: 'A', name: 'A', lat: 40.75, lon: -73.98, accessible: false, routesServed: ['1'], mode: 'subway' },
+    { id: 'B', name: 'B', lat: 40.76, lon: -73.98, accessible: false, routesServed: ['1'], mode: 'subway' },
+    { id: 'bus:X', name: 'X', lat: 40.75, lon: -73.97, accessible: true, routesServed: ['M1'], mode: 'bus' },
+    { id: 'bus:Y', name: 'Y', lat: 40.76, lon: -73.97, accessible: true, routesServed: ['M1'], mode: 'bus' },
+  ],
+  edges: [
+    { fromId: 'A', toId: 'B', travelTimeSec: 120, routeId: '1', mode: 'subway', agencyId: 'MTA NYCT' },
+    { fromId: 'bus:X', toId: 'bus:Y', travelTimeSec: 300, routeId: 'bus:M1', mode: 'bus', agencyId: 'bus:MTA' },
+  ],
+  timetable: {
+    services: [],
+    patterns: [
+      { id: 'p1', routeId: '1', stationIds: ['A', 'B'], trips: [] },
+      { id: 'p2', routeId: 'bus:M1', stationIds: ['bus:X', 'bus:Y'], trips: [] },
+    ],
+  },
+  routes: [
+    { id: '1', name: '1', color: '#EE352E', mode: 'subway', agencyId: 'MTA NYCT' },
+    { id: 'bus:M1', name: 'M1', mode: 'bus', agencyId: 'bus:MTA' },
+  ],
+};
+
+describe('getNetworkModes', () => {
+  it('lists the modes in display order', () => {
+    expect(getNetworkModes(network)).toEqual(['subway', 'bus']);
+  });
+
+  it('treats networks without modes as subway only', () => {
+    const subwayOnly: ProcessedNetwork = {
+      stations: [{ id: 'A', name: 'A', lat: 40.75, lon: -73.98, accessible: false, routesServed: ['1'] }],
+      edges: [],
+    };
+
+    expect(getNetworkModes(subwayOnly)).toEqual(['subway']);
+  });
+});
+
+describe('filterNetworkByModes', () => {
+  it('removes the stations, edges and patterns of other modes', () => {
+    const subway = filterNetworkByModes(network, ['subway']);
+
+    expect(subway.stations.map((station) => station.id)).toEqual(['A', 'B']);
+    expect(subway.edges.map((edge) => edge.routeId)).toEqual(['1']);
+    expect(subway.timetable?.patterns.map((pattern) => pattern.id)).toEqual(['p1']);
+  });
+
+  it('returns the same network when every mode is kept', () => {
+    expect(filterNetworkByModes(network, ['subway', 'bus', 'ferry'])).toBe(network);
+  });
+
+  it('reuses the filtered network for the same modes', () => {
+    expect(filterNetworkByModes(network, ['bus'])).toBe(filterNetworkByModes(network, ['bus']));
+  });
+});
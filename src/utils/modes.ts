@@ -0,0 +1,70 @@
+import type { ProcessedNetwork, TransitMode } from '../types/network';
+import { TRANSIT_MODES } from './routeColors';
+
+// Older builds only have the subway, without mode fields
+const DEFAULT_MODE: TransitMode = 'subway';
+
+/**
+ * List the modes a network has, in display order
+ */
+export function getNetworkModes(network: ProcessedNetwork): TransitMode[] {
+  const modes = new Set(network.stations.map((station) => station.mode ?? DEFAULT_MODE));
+  return TRANSIT_MODES.filter((mode) => modes.has(mode));
+}
+
+// Networks limited to some modes, per source network and modes, so their routing graphs are
+// reused while the mode filter stays the same
+const modeNetworkCache = new WeakMap<ProcessedNetwork, Map<string, ProcessedNetwork>>();
+
+/**
+ * Limit a network to some modes
+ * Stations, edges and timetable patterns of other modes are removed, so the router can't ride
+ * them or walk to their stops
+ * @param modes Modes to keep
+ * @returns The limited network, or the same network when it has no other modes
+ */
+export function filterNetworkByModes(
+  network: ProcessedNetwork,
+  modes: TransitMode[]
+): ProcessedNetwork {
+  const kept = new Set(modes);
+  if (getNetworkModes(network).every((mode) => kept.has(mode))) {
+    return network;
+  }
+
+  let cached = modeNetworkCache.get(network);
+  if (!cached) {
+    cached = new Map();
+    modeNetworkCache.set(network, cached);
+  }
+  const cacheKey = TRANSIT_MODES.filter((mode) => kept.has(mode)).join(',');
+  const existing = cached.get(cacheKey);
+  if (existing) {
+    return existing;
+  }
+
+  // A station takes the mode of its main routes, so rides of a kept mode can still end at a
+  // station of another; those are dropped along with the station
+  const stations = network.stations.filter((station) => kept.has(station.mode ?? DEFAULT_MODE));
+  const stationIds = new Set(stations.map((station) => station.id));
+  const routeModes = new Map(network.routes?.map((route) => [route.id, route.mode]));
+
+  const filteredNetwork: ProcessedNetwork = {
+    ...network,
+    stations,
+    edges: network.edges.filter(
+      (edge) =>
+        kept.has(edge.mode ?? DEFAULT_MODE) && stationIds.has(edge.fromId) && stationIds.has(edge.toId)
+    ),
+    timetable: network.timetable && {
+      ...network.timetable,
+      patterns: network.timetable.patterns.filter(
+        (pattern) =>
+          kept.has(routeModes.get(pattern.routeId) ?? DEFAULT_MODE) &&
+          pattern.stationIds.every((stationId) => stationIds.has(stationId))
+      ),
+    },
+  };
+  cached.set(cacheKey, filteredNetwork);
+  return filteredNetwork;
+}
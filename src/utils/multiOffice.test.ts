@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import * as turf from '@turf/turf';
+import type { IsochroneResult } from '../types/isochrone';
+import {
+  intersectIsochrones,
+  findSharedStations,
+  sortByFairness,
+  combineOfficeIsochrones,
+} from './multiOffice';
+
+const square = (minLon: number, minLat: number, size: number) =>
+  turf.polygon([
+    [
+      [minLon, minLat],
+      [minLon + size, minLat],
+      [minLon + size, minLat + size],
+      [minLon, minLat + size],
+      [minLon, minLat],
+    ],
+  ]);
+
+const isochrone = (
+  polygon: GeoJSON.Feature<GeoJSON.Polygon>,
+  times: Record<string, number>
+): IsochroneResult => ({
+  polygon,
+  reachableStations: Object.entries(times).map(([stationId, travelTimeSec]) => ({
+    stationId,
+    travelTimeSec,
+    waitTimeSec: 0,
+    transfers: 0,
+    itinerary: { legs: [], totalTimeSec: travelTimeSec },
+  })),
+  totalStations: Object.keys(times).length,
+});
+
+describe('intersectIsochrones', () => {
+  it('returns the area inside every isochrone', () => {
+    const intersection = intersectIsochrones([
+      isochrone(square(0, 0, 2), {}),
+      isochrone(square(1, 1, 2), {}),
+    ]);
+
+    expect(intersection).not.toBeNull();
+    const [minLon, minLat, maxLon, maxLat] = turf.bbox(intersection!);
+    expect([minLon, minLat, maxLon, maxLat]).toEqual([1, 1, 2, 2]);
+  });
+
+  it('returns null when the isochrones do not overlap', () => {
+    expect(
+      intersectIsochrones([isochrone(square(0, 0, 1), {}), isochrone(square(5, 5, 1), {})])
+    ).toBeNull();
+  });
+});
+
+describe('findSharedStations', () => {
+  it('keeps only stations reachable from every office', () => {
+    const shared = findSharedStations([
+      isochrone(square(0, 0, 1), { A: 600, B: 1200, C: 300 }),
+      isochrone(square(0, 0, 1), { A: 900, B: 300 }),
+    ]);
+
+    expect(shared).toEqual([
+      { stationId: 'A', travelTimesSec: [600, 900], maxTimeSec: 900, differenceSec: 300 },
+      { stationId: 'B', travelTimesSec: [1200, 300], maxTimeSec: 1200, differenceSec: 900 },
+    ]);
+  });
+});
+
+describe('sortByFairness', () => {
+  const stations = findSharedStations([
+    isochrone(square(0, 0, 1), { A: 600, B: 1000, C: 1500 }),
+    isochrone(square(0, 0, 1), { A: 1400, B: 1100, C: 1500 }),
+  ]);
+
+  it('orders by the longest commute', () => {
+    expect(sortByFairness(stations, 'max').map((s) => s.stationId)).toEqual(['B', 'A', 'C']);
+  });
+
+  it('orders by the difference between commutes', () => {
+    expect(sortByFairness(stations, 'difference').map((s) => s.stationId)).toEqual([
+      'C',
+      'B',
+      'A',
+    ]);
+  });
+});
+
+describe('combineOfficeIsochrones', () => {
+  it('returns null if any office has no isochrone', () => {
+    expect(combineOfficeIsochrones([isochrone(square(0, 0, 1), { A: 60 }), null], 'max')).toBeNull();
+  });
+});
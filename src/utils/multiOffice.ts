@@ -0,0 +1,106 @@
+import * as turf from '@turf/turf';
+import type {
+  FairnessMetric,
+  IsochroneResult,
+  MultiOfficeResult,
+  SharedStation,
+} from '../types/isochrone';
+
+/**
+ * Intersect isochrone polygons into the area that is within every budget
+ * @param results Isochrone per office
+ * @returns Intersection polygon, or null if the isochrones don't overlap
+ */
+export function intersectIsochrones(
+  results: IsochroneResult[]
+): GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.MultiPolygon> | null {
+  if (results.length === 0) {
+    return null;
+  }
+
+  if (results.length === 1) {
+    return results[0].polygon;
+  }
+
+  // turf.intersect takes a single FeatureCollection and intersects all features
+  return turf.intersect(turf.featureCollection(results.map((result) => result.polygon)));
+}
+
+/**
+ * Find stations reachable from every office, with each office's commute time
+ * @param results Isochrone per office
+ * @returns Shared stations with their commute times (in office order)
+ */
+export function findSharedStations(results: IsochroneResult[]): SharedStation[] {
+  if (results.length === 0) {
+    return [];
+  }
+
+  const timesByOffice = results.map(
+    (result) =>
+      new Map(result.reachableStations.map((station) => [station.stationId, station.travelTimeSec]))
+  );
+
+  const sharedStations: SharedStation[] = [];
+  for (const stationId of timesByOffice[0].keys()) {
+    const travelTimesSec = timesByOffice.map((times) => times.get(stationId));
+    if (travelTimesSec.some((time) => time === undefined)) continue;
+
+    const times = travelTimesSec as number[];
+    const maxTimeSec = Math.max(...times);
+    sharedStations.push({
+      stationId,
+      travelTimesSec: times,
+      maxTimeSec,
+      differenceSec: maxTimeSec - Math.min(...times),
+    });
+  }
+
+  return sharedStations;
+}
+
+/**
+ * Fairness score of a shared station (lower is fairer)
+ */
+export function getFairness(station: SharedStation, metric: FairnessMetric): number {
+  return metric === 'max' ? station.maxTimeSec : station.differenceSec;
+}
+
+/**
+ * Sort shared stations from fairest to least fair
+ * Ties are broken by the other metric
+ */
+export function sortByFairness(stations: SharedStation[], metric: FairnessMetric): SharedStation[] {
+  const other: FairnessMetric = metric === 'max' ? 'difference' : 'max';
+  return [...stations].sort(
+    (a, b) =>
+      getFairness(a, metric) - getFairness(b, metric) ||
+      getFairness(a, other) - getFairness(b, other)
+  );
+}
+
+/**
+ * Combine the isochrones of several offices
+ * @param results Isochrone per office (null if an office has no reachable area)
+ * @param metric Fairness metric used to order the shared stations
+ * @returns Intersection and shared stations, or null if there is no area within every budget
+ */
+export function combineOfficeIsochrones(
+  results: (IsochroneResult | null)[],
+  metric: FairnessMetric
+): MultiOfficeResult | null {
+  if (results.length === 0 || results.some((result) => result === null)) {
+    return null;
+  }
+
+  const isochrones = results as IsochroneResult[];
+  const polygon = intersectIsochrones(isochrones);
+  if (!polygon) {
+    return null;
+  }
+
+  return {
+    polygon,
+    sharedStations: sortByFairness(findSharedStations(isochrones), metric),
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import type { PlannerState } from '../types/plannerState';
+import { DEFAULT_PLANNER_STATE, formatPlannerState, parsePlannerState } from './plannerState';
+
+const sharedState: PlannerState = {
+  office: { latitude: 40.752726, longitude: -73.977229, placeName: 'Grand Central, New York, NY' },
+  travelTimeMinutes: 45,
+  viewport: { latitude: 40.7128, longitude: -74.006, zoom: 12.5 },
+  direction: 'toOffice',
+  departureInput: '2024-03-04T08:30',
+  accessibleOnly: true,
+  waitFactor: 0.2,
+  profileId: 'weekday-amPeak',
+  hiddenModes: ['bus', 'ferry'],
+  accessMode: 'bikeShare',
+  replayDelays: true,
+  bandMinutes: 5,
+  showHeatmap: true,
+  additionalOffices: [
+    {
+      location: { latitude: 40.7033, longitude: -74.017, placeName: 'Battery Park, New York, NY' },
+      travelTimeMinutes: 60,
+    },
+  ],
+  fairnessMetric: 'difference',
+  selectedStationId: 'mta:631',
+};
+
+describe('formatPlannerState', () => {
+  it('writes nothing for the defaults', () => {
+    expect(formatPlannerState(DEFAULT_PLANNER_STATE)).toBe('');
+  });
+
+  it('writes only settings that differ from the defaults', () => {
+    const params = new URLSearchParams(formatPlannerState({ ...DEFAULT_PLANNER_STATE, travelTimeMinutes: 60 }));
+    expect(Object.fromEntries(params)).toEqual({ time: '60', v: '1' });
+  });
+});
+
+describe('parsePlannerState', () => {
+  it('reads back every setting it wrote', () => {
+    expect(parsePlannerState(`?${formatPlannerState(sharedState)}`)).toEqual(sharedState);
+  });
+
+  it('keeps commas in office names', () => {
+    const params = new URLSearchParams({ also: '40.7,-74,30,Pier 17, 89 South St' });
+    expect(parsePlannerState(params.toString()).additionalOffices[0].location.placeName).toBe('Pier 17, 89 South St');
+  });
+
+  it('opens with the defaults when there are no parameters', () => {
+    expect(parsePlannerState('')).toEqual(DEFAULT_PLANNER_STATE);
+  });
+
+  it('ignores links made for another format version', () => {
+    expect(parsePlannerState('v=2&time=60&office=40.75,-73.98')).toEqual(DEFAULT_PLANNER_STATE);
+  });
+
+  it('keeps the default for each malformed parameter and reads the rest', () => {
+    const state = parsePlannerState(
+      [
+        'office=40.75,abc',
+        'time=25',
+        'map=95,-73.98,11',
+        'dir=sideways',
+        'leave=2024-13-01T08:00',
+        'wait=0.9',
+        'profile=weekday-rushHour',
+        'hide=bus,hovercraft',
+        'access=jetpack',
+        'bands=7',
+        'also=40.7,-74,20,Somewhere',
+        'fair=median',
+        `station=${'x'.repeat(500)}`,
+      ].join('&')
+    );
+
+    expect(state).toEqual({ ...DEFAULT_PLANNER_STATE, hiddenModes: ['bus'] });
+  });
+
+  it('rejects coordinates off the globe', () => {
+    expect(parsePlannerState('office=40.75,-200').office).toBeNull();
+    expect(parsePlannerState('office=40.75').office).toBeNull();
+    expect(parsePlannerState('office=,').office).toBeNull();
+  });
+});
@@ -0,0 +1,260 @@
+import type { GeocodeResult } from '../types/geocoding';
+import type { TransitMode } from '../types/network';
+import type { AccessMode, FairnessMetric, OfficeCommute, TravelDirection } from '../types/isochrone';
+import type { MapViewport, PlannerState } from '../types/plannerState';
+import { ACCESS_MODES } from './access';
+import { CHECKED_APP_WAIT_FACTOR, DEFAULT_WAIT_FACTOR } from './routing';
+import { TRANSIT_MODES } from './routeColors';
+import { getServiceProfile } from './serviceProfiles';
+
+/**
+ * Travel times offered for each office in minutes
+ */
+export const TRAVEL_TIME_OPTIONS_MINUTES = [15, 30, 45, 60];
+
+/**
+ * Minutes between isochrone bands on offer
+ */
+export const BAND_INTERVALS_MINUTES = [5, 10, 15];
+
+/**
+ * Map view before the user moves it, over Midtown
+ */
+export const DEFAULT_VIEWPORT: MapViewport = { latitude: 40.75, longitude: -73.98, zoom: 11 };
+
+/**
+ * Planner state of a fresh visit
+ */
+export const DEFAULT_PLANNER_STATE: PlannerState = {
+  office: null,
+  travelTimeMinutes: 30,
+  viewport: DEFAULT_VIEWPORT,
+  direction: 'fromOffice',
+  departureInput: '',
+  accessibleOnly: false,
+  waitFactor: DEFAULT_WAIT_FACTOR,
+  profileId: null,
+  hiddenModes: [],
+  accessMode: 'walk',
+  replayDelays: false,
+  bandMinutes: 15,
+  showHeatmap: false,
+  additionalOffices: [],
+  fairnessMetric: 'max',
+  selectedStationId: null,
+};
+
+// Version of the URL format; links made for another version open with the defaults
+const PERMALINK_VERSION = '1';
+
+// Longest office name and station ID read from a URL
+const MAX_NAME_LENGTH = 200;
+const MAX_STATION_ID_LENGTH = 100;
+
+// Most additional offices read from a URL
+const MAX_ADDITIONAL_OFFICES = 10;
+
+const WAIT_FACTORS = [DEFAULT_WAIT_FACTOR, CHECKED_APP_WAIT_FACTOR];
+const DIRECTIONS: TravelDirection[] = ['fromOffice', 'toOffice'];
+const FAIRNESS_METRICS: FairnessMetric[] = ['max', 'difference'];
+
+/**
+ * Find the option a URL value names
+ * @returns The option, or undefined if the value names none
+ */
+function parseOption<T extends string | number>(value: string | null, options: readonly T[]): T | undefined {
+  return value === null ? undefined : options.find((option) => String(option) === value);
+}
+
+/**
+ * Read comma-separated numbers, all of which must be finite
+ * @returns The numbers, or null if any is missing or not a number
+ */
+function parseNumbers(value: string | null, count: number): number[] | null {
+  const parts = value?.split(',') ?? [];
+  if (parts.length !== count || parts.some((part) => part.trim() === '')) {
+    return null;
+  }
+  const numbers = parts.map(Number);
+  return numbers.every(Number.isFinite) ? numbers : null;
+}
+
+const isLatitude = (lat: number) => lat >= -90 && lat <= 90;
+const isLongitude = (lon: number) => lon >= -180 && lon <= 180;
+
+/**
+ * Read an office from "lat,lon" and its name
+ */
+function parseOffice(coordinates: string | null, name: string | null): GeocodeResult | null {
+  const numbers = parseNumbers(coordinates, 2);
+  if (!numbers || !isLatitude(numbers[0]) || !isLongitude(numbers[1])) {
+    return null;
+  }
+  return {
+    latitude: numbers[0],
+    longitude: numbers[1],
+    placeName: (name ?? '').slice(0, MAX_NAME_LENGTH),
+  };
+}
+
+/**
+ * Read an additional office from "lat,lon,minutes,name" (the name may hold commas)
+ */
+function parseAdditionalOffice(value: string): OfficeCommute | null {
+  const [lat, lon, minutes, ...name] = value.split(',');
+  const location = parseOffice(`${lat},${lon}`, name.join(','));
+  const travelTimeMinutes = parseOption(minutes ?? null, TRAVEL_TIME_OPTIONS_MINUTES);
+  return location && travelTimeMinutes ? { location, travelTimeMinutes } : null;
+}
+
+/**
+ * Read "lat,lon,zoom"
+ */
+function parseViewport(value: string | null): MapViewport | null {
+  const numbers = parseNumbers(value, 3);
+  if (!numbers) {
+    return null;
+  }
+  const [latitude, longitude, zoom] = numbers;
+  return isLatitude(latitude) && isLongitude(longitude) && zoom >= 0 && zoom <= 22
+    ? { latitude, longitude, zoom }
+    : null;
+}
+
+/**
+ * Read a "Leave at" value, YYYY-MM-DDTHH:mm
+ */
+function parseDepartureInput(value: string | null): string | null {
+  const match = /^\d{4}-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/.exec(value ?? '');
+  if (!match) {
+    return null;
+  }
+  const [month, day, hours, minutes] = match.slice(1).map(Number);
+  return month >= 1 && month <= 12 && day >= 1 && day <= 31 && hours < 24 && minutes < 60
+    ? value
+    : null;
+}
+
+/**
+ * Read the planner state from a URL query string
+ * Each parameter is checked on its own; missing, malformed or out-of-range ones (and every
+ * parameter of a link made for another format version) keep their defaults. Whether the
+ * network has the profile, modes or station named is left to the caller.
+ * @param search Query string, with or without the leading "?"
+ */
+export function parsePlannerState(search: string): PlannerState {
+  const params = new URLSearchParams(search);
+  const state: PlannerState = { ...DEFAULT_PLANNER_STATE };
+  const version = params.get('v');
+  if (version !== null && version !== PERMALINK_VERSION) {
+    return state;
+  }
+
+  state.office = parseOffice(params.get('office'), params.get('name'));
+  state.viewport = parseViewport(params.get('map')) ?? state.viewport;
+  state.travelTimeMinutes =
+    parseOption(params.get('time'), TRAVEL_TIME_OPTIONS_MINUTES) ?? state.travelTimeMinutes;
+  state.direction = parseOption(params.get('dir'), DIRECTIONS) ?? state.direction;
+  state.departureInput = parseDepartureInput(params.get('leave')) ?? state.departureInput;
+  state.accessibleOnly = params.get('stepFree') === '1';
+  state.waitFactor = parseOption(params.get('wait'), WAIT_FACTORS) ?? state.waitFactor;
+  state.profileId = getServiceProfile(params.get('profile') ?? '')?.id ?? null;
+  state.hiddenModes = Array.from(
+    new Set(
+      (params.get('hide') ?? '')
+        .split(',')
+        .map((mode) => parseOption(mode, TRANSIT_MODES))
+        .filter((mode): mode is TransitMode => mode !== undefined)
+    )
+  );
+  state.accessMode =
+    parseOption(params.get('access'), Object.keys(ACCESS_MODES) as AccessMode[]) ?? state.accessMode;
+  state.replayDelays = params.get('delays') === '1';
+  state.bandMinutes = parseOption(params.get('bands'), BAND_INTERVALS_MINUTES) ?? state.bandMinutes;
+  state.showHeatmap = params.get('heatmap') === '1';
+  state.additionalOffices = params
+    .getAll('also')
+    .slice(0, MAX_ADDITIONAL_OFFICES)
+    .map(parseAdditionalOffice)
+    .filter((office): office is OfficeCommute => office !== null);
+  state.fairnessMetric = parseOption(params.get('fair'), FAIRNESS_METRICS) ?? state.fairnessMetric;
+  const stationId = params.get('station');
+  state.selectedStationId =
+    stationId && stationId.length <= MAX_STATION_ID_LENGTH ? stationId : null;
+
+  return state;
+}
+
+/**
+ * Write the planner state as a URL query string, leaving out settings at their defaults
+ * @returns Query string without the leading "?" (empty for the defaults)
+ */
+export function formatPlannerState(state: PlannerState): string {
+  const params = new URLSearchParams();
+  const defaults = DEFAULT_PLANNER_STATE;
+
+  if (state.office) {
+    params.set('office', `${state.office.latitude.toFixed(6)},${state.office.longitude.toFixed(6)}`);
+    if (state.office.placeName) {
+      params.set('name', state.office.placeName);
+    }
+  }
+  const { latitude, longitude, zoom } = state.viewport;
+  if (
+    latitude !== defaults.viewport.latitude ||
+    longitude !== defaults.viewport.longitude ||
+    zoom !== defaults.viewport.zoom
+  ) {
+    params.set('map', `${latitude.toFixed(5)},${longitude.toFixed(5)},${zoom.toFixed(2)}`);
+  }
+  if (state.travelTimeMinutes !== defaults.travelTimeMinutes) {
+    params.set('time', String(state.travelTimeMinutes));
+  }
+  if (state.direction !== defaults.direction) {
+    params.set('dir', state.direction);
+  }
+  if (state.departureInput) {
+    params.set('leave', state.departureInput);
+  }
+  if (state.accessibleOnly) {
+    params.set('stepFree', '1');
+  }
+  if (state.waitFactor !== defaults.waitFactor) {
+    params.set('wait', String(state.waitFactor));
+  }
+  if (state.profileId) {
+    params.set('profile', state.profileId);
+  }
+  if (state.hiddenModes.length > 0) {
+    params.set('hide', state.hiddenModes.join(','));
+  }
+  if (state.accessMode !== defaults.accessMode) {
+    params.set('access', state.accessMode);
+  }
+  if (state.replayDelays) {
+    params.set('delays', '1');
+  }
+  if (state.bandMinutes !== defaults.bandMinutes) {
+    params.set('bands', String(state.bandMinutes));
+  }
+  if (state.showHeatmap) {
+    params.set('heatmap', '1');
+  }
+  for (const { location, travelTimeMinutes } of state.additionalOffices) {
+    params.append(
+      'also',
+      `${location.latitude.toFixed(6)},${location.longitude.toFixed(6)},${travelTimeMinutes},${location.placeName}`
+    );
+  }
+  if (state.fairnessMetric !== defaults.fairnessMetric) {
+    params.set('fair', state.fairnessMetric);
+  }
+  if (state.selectedStationId) {
+    params.set('station', state.selectedStationId);
+  }
+
+  if (Array.from(params.keys()).length > 0) {
+    params.set('v', PERMALINK_VERSION);
+  }
+  return params.toString();
+}
@@ -0,0 +1,84 @@
+/**
+ * Binary min-heap priority queue
+ * Lower priority values are popped first; ties pop in no particular order
+ */
+export class PriorityQueue<T> {
+  private priorities: number[] = [];
+  private items: T[] = [];
+
+  /**
+   * Number of items in the queue
+   */
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Add an item with the given priority
+   */
+  push(item: T, priority: number): void {
+    this.items.push(item);
+    this.priorities.push(priority);
+    this.siftUp(this.items.length - 1);
+  }
+
+  /**
+   * Remove and return the item with the lowest priority
+   * @returns The item, or undefined if the queue is empty
+   */
+  pop(): T | undefined {
+    if (this.items.length === 0) {
+      return undefined;
+    }
+
+    const top = this.items[0];
+    const lastItem = this.items.pop()!;
+    const lastPriority = this.priorities.pop()!;
+
+    if (this.items.length > 0) {
+      this.items[0] = lastItem;
+      this.priorities[0] = lastPriority;
+      this.siftDown(0);
+    }
+
+    return top;
+  }
+
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.priorities[parent] <= this.priorities[index]) {
+        break;
+      }
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    const length = this.items.length;
+    for (;;) {
+      const left = 2 * index + 1;
+      const right = left + 1;
+      let smallest = index;
+
+      if (left < length && this.priorities[left] < this.priorities[smallest]) {
+        smallest = left;
+      }
+      if (right < length && this.priorities[right] < this.priorities[smallest]) {
+        smallest = right;
+      }
+      if (smallest === index) {
+        break;
+      }
+
+      this.swap(index, smallest);
+      index = smallest;
+    }
+  }
+
+  private swap(a: number, b: number): void {
+    [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+  }
+}
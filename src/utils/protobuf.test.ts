@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { decodeProtobufString, readPackedVarints, readProtobufFields } from './protobuf';
+
+describe('readProtobufFields', () => {
+  it('reads varints, including ones past 32 bits', () => {
+    // field 1 = 150, field 2 = 1760000000000 (a millisecond timestamp)
+    const bytes = new Uint8Array([0x08, 0x96, 0x01, 0x10, 0x80, 0x80, 0xb3, 0xc1, 0x9c, 0x33]);
+
+    expect(readProtobufFields(bytes)).toEqual([
+      { fieldNumber: 1, value: 150 },
+      { fieldNumber: 2, value: 1760000000000 },
+    ]);
+  });
+
+  it('reads negative int32 values', () => {
+    // field 1 = -120, sign-extended to ten bytes
+    const bytes = new Uint8Array([0x08, 0x88, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x01]);
+
+    expect(readProtobufFields(bytes)).toEqual([{ fieldNumber: 1, value: -120 }]);
+  });
+
+  it('reads strings and nested messages', () => {
+    // field 2 = "A", field 5 = { field 1 = 3 }
+    const bytes = new Uint8Array([0x12, 0x01, 0x41, 0x2a, 0x02, 0x08, 0x03]);
+    const [text, nested] = readProtobufFields(bytes);
+
+    expect(text.fieldNumber).toBe(2);
+    expect(decodeProtobufString(text.value)).toBe('A');
+    expect(nested.fieldNumber).toBe(5);
+    expect(readProtobufFields(nested.value as Uint8Array)).toEqual([{ fieldNumber: 1, value: 3 }]);
+  });
+
+  it('skips over fixed-width fields', () => {
+    const bytes = new Uint8Array([0x0d, 1, 2, 3, 4, 0x10, 0x07]);
+
+    expect(readProtobufFields(bytes).map((field) => field.fieldNumber)).toEqual([1, 2]);
+  });
+
+  it('rejects truncated input', () => {
+    expect(() => readProtobufFields(new Uint8Array([0x12, 0x05, 0x41]))).toThrow('Truncated');
+  });
+});
+
+describe('readPackedVarints', () => {
+  it('reads a packed field', () => {
+    expect(readPackedVarints(new Uint8Array([0x03, 0x8e, 0x02, 0x9e, 0xa7, 0x05]))).toEqual([
+      3, 270, 86942,
+    ]);
+  });
+
+  it('decodes zigzag values', () => {
+    // 0, -1, 1, -2 and -150
+    const bytes = new Uint8Array([0x00, 0x01, 0x02, 0x03, 0xab, 0x02]);
+
+    expect(readPackedVarints(bytes, true)).toEqual([0, -1, 1, -2, -150]);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * One field of an encoded protobuf message
+ * Varints are numbers, read as signed 64-bit integers (how negative int32 and int64 values are
+ * encoded) and exact up to 2^53. Length-delimited fields (strings, bytes and nested messages)
+ * and fixed-width fields are raw bytes
+ */
+export interface ProtobufField {
+  fieldNumber: number;
+  value: number | Uint8Array;
+}
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+// Varints longer than this many bytes don't fit a double exactly
+const MAX_EXACT_VARINT_BYTES = 7;
+
+/**
+ * Read a varint starting at an offset
+ * @returns The value and the offset after it
+ */
+function readVarint(bytes: Uint8Array, offset: number): [number, number] {
+  let value = 0;
+  let multiplier = 1;
+  const end = Math.min(bytes.length, offset + MAX_EXACT_VARINT_BYTES);
+  for (let i = offset; i < end; i++) {
+    const byte = bytes[i];
+    value += (byte & 0x7f) * multiplier;
+    if ((byte & 0x80) === 0) {
+      return [value, i + 1];
+    }
+    multiplier *= 128;
+  }
+  return readLongVarint(bytes, offset);
+}
+
+/**
+ * Read a varint too long for readVarint's arithmetic as a signed 64-bit integer
+ */
+function readLongVarint(bytes: Uint8Array, offset: number): [number, number] {
+  let value = 0n;
+  let shift = 0n;
+  for (let i = offset; i < bytes.length; i++) {
+    const byte = bytes[i];
+    value |= BigInt(byte & 0x7f) << shift;
+    if ((byte & 0x80) === 0) {
+      return [Number(BigInt.asIntN(64, value)), i + 1];
+    }
+    shift += 7n;
+  }
+  throw new Error('Truncated protobuf varint');
+}
+
+/**
+ * Split an encoded protobuf message into its fields, in order
+ * Decoding a schema is left to the caller: nested messages are decoded by calling this again
+ * on a field's bytes
+ * @throws Error on truncated input or unsupported (group) wire types
+ */
+export function readProtobufFields(bytes: Uint8Array): ProtobufField[] {
+  const fields: ProtobufField[] = [];
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const [key, afterKey] = readVarint(bytes, offset);
+    const fieldNumber = Math.floor(key / 8);
+    const wireType = key % 8;
+    offset = afterKey;
+
+    let length: number;
+    switch (wireType) {
+      case WIRE_VARINT: {
+        const [value, afterValue] = readVarint(bytes, offset);
+        fields.push({ fieldNumber, value });
+        offset = afterValue;
+        continue;
+      }
+      case WIRE_LENGTH_DELIMITED: {
+        const [valueLength, afterLength] = readVarint(bytes, offset);
+        offset = afterLength;
+        length = valueLength;
+        break;
+      }
+      case WIRE_FIXED64:
+        length = 8;
+        break;
+      case WIRE_FIXED32:
+        length = 4;
+        break;
+      default:
+        throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+
+    if (offset + length > bytes.length) {
+      throw new Error('Truncated protobuf field');
+    }
+    fields.push({ fieldNumber, value: bytes.subarray(offset, offset + length) });
+    offset += length;
+  }
+
+  return fields;
+}
+
+/**
+ * Decode a length-delimited field as a UTF-8 string
+ */
+export function decodeProtobufString(value: number | Uint8Array): string {
+  return typeof value === 'number' ? String(value) : new TextDecoder().decode(value);
+}
+
+/**
+ * Decode a packed repeated varint field (e.g. `repeated sint64 refs = 8 [packed = true]`)
+ * @param zigZag Decode sint32/sint64 values, which are zigzag encoded
+ * @throws Error on truncated input
+ */
+export function readPackedVarints(value: number | Uint8Array, zigZag: boolean = false): number[] {
+  if (typeof value === 'number') {
+    return [zigZag ? decodeZigZag(value) : value]; // A single unpacked value
+  }
+
+  const values: number[] = [];
+  let offset = 0;
+  while (offset < value.length) {
+    const [varint, next] = readVarint(value, offset);
+    values.push(zigZag ? decodeZigZag(varint) : varint);
+    offset = next;
+  }
+  return values;
+}
+
+/**
+ * Decode a zigzag-encoded sint32/sint64 value (0, -1, 1, -2... are encoded as 0, 1, 2, 3...)
+ */
+export function decodeZigZag(value: number): number {
+  return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+}
@@ -1,6 +1,8 @@
+import type { Route, TransitMode } from '../types/network';
+
 /**
  * MTA Subway Route Color Mapping
- * Maps route IDs to their standard MTA colors
+ * Maps route IDs to their standard MTA colors; routes of other modes are styled by mode below
  */
 
 export const routeColors: Record<string, string> = {
@@ -49,11 +51,49 @@ export const routeColors: Record<string, string> = {
   '7': '#B933AD',
 };
 
+const DEFAULT_ROUTE_COLOR = '#7C858C';
+
+/**
+ * How routes of a mode are drawn and labelled
+ */
+export interface ModeStyle {
+  label: string;
+  color: string; // Used for routes without a subway color or route_color
+  lineWidth: number;
+  lineDasharray?: number[]; // Dashed lines, so buses don't read as track
+}
+
+export const modeStyles: Record<TransitMode, ModeStyle> = {
+  subway: { label: 'Subway', color: DEFAULT_ROUTE_COLOR, lineWidth: 3 },
+  rail: { label: 'Commuter rail', color: '#0039A6', lineWidth: 4 },
+  tram: { label: 'Tram', color: '#C60C30', lineWidth: 3 },
+  ferry: { label: 'Ferry', color: '#1E88E5', lineWidth: 2, lineDasharray: [3, 2] },
+  bus: { label: 'Bus', color: '#2E7D32', lineWidth: 1.5, lineDasharray: [2, 1] },
+};
+
+/**
+ * Modes in display order
+ */
+export const TRANSIT_MODES: TransitMode[] = ['subway', 'rail', 'tram', 'ferry', 'bus'];
+
 /**
  * Get color for a route ID
+ * Subway routes use the MTA colors; other routes use their route_color, then their mode's color
  * Returns default gray if route not found
+ * @param route The route's entry in the network, when known
+ */
+export function getRouteColor(routeId: string, route?: Pick<Route, 'color' | 'mode'>): string {
+  if (routeColors[routeId]) {
+    return routeColors[routeId];
+  }
+  return route?.color ?? (route ? modeStyles[route.mode].color : DEFAULT_ROUTE_COLOR);
+}
+
+/**
+ * Get the label shown for a route, e.g. on a badge
+ * @param route The route's entry in the network, when known
  */
-export function getRouteColor(routeId: string): string {
-  return routeColors[routeId] || '#7C858C';
+export function getRouteLabel(routeId: string, route?: Pick<Route, 'name'>): string {
+  return route?.name || routeId;
 }
 
@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest';
+import type { ProcessedNetwork } from '../types/network';
+import {
+  buildGraph,
+  getGraph,
+  findReachableStations,
+  DEFAULT_HEADWAY_SEC,
+  DEFAULT_WAIT_FACTOR,
+} from './routing';
+
+// Expected wait for edges without a headway
+const WAIT_SEC = DEFAULT_HEADWAY_SEC * DEFAULT_WAIT_FACTOR;
+
+// Stations a mile or more apart, so no walks between them
+const station = (id: string, index: number) => ({
+  id,
+  name: id,
+  lat: 40.75 + index * 0.02,
+  lon: -73.98,
+  accessible: false,
+  routesServed: [],
+});
+
+// A -1-> B -1-> C, and B -2-> D (changing from 1 to 2 at B)
+const network: ProcessedNetwork = {
+  stations: ['A', 'B', 'C', 'D'].map(station),
+  edges: [
+    { fromId: 'A', toId: 'B', travelTimeSec: 120, routeId: '1' },
+    { fromId: 'B', toId: 'C', travelTimeSec: 120, routeId: '1' },
+    { fromId: 'B', toId: 'D', travelTimeSec: 60, routeId: '2' },
+  ],
+  transfers: [{ fromId: 'B', toId: 'B', minTransferTimeSec: 240 }],
+};
+
+describe('findReachableStations', () => {
+  it('seeds each start station with its walking time', () => {
+    const result = findReachableStations(
+      [
+        { stationId: 'A', walkingTimeSec: 300 },
+        { stationId: 'B', walkingTimeSec: 600 },
+      ],
+      3600,
+      buildGraph(network)
+    );
+
+    expect(result.get('A')?.timeSec).toBe(300);
+    // Riding from A beats walking to B
+    expect(result.get('B')?.timeSec).toBe(300 + WAIT_SEC + 120);
+    expect(result.get('C')?.timeSec).toBe(300 + WAIT_SEC + 240);
+  });
+
+  it('charges the transfer time and boarding wait when changing routes', () => {
+    const result = findReachableStations(
+      [{ stationId: 'A', walkingTimeSec: 0 }],
+      3600,
+      buildGraph(network)
+    );
+
+    expect(result.get('C')).toMatchObject({ timeSec: WAIT_SEC + 240, transfers: 0, routeId: '1' });
+    expect(result.get('D')).toMatchObject({
+      timeSec: WAIT_SEC + 120 + 240 + WAIT_SEC + 60,
+      transfers: 1,
+      routeId: '2',
+    });
+  });
+
+  it('does not count boarding at the start station as a transfer', () => {
+    const result = findReachableStations(
+      [{ stationId: 'B', walkingTimeSec: 0 }],
+      3600,
+      buildGraph(network)
+    );
+
+    expect(result.get('D')).toMatchObject({ timeSec: WAIT_SEC + 60, transfers: 0 });
+  });
+
+  it('waits a fraction of the headway of the route being boarded', () => {
+    const headwayNetwork: ProcessedNetwork = {
+      ...network,
+      edges: network.edges.map((edge) =>
+        edge.routeId === '2' ? { ...edge, headwaySec: 600 } : edge
+      ),
+    };
+
+    const result = findReachableStations(
+      [{ stationId: 'B', walkingTimeSec: 0 }],
+      3600,
+      buildGraph(headwayNetwork),
+      { waitFactor: 0.2 }
+    );
+
+    expect(result.get('C')?.timeSec).toBe(DEFAULT_HEADWAY_SEC * 0.2 + 120);
+    expect(result.get('D')?.timeSec).toBe(600 * 0.2 + 60);
+  });
+
+  it('excludes stations beyond the time limit', () => {
+    const result = findReachableStations(
+      [{ stationId: 'A', walkingTimeSec: 60 }],
+      60 + WAIT_SEC + 120,
+      buildGraph(network)
+    );
+
+    expect(Array.from(result.keys()).sort()).toEqual(['A', 'B']);
+  });
+});
+
+describe('findReachableStations with walks between stations', () => {
+  // E is a short walk from C, on a route that doesn't reach C
+  const walkNetwork: ProcessedNetwork = {
+    stations: [
+      ...network.stations,
+      { ...station('E', 0), lat: network.stations[2].lat + 0.0015 },
+      station('F', 5),
+    ],
+    edges: [...network.edges, { fromId: 'E', toId: 'F', travelTimeSec: 120, routeId: '3' }],
+    transfers: network.transfers,
+  };
+
+  it('walks to a nearby station after a ride and boards there', () => {
+    const result = findReachableStations(
+      [{ stationId: 'A', walkingTimeSec: 0 }],
+      3600,
+      buildGraph(walkNetwork)
+    );
+
+    const walk = result.get('E')!;
+    expect(walk.via).toMatchObject({ fromId: 'C', toId: 'E', kind: 'walk' });
+    expect(walk.timeSec).toBeGreaterThan(WAIT_SEC + 240);
+    expect(result.get('F')).toMatchObject({
+      timeSec: walk.timeSec + WAIT_SEC + 120,
+      transfers: 1,
+    });
+  });
+
+  it('does not walk when walks are disabled', () => {
+    const result = findReachableStations(
+      [{ stationId: 'A', walkingTimeSec: 0 }],
+      3600,
+      buildGraph(walkNetwork, 'fromOffice', 0)
+    );
+
+    expect(result.has('E')).toBe(false);
+  });
+});
+
+describe('findReachableStations on the transposed graph', () => {
+  it('finds stations that can reach the start', () => {
+    const result = findReachableStations(
+      [{ stationId: 'C', walkingTimeSec: 0 }],
+      3600,
+      buildGraph(network, 'toOffice')
+    );
+
+    // A and B ride line 1 to C; D has no way to C
+    expect(result.get('A')?.timeSec).toBe(WAIT_SEC + 240);
+    expect(result.get('B')?.timeSec).toBe(WAIT_SEC + 120);
+    expect(result.has('D')).toBe(false);
+  });
+});
+
+describe('getGraph', () => {
+  it('builds the graph once per network', () => {
+    expect(getGraph(network)).toBe(getGraph(network));
+  });
+
+  it('caches each direction separately', () => {
+    expect(getGraph(network, 'toOffice')).toBe(getGraph(network, 'toOffice'));
+    expect(getGraph(network, 'toOffice')).not.toBe(getGraph(network));
+  });
+});
+
+describe('findReachableStations with stop restrictions', () => {
+  it('rides through stations it cannot stop at', () => {
+    // Only A, C and D can be used; B can't be left, so no change to line 2 there
+    const result = findReachableStations(
+      [{ stationId: 'A', walkingTimeSec: 0 }],
+      3600,
+      buildGraph(network),
+      { stopStationIds: new Set(['A', 'C', 'D']) }
+    );
+
+    expect(result.get('C')?.timeSec).toBe(WAIT_SEC + 240);
+    expect(result.has('B')).toBe(false);
+    expect(result.has('D')).toBe(false);
+  });
+
+  it('rides past a stop its route skips', () => {
+    // Line 1 runs through B without stopping, so C is still reached but line 2 can't be caught at B
+    const result = findReachableStations(
+      [{ stationId: 'A', walkingTimeSec: 0 }],
+      3600,
+      buildGraph(network),
+      { skippedRouteStops: new Set(['1|B']) }
+    );
+
+    expect(result.get('C')?.timeSec).toBe(WAIT_SEC + 240);
+    expect(result.has('B')).toBe(false);
+    expect(result.has('D')).toBe(false);
+  });
+});
@@ -1,107 +1,335 @@
-import type { ProcessedNetwork, Edge } from '../types/network';
-import type { StartStation } from '../types/isochrone';
+import type { ProcessedNetwork, Edge, Transfer } from '../types/network';
+import type { StartStation, TravelDirection } from '../types/isochrone';
+import { PriorityQueue } from './priorityQueue';
+import { generateWalkingEdges, DEFAULT_WALKING_TRANSFER_MILES } from './walkingEdges';
 
 /**
- * Graph representation: adjacency list
- * Map from station ID to array of outgoing edges
+ * Transfer time used when transfers.txt has no entry for a station (most entries are 180s)
  */
-export type Graph = Map<string, Edge[]>;
+export const DEFAULT_TRANSFER_TIME_SEC = 180;
+
+/**
+ * Headway used when an edge has none (older builds, or a single trip in the time band)
+ */
+export const DEFAULT_HEADWAY_SEC = 300;
+
+/**
+ * Expected wait as a fraction of the headway, for someone turning up at random
+ */
+export const DEFAULT_WAIT_FACTOR = 0.5;
+
+/**
+ * Wait factor for someone who checks train times before heading to the platform
+ */
+export const CHECKED_APP_WAIT_FACTOR = 0.2;
+
+/**
+ * Settings for findReachableStations
+ */
+export interface RoutingOptions {
+  stopStationIds?: Set<string>; // Stations where one can board, alight or transfer (default: all)
+  skippedRouteStops?: Set<string>; // Stops a route runs through without stopping, as `${routeId}|${stationId}`
+  waitFactor?: number; // Expected wait as a fraction of the headway (default: DEFAULT_WAIT_FACTOR)
+}
+
+/**
+ * Expected wait before boarding a ride edge
+ * @param edge Ride edge being boarded
+ * @param waitFactor Fraction of the headway spent waiting
+ * @returns Wait in seconds
+ */
+export function getBoardingWaitSec(edge: Edge, waitFactor: number = DEFAULT_WAIT_FACTOR): number {
+  return Math.round((edge.headwaySec ?? DEFAULT_HEADWAY_SEC) * waitFactor);
+}
+
+/**
+ * Graph representation: adjacency lists
+ * edges: station ID -> outgoing ride edges
+ * transfers: station ID -> outgoing transfers (always includes an in-station transfer)
+ * walks: station ID -> outgoing walk edges to nearby stations outside the system
+ */
+export interface Graph {
+  edges: Map<string, Edge[]>;
+  transfers: Map<string, Transfer[]>;
+  walks: Map<string, Edge[]>;
+}
+
+/**
+ * Best known way of arriving at a station
+ * previous/via link back along the path, ending at a start station (previous = null)
+ */
+export interface StationArrival {
+  stationId: string;
+  routeId: string | null; // Route ridden into the station (null if reached on foot)
+  timeSec: number; // Travel time from the start
+  transfers: number; // Number of route changes
+  previous: StationArrival | null; // Arrival this one was reached from
+  via: Edge | Transfer | null; // Ride or walk edge, or transfer, taken from previous
+}
 
 /**
  * Build a graph from the processed network
  * Creates an adjacency list representation for efficient routing
+ * @param network Processed network data
+ * @param direction toOffice builds the transposed graph (every edge and transfer reversed),
+ *   so searching from the office finds stations that can reach it
+ * @param walkingTransferMiles Maximum straight-line walk between nearby stations (0 disables walk edges)
  */
-export function buildGraph(network: ProcessedNetwork): Graph {
-  const graph = new Map<string, Edge[]>();
+export function buildGraph(
+  network: ProcessedNetwork,
+  direction: TravelDirection = 'fromOffice',
+  walkingTransferMiles: number = DEFAULT_WALKING_TRANSFER_MILES
+): Graph {
+  const reverse = direction === 'toOffice';
+  const edgesByStation = new Map<string, Edge[]>();
+  const transfersByStation = new Map<string, Transfer[]>();
+  const walksByStation = new Map<string, Edge[]>();
 
   // Initialize all stations with empty arrays
   for (const station of network.stations) {
-    graph.set(station.id, []);
+    edgesByStation.set(station.id, []);
+    transfersByStation.set(station.id, []);
+    walksByStation.set(station.id, []);
   }
 
   // Add edges to the graph
-  for (const edge of network.edges) {
-    const edges = graph.get(edge.fromId);
+  for (const networkEdge of network.edges) {
+    const edge = reverse
+      ? { ...networkEdge, fromId: networkEdge.toId, toId: networkEdge.fromId }
+      : networkEdge;
+    const edges = edgesByStation.get(edge.fromId);
     if (edges) {
       edges.push(edge);
     }
   }
 
+  // Add transfers from transfers.txt
+  for (const networkTransfer of network.transfers ?? []) {
+    const transfer = reverse
+      ? { ...networkTransfer, fromId: networkTransfer.toId, toId: networkTransfer.fromId }
+      : networkTransfer;
+    const transfers = transfersByStation.get(transfer.fromId);
+    if (transfers && transfersByStation.has(transfer.toId)) {
+      transfers.push(transfer);
+    }
+  }
+
+  // Every station allows changing routes in place, with a default time if not listed
+  for (const [stationId, transfers] of transfersByStation.entries()) {
+    if (!transfers.some((t) => t.toId === stationId)) {
+      transfers.push({
+        fromId: stationId,
+        toId: stationId,
+        minTransferTimeSec: DEFAULT_TRANSFER_TIME_SEC,
+      });
+    }
+  }
+
+  // Add walk edges between nearby stations (generated in both directions, so no need to reverse)
+  for (const edge of generateWalkingEdges(
+    network.stations,
+    network.transfers,
+    walkingTransferMiles
+  )) {
+    walksByStation.get(edge.fromId)?.push(edge);
+  }
+
+  return { edges: edgesByStation, transfers: transfersByStation, walks: walksByStation };
+}
+
+// Graphs built per network and settings, so repeated isochrone calls don't rebuild them
+const graphCache = new WeakMap<ProcessedNetwork, Map<string, Graph>>();
+
+/**
+ * Get the graph for a network, building it on first use
+ */
+export function getGraph(
+  network: ProcessedNetwork,
+  direction: TravelDirection = 'fromOffice',
+  walkingTransferMiles: number = DEFAULT_WALKING_TRANSFER_MILES
+): Graph {
+  let graphs = graphCache.get(network);
+  if (!graphs) {
+    graphs = new Map();
+    graphCache.set(network, graphs);
+  }
+  const key = `${direction}|${walkingTransferMiles}`;
+  let graph = graphs.get(key);
+  if (!graph) {
+    graph = buildGraph(network, direction, walkingTransferMiles);
+    graphs.set(key, graph);
+  }
   return graph;
 }
 
+/**
+ * Routing state: where we are, which route we're riding, and how many times we've boarded
+ */
+interface RouteLabel extends StationArrival {
+  boardings: number;
+}
+
+/**
+ * Key identifying a routing state
+ * On-foot states are split by whether we have boarded yet, so the first boarding isn't
+ * counted as a transfer
+ */
+function stateKey(stationId: string, routeId: string | null, boardings: number): string {
+  if (routeId !== null) {
+    return `${stationId}|${routeId}`;
+  }
+  return boardings === 0 ? `${stationId}|` : `${stationId}|*`;
+}
+
 /**
  * Find all stations reachable within the time limit using multi-source Dijkstra's algorithm
- * @param startStations Array of starting stations with their remaining time
- * @param maxTimeSec Maximum travel time in seconds
+ * Each start station is seeded with its walking time, so one search covers all of them
+ * The search state tracks the current route, so changing routes costs the station's
+ * min_transfer_time (or the walk to a nearby station), and every boarding costs an expected
+ * wait derived from the route's headway
+ * On the transposed graph the wait is charged where the ride ends rather than where it starts;
+ * a route's headway is nearly the same along its length, so totals are unaffected
+ * @param startStations Array of starting stations with their walking time from the office
+ * @param maxTimeSec Maximum total travel time in seconds (walking + waiting + subway)
  * @param graph Graph representation of the network
- * @returns Map of station ID to travel time (only stations within time limit)
+ * @param options Stations one may stop at (trains still run through the others), route stops
+ *   trains skip, and wait factor
+ * @returns Map of station ID to its fastest arrival, timed from the office (only stations within time limit)
  */
 export function findReachableStations(
   startStations: StartStation[],
   maxTimeSec: number,
-  graph: Graph
-): Map<string, number> {
-  // Map to track minimum time to reach each station
-  const dist = new Map<string, number>();
+  graph: Graph,
+  options: RoutingOptions = {}
+): Map<string, StationArrival> {
+  const { stopStationIds, skippedRouteStops, waitFactor = DEFAULT_WAIT_FACTOR } = options;
+  const canStop = (stationId: string) => !stopStationIds || stopStationIds.has(stationId);
+  // Whether a route's trains stop at a station, so it can be boarded or left there
+  const routeStops = (routeId: string, stationId: string) =>
+    !skippedRouteStops || !skippedRouteStops.has(`${routeId}|${stationId}`);
 
-  // Priority queue: [time, stationId]
-  // Using a simple array and sorting - for better performance, could use a heap
-  const queue: Array<[number, string]> = [];
+  // Map to track best label for each state
+  const labels = new Map<string, RouteLabel>();
 
-  // Initialize distances for start stations
+  // Priority queue of labels keyed by time
+  const queue = new PriorityQueue<RouteLabel>();
+
+  const push = (label: RouteLabel) => {
+    const key = stateKey(label.stationId, label.routeId, label.boardings);
+    const existing = labels.get(key);
+    if (existing === undefined || label.timeSec < existing.timeSec) {
+      labels.set(key, label);
+      queue.push(label, label.timeSec);
+    }
+  };
+
+  // Seed start stations with their walking time (on foot, nothing boarded yet)
   for (const start of startStations) {
-    if (start.remainingTimeSec >= 0) {
-      dist.set(start.stationId, 0);
-      queue.push([0, start.stationId]);
+    if (start.walkingTimeSec <= maxTimeSec && canStop(start.stationId)) {
+      push({
+        stationId: start.stationId,
+        routeId: null,
+        timeSec: start.walkingTimeSec,
+        transfers: 0,
+        previous: null,
+        via: null,
+        boardings: 0,
+      });
     }
   }
 
-  // Sort queue by time (priority queue simulation)
-  queue.sort((a, b) => a[0] - b[0]);
-
-  while (queue.length > 0) {
-    // Get station with minimum distance
-    const [currentTime, currentId] = queue.shift()!;
+  while (queue.size > 0) {
+    // Get label with minimum time
+    const current = queue.pop()!;
 
-    // Skip if we've already found a better path
-    const bestTime = dist.get(currentId);
-    if (bestTime !== undefined && currentTime > bestTime) {
+    // Skip if we've already found a better path to this state
+    const best = labels.get(stateKey(current.stationId, current.routeId, current.boardings));
+    if (best !== current) {
       continue;
     }
 
-    // If this station was reached with time <= maxTime, explore neighbors
-    if (currentTime <= maxTimeSec) {
-      const edges = graph.get(currentId);
-      if (edges) {
-        for (const edge of edges) {
-          const newTime = currentTime + edge.travelTimeSec;
-
-          // Only consider if within time limit
-          if (newTime <= maxTimeSec) {
-            const existingTime = dist.get(edge.toId);
-
-            // If we found a shorter path, update it
-            if (existingTime === undefined || newTime < existingTime) {
-              dist.set(edge.toId, newTime);
-              queue.push([newTime, edge.toId]);
-              // Re-sort queue (inefficient but simple - could optimize with heap)
-              queue.sort((a, b) => a[0] - b[0]);
-            }
-          }
+    // Ride: stay on the current route, or board any route when on foot
+    for (const edge of graph.edges.get(current.stationId) ?? []) {
+      if (current.routeId !== null && edge.routeId !== current.routeId) {
+        continue;
+      }
+
+      const boarding = current.routeId === null;
+      if (boarding && !routeStops(edge.routeId, current.stationId)) {
+        continue;
+      }
+      const waitSec = boarding ? getBoardingWaitSec(edge, waitFactor) : 0;
+      const newTime = current.timeSec + waitSec + edge.travelTimeSec;
+
+      // Only consider if within time limit
+      if (newTime <= maxTimeSec) {
+        const boardings = boarding ? current.boardings + 1 : current.boardings;
+        push({
+          stationId: edge.toId,
+          routeId: edge.routeId,
+          timeSec: newTime,
+          transfers: Math.max(0, boardings - 1),
+          previous: current,
+          via: edge,
+          boardings,
+        });
+      }
+    }
+
+    // Transfer: leave the train, optionally walking to a connected station
+    if (
+      current.routeId !== null &&
+      canStop(current.stationId) &&
+      routeStops(current.routeId, current.stationId)
+    ) {
+      for (const transfer of graph.transfers.get(current.stationId) ?? []) {
+        const newTime = current.timeSec + transfer.minTransferTimeSec;
+        if (newTime <= maxTimeSec && canStop(transfer.toId)) {
+          push({
+            stationId: transfer.toId,
+            routeId: null,
+            timeSec: newTime,
+            transfers: current.transfers,
+            previous: current,
+            via: transfer,
+            boardings: current.boardings,
+          });
+        }
+      }
+
+      // Walk: leave the system and walk to a nearby station
+      for (const walk of graph.walks.get(current.stationId) ?? []) {
+        const newTime = current.timeSec + walk.travelTimeSec;
+        if (newTime <= maxTimeSec && canStop(walk.toId)) {
+          push({
+            stationId: walk.toId,
+            routeId: null,
+            timeSec: newTime,
+            transfers: current.transfers,
+            previous: current,
+            via: walk,
+            boardings: current.boardings,
+          });
         }
       }
     }
   }
 
-  // Filter to only include stations within time limit and return as map
-  const result = new Map<string, number>();
-  for (const [stationId, time] of dist.entries()) {
-    if (time <= maxTimeSec) {
-      result.set(stationId, time);
+  // Keep the fastest arrival at each station (fewest transfers on ties)
+  const result = new Map<string, StationArrival>();
+  for (const label of labels.values()) {
+    if (label.timeSec > maxTimeSec || !canStop(label.stationId)) continue;
+    if (label.routeId !== null && !routeStops(label.routeId, label.stationId)) continue;
+
+    const existing = result.get(label.stationId);
+    if (
+      existing === undefined ||
+      label.timeSec < existing.timeSec ||
+      (label.timeSec === existing.timeSec && label.transfers < existing.transfers)
+    ) {
+      result.set(label.stationId, label);
     }
   }
 
   return result;
 }
-
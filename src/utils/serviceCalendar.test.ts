@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import type { FeedInfo } from '../types/network';
+import {
+  departureTimeToUnix,
+  formatServiceDate,
+  getFeedValidity,
+  getTodayServiceDate,
+} from './serviceCalendar';
+
+const feed: FeedInfo = {
+  startDate: '20251208',
+  endDate: '20260516',
+  sourceHash: 'abc',
+  generatedAt: '2025-12-01T00:00:00.000Z',
+};
+
+describe('getFeedValidity', () => {
+  it('is valid from the first to the last service date', () => {
+    expect(getFeedValidity(feed, '20251208')).toBe('valid');
+    expect(getFeedValidity(feed, '20260301')).toBe('valid');
+    expect(getFeedValidity(feed, '20260516')).toBe('valid');
+  });
+
+  it('flags dates before and after the window', () => {
+    expect(getFeedValidity(feed, '20251207')).toBe('notYetValid');
+    expect(getFeedValidity(feed, '20260517')).toBe('expired');
+  });
+});
+
+describe('getTodayServiceDate', () => {
+  it('uses the local calendar date', () => {
+    expect(getTodayServiceDate(new Date(2026, 4, 7, 23, 30))).toBe('20260507');
+  });
+});
+
+describe('formatServiceDate', () => {
+  it('formats a service date for display', () => {
+    expect(formatServiceDate('20260516')).toBe('May 16, 2026');
+  });
+});
+
+describe('departureTimeToUnix', () => {
+  const unix = (iso: string) => Date.parse(iso) / 1000;
+
+  it('reads the time as New York time', () => {
+    expect(departureTimeToUnix({ date: '2026-01-15', timeSec: 8.5 * 3600 })).toBe(unix('2026-01-15T13:30:00Z'));
+    expect(departureTimeToUnix({ date: '2026-07-01', timeSec: 8.5 * 3600 })).toBe(unix('2026-07-01T12:30:00Z'));
+    expect(departureTimeToUnix({ date: '2026-12-31', timeSec: 23 * 3600 + 59 * 60 })).toBe(unix('2027-01-01T04:59:00Z'));
+  });
+
+  it('handles the days daylight saving time starts and ends', () => {
+    expect(departureTimeToUnix({ date: '2026-03-08', timeSec: 1 * 3600 })).toBe(unix('2026-03-08T06:00:00Z'));
+    expect(departureTimeToUnix({ date: '2026-03-08', timeSec: 3 * 3600 })).toBe(unix('2026-03-08T07:00:00Z'));
+    expect(departureTimeToUnix({ date: '2026-11-01', timeSec: 3 * 3600 })).toBe(unix('2026-11-01T08:00:00Z'));
+  });
+});
@@ -0,0 +1,158 @@
+import type { FeedInfo, FeedValidity, ServiceCalendar } from '../types/network';
+import type { DepartureTime } from '../types/isochrone';
+
+/**
+ * Convert an ISO date (YYYY-MM-DD) to a GTFS service date (YYYYMMDD)
+ */
+export function toServiceDate(isoDate: string): string {
+  return isoDate.replace(/-/g, '');
+}
+
+/**
+ * Parse a GTFS service date (YYYYMMDD) into a UTC date
+ * UTC is used so day arithmetic is unaffected by the browser's time zone
+ */
+function parseServiceDate(serviceDate: string): Date {
+  const year = Number(serviceDate.slice(0, 4));
+  const month = Number(serviceDate.slice(4, 6));
+  const day = Number(serviceDate.slice(6, 8));
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Shift a GTFS service date by a number of days
+ * @param serviceDate Date in YYYYMMDD format
+ * @param days Number of days to add (negative to go back)
+ * @returns Shifted date in YYYYMMDD format
+ */
+export function addDays(serviceDate: string, days: number): string {
+  const date = parseServiceDate(serviceDate);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * Get today's date in the browser's time zone as a GTFS service date (YYYYMMDD)
+ */
+export function getTodayServiceDate(now: Date = new Date()): string {
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}${month}${day}`;
+}
+
+/**
+ * Format a GTFS service date for display (e.g. "May 16, 2026")
+ */
+export function formatServiceDate(serviceDate: string): string {
+  return parseServiceDate(serviceDate).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Check whether a date falls within a feed's service window
+ * @param feed Feed metadata from the processed network
+ * @param serviceDate Date in YYYYMMDD format, usually today
+ */
+export function getFeedValidity(feed: FeedInfo, serviceDate: string): FeedValidity {
+  if (serviceDate < feed.startDate) {
+    return 'notYetValid';
+  }
+  if (serviceDate > feed.endDate) {
+    return 'expired';
+  }
+  return 'valid';
+}
+
+/**
+ * Get the day of week for a GTFS service date (0 = Sunday)
+ */
+export function getDayOfWeek(serviceDate: string): number {
+  return parseServiceDate(serviceDate).getUTCDay();
+}
+
+/**
+ * Check whether a service runs on a given date
+ * Exceptions from calendar_dates.txt take precedence over the weekly pattern
+ */
+export function isServiceActive(service: ServiceCalendar, serviceDate: string): boolean {
+  if (service.removedDates.includes(serviceDate)) {
+    return false;
+  }
+  if (service.addedDates.includes(serviceDate)) {
+    return true;
+  }
+  if (serviceDate < service.startDate || serviceDate > service.endDate) {
+    return false;
+  }
+  return service.days[getDayOfWeek(serviceDate)] === true;
+}
+
+/**
+ * Get the IDs of all services running on a given date
+ */
+export function getActiveServiceIds(
+  services: ServiceCalendar[],
+  serviceDate: string
+): Set<string> {
+  const active = new Set<string>();
+  for (const service of services) {
+    if (isServiceActive(service, serviceDate)) {
+      active.add(service.serviceId);
+    }
+  }
+  return active;
+}
+
+/**
+ * Parse a datetime-local input value (YYYY-MM-DDTHH:MM) into a departure time
+ * @returns Departure time, or null if the value is empty or malformed
+ */
+export function parseDepartureTime(value: string): DepartureTime | null {
+  const match = /^(\d{4}-\d{2}-\d{2})T(\d{2}):(\d{2})/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [, date, hours, minutes] = match;
+  return {
+    date,
+    timeSec: Number(hours) * 3600 + Number(minutes) * 60,
+  };
+}
+
+/**
+ * Offset of New York time from UTC at a moment, in milliseconds (negative, e.g. -4 hours in summer)
+ */
+function getNewYorkOffsetMs(timeMs: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: 'America/New_York',
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(timeMs));
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)!.value);
+  const wallTimeMs = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallTimeMs - Math.floor(timeMs / 1000) * 1000;
+}
+
+/**
+ * Convert a departure time, in New York time like the schedule, to Unix seconds
+ * Unaffected by the browser's time zone, so a search from abroad still means New York's clock
+ */
+export function departureTimeToUnix(departure: DepartureTime): number {
+  const [year, month, day] = departure.date.split('-').map(Number);
+  const wallTimeMs = Date.UTC(year, month - 1, day) + departure.timeSec * 1000;
+
+  // The offset is first taken at the wall time read as UTC, which can be on the other side of
+  // a daylight saving change; taking it again at the result settles it
+  const offsetMs = getNewYorkOffsetMs(wallTimeMs - getNewYorkOffsetMs(wallTimeMs));
+  return (wallTimeMs - offsetMs) / 1000;
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import type { ServiceCalendar } from '../types/network';
+import {
+  SERVICE_PROFILES,
+  getServiceDayTypes,
+  getServiceProfile,
+  getTimeBand,
+} from './serviceProfiles';
+
+const service = (days: boolean[], addedDates: string[] = []): ServiceCalendar => ({
+  serviceId: 'S',
+  days,
+  startDate: '20250101',
+  endDate: '20251231',
+  addedDates,
+  removedDates: [],
+});
+
+describe('getTimeBand', () => {
+  it('assigns times to bands', () => {
+    expect(getTimeBand(7 * 3600)).toBe('amPeak');
+    expect(getTimeBand(10 * 3600)).toBe('midday');
+    expect(getTimeBand(17 * 3600 + 1800)).toBe('pmPeak');
+    expect(getTimeBand(23 * 3600)).toBe('evening');
+    expect(getTimeBand(3 * 3600)).toBe('lateNight');
+  });
+
+  it('wraps times past midnight of overnight trips', () => {
+    expect(getTimeBand(25 * 3600)).toBe('lateNight');
+  });
+});
+
+describe('getServiceDayTypes', () => {
+  it('reads day types from the weekly pattern', () => {
+    expect(getServiceDayTypes(service([false, true, true, true, true, true, false]))).toEqual([
+      'weekday',
+    ]);
+    expect(getServiceDayTypes(service([true, false, false, false, false, false, true]))).toEqual([
+      'saturday',
+      'sunday',
+    ]);
+  });
+
+  it('uses added dates for services without a weekly pattern', () => {
+    // 2025-12-25 is a Thursday
+    expect(getServiceDayTypes(service(new Array(7).fill(false), ['20251225']))).toEqual([
+      'weekday',
+    ]);
+  });
+});
+
+describe('getServiceProfile', () => {
+  it('covers every day type and time band', () => {
+    expect(SERVICE_PROFILES).toHaveLength(15);
+    expect(getServiceProfile('sunday-lateNight')).toEqual({
+      id: 'sunday-lateNight',
+      dayType: 'sunday',
+      timeBand: 'lateNight',
+    });
+    expect(getServiceProfile('holiday-amPeak')).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+import type { ServiceCalendar } from '../types/network';
+import type {
+  DayType,
+  ServiceProfile,
+  ServiceProfileId,
+  TimeBand,
+} from '../types/serviceProfile';
+import { getDayOfWeek } from './serviceCalendar';
+
+/**
+ * Day types in display order
+ */
+export const DAY_TYPES: { id: DayType; label: string }[] = [
+  { id: 'weekday', label: 'Weekday' },
+  { id: 'saturday', label: 'Saturday' },
+  { id: 'sunday', label: 'Sunday' },
+];
+
+/**
+ * Time bands in display order, as seconds after midnight [startSec, endSec)
+ */
+export const TIME_BANDS: { id: TimeBand; label: string; startSec: number; endSec: number }[] = [
+  { id: 'amPeak', label: 'AM peak (6–10)', startSec: 6 * 3600, endSec: 10 * 3600 },
+  { id: 'midday', label: 'Midday (10–16)', startSec: 10 * 3600, endSec: 16 * 3600 },
+  { id: 'pmPeak', label: 'PM peak (16–20)', startSec: 16 * 3600, endSec: 20 * 3600 },
+  { id: 'evening', label: 'Evening (20–24)', startSec: 20 * 3600, endSec: 24 * 3600 },
+  { id: 'lateNight', label: 'Late night (0–6)', startSec: 0, endSec: 6 * 3600 },
+];
+
+/**
+ * Build a profile ID from its day type and time band
+ */
+export function getProfileId(dayType: DayType, timeBand: TimeBand): ServiceProfileId {
+  return `${dayType}-${timeBand}`;
+}
+
+/**
+ * Every combination of day type and time band
+ */
+export const SERVICE_PROFILES: ServiceProfile[] = DAY_TYPES.flatMap((dayType) =>
+  TIME_BANDS.map((timeBand) => ({
+    id: getProfileId(dayType.id, timeBand.id),
+    dayType: dayType.id,
+    timeBand: timeBand.id,
+  }))
+);
+
+/**
+ * Look up a profile by ID
+ * @returns The profile, or null for an unknown ID
+ */
+export function getServiceProfile(id: string): ServiceProfile | null {
+  return SERVICE_PROFILES.find((profile) => profile.id === id) ?? null;
+}
+
+/**
+ * Time band of a GTFS time
+ * @param timeSec Seconds after midnight of the service day (may exceed 24h for overnight trips)
+ */
+export function getTimeBand(timeSec: number): TimeBand {
+  const secOfDay = ((timeSec % 86400) + 86400) % 86400;
+  const band = TIME_BANDS.find((b) => secOfDay >= b.startSec && secOfDay < b.endSec);
+  return band!.id;
+}
+
+/**
+ * Day type of a day of the week (0 = Sunday)
+ */
+function dayOfWeekToDayType(dayOfWeek: number): DayType {
+  if (dayOfWeek === 0) return 'sunday';
+  if (dayOfWeek === 6) return 'saturday';
+  return 'weekday';
+}
+
+/**
+ * Day types a service runs on
+ * Services defined only by calendar_dates.txt use the days of week of their added dates
+ * (holiday exceptions to a weekly service don't change its day types)
+ */
+export function getServiceDayTypes(service: ServiceCalendar): DayType[] {
+  const dayTypes = new Set<DayType>();
+  service.days.forEach((runs, dayOfWeek) => {
+    if (runs) dayTypes.add(dayOfWeekToDayType(dayOfWeek));
+  });
+  if (dayTypes.size === 0) {
+    for (const date of service.addedDates) {
+      dayTypes.add(dayOfWeekToDayType(getDayOfWeek(date)));
+    }
+  }
+  return DAY_TYPES.map((dayType) => dayType.id).filter((id) => dayTypes.has(id));
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { locateOnLine, sliceShape } from './shapes';
+
+// A shape running north, then east
+const shape: [number, number][] = [
+  [-73.99, 40.7],
+  [-73.99, 40.71],
+  [-73.99, 40.72],
+  [-73.98, 40.72],
+];
+
+describe('locateOnLine', () => {
+  it('projects a point onto the nearest segment', () => {
+    const position = locateOnLine(shape, [-73.991, 40.705]);
+
+    expect(position?.segmentIndex).toBe(0);
+    expect(position?.point[0]).toBeCloseTo(-73.99);
+    expect(position?.point[1]).toBeCloseTo(40.705);
+  });
+
+  it('only searches from the given segment on', () => {
+    // Nearest to the first segment, but the search starts at the third
+    expect(locateOnLine(shape, [-73.99, 40.701], 2)?.segmentIndex).toBe(2);
+  });
+
+  it('returns null for a line without segments', () => {
+    expect(locateOnLine([[-73.99, 40.7]], [-73.99, 40.7])).toBeNull();
+  });
+});
+
+describe('sliceShape', () => {
+  it('keeps the track between two stops', () => {
+    const slice = sliceShape(shape, [-73.99, 40.705], [-73.985, 40.721]);
+
+    expect(slice).toHaveLength(4);
+    expect(slice![1]).toEqual([-73.99, 40.71]);
+    expect(slice![2]).toEqual([-73.99, 40.72]);
+    expect(slice![3][0]).toBeCloseTo(-73.985);
+    expect(slice![3][1]).toBeCloseTo(40.72);
+  });
+
+  it('does not repeat a stop that sits on a vertex', () => {
+    expect(sliceShape(shape, [-73.99, 40.71], [-73.99, 40.72])).toEqual([
+      [-73.99, 40.71],
+      [-73.99, 40.72],
+    ]);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Nearest point on a polyline to a given point
+ */
+interface LinePosition {
+  segmentIndex: number; // Index of the segment's first vertex
+  point: [number, number]; // [lon, lat]
+}
+
+/**
+ * Find the point on a polyline nearest to a given point
+ * Distances are compared on a plane with longitude scaled by cos(latitude), which is
+ * accurate enough at city scale
+ * @param line Polyline as [lon, lat] vertices
+ * @param point Point to locate as [lon, lat]
+ * @param fromSegment First segment to search, so later stops are found after earlier ones
+ * @returns Nearest position, or null when the line has fewer than two vertices
+ */
+export function locateOnLine(
+  line: [number, number][],
+  point: [number, number],
+  fromSegment = 0
+): LinePosition | null {
+  if (line.length < 2) return null;
+
+  const lonScale = Math.cos((point[1] * Math.PI) / 180);
+  let best: LinePosition | null = null;
+  let bestDistance = Infinity;
+
+  for (let i = Math.max(0, fromSegment); i < line.length - 1; i++) {
+    const [ax, ay] = line[i];
+    const [bx, by] = line[i + 1];
+    const dx = (bx - ax) * lonScale;
+    const dy = by - ay;
+    const px = (point[0] - ax) * lonScale;
+    const py = point[1] - ay;
+
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0 ? Math.min(1, Math.max(0, (px * dx + py * dy) / lengthSquared)) : 0;
+    const distance = (px - t * dx) ** 2 + (py - t * dy) ** 2;
+
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = { segmentIndex: i, point: [ax + t * (bx - ax), ay + t * (by - ay)] };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Cut the part of a shape between two stops
+ * @param shape Shape polyline as [lon, lat] vertices in travel order
+ * @param from Coordinates of the stop the train leaves
+ * @param to Coordinates of the stop the train arrives at
+ * @returns Polyline from the point nearest `from` to the point nearest `to` after it,
+ *   or null when the shape can't be used
+ */
+export function sliceShape(
+  shape: [number, number][],
+  from: [number, number],
+  to: [number, number]
+): [number, number][] | null {
+  const start = locateOnLine(shape, from);
+  if (!start) return null;
+  const end = locateOnLine(shape, to, start.segmentIndex);
+  if (!end) return null;
+
+  // Both stops on one segment (or the end projects behind the start)
+  if (end.segmentIndex === start.segmentIndex) {
+    return [start.point, end.point];
+  }
+
+  const slice = [start.point, ...shape.slice(start.segmentIndex + 1, end.segmentIndex + 1), end.point];
+
+  // A stop on a vertex would repeat it
+  return slice.filter(
+    (point, i) => i === 0 || point[0] !== slice[i - 1][0] || point[1] !== slice[i - 1][1]
+  );
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import type { Station } from '../types/network';
+import { SpatialIndex, getStationIndex } from './spatialIndex';
+import { calculateDistance, calculateWalkingTime, findNearestStations } from './distance';
+import { generateWalkingEdges } from './walkingEdges';
+
+// Stations scattered over Manhattan from a fixed seed, a few of them sharing a spot
+let seed = 42;
+const random = () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+};
+const stations: Station[] = Array.from({ length: 300 }, (_, i) => ({
+  id: `S${i}`,
+  name: `Station ${i}`,
+  lat: 40.7 + random() * 0.1,
+  lon: -74.02 + random() * 0.08,
+  accessible: random() < 0.3,
+  routesServed: [],
+}));
+stations.push({ ...stations[10], id: 'S10b' }, { ...stations[20], id: 'S20b' });
+
+const queries = [
+  { lat: 40.75, lon: -73.98 },
+  { lat: 40.7, lon: -74.02 },
+  { lat: 40.81, lon: -73.93 },
+  { lat: stations[10].lat, lon: stations[10].lon },
+];
+
+// Every station measured, in list order for ties
+const bruteForce = (lat: number, lon: number, radiusMiles: number) =>
+  stations
+    .map((station, index) => ({
+      item: station,
+      index,
+      distanceMiles: calculateDistance(lat, lon, station.lat, station.lon),
+    }))
+    .filter(({ distanceMiles }) => distanceMiles <= radiusMiles)
+    .sort((a, b) => a.distanceMiles - b.distanceMiles || a.index - b.index);
+
+describe('SpatialIndex', () => {
+  const index = new SpatialIndex(stations, (station) => [station.lat, station.lon]);
+
+  it('finds the same stations within a radius as measuring every station', () => {
+    for (const { lat, lon } of queries) {
+      for (const radiusMiles of [0, 0.25, 0.5, 3, Infinity]) {
+        expect(index.withinRadius(lat, lon, radiusMiles)).toEqual(bruteForce(lat, lon, radiusMiles));
+      }
+    }
+  });
+
+  it('finds the same nearest stations as measuring every station', () => {
+    for (const { lat, lon } of queries) {
+      for (const count of [1, 5, 40]) {
+        expect(index.nearest(lat, lon, count)).toEqual(bruteForce(lat, lon, Infinity).slice(0, count));
+        expect(index.nearest(lat, lon, count, 0.3)).toEqual(bruteForce(lat, lon, 0.3).slice(0, count));
+      }
+    }
+  });
+
+  it('finds stations far outside the grid', () => {
+    expect(index.nearest(42.36, -71.06, 2)).toEqual(bruteForce(42.36, -71.06, Infinity).slice(0, 2));
+    expect(index.nearest(42.36, -71.06, 2, 1)).toEqual([]);
+  });
+
+  it('handles empty lists and counts', () => {
+    expect(new SpatialIndex<Station>([], (station) => [station.lat, station.lon]).nearest(40.75, -73.98, 3)).toEqual([]);
+    expect(index.nearest(40.75, -73.98, 0)).toEqual([]);
+    expect(index.nearest(40.75, -73.98, 1000)).toHaveLength(stations.length);
+  });
+});
+
+describe('getStationIndex', () => {
+  it('builds the index once per station list', () => {
+    expect(getStationIndex(stations)).toBe(getStationIndex(stations));
+    expect(getStationIndex([...stations])).not.toBe(getStationIndex(stations));
+  });
+});
+
+describe('indexed station searches', () => {
+  it('findNearestStations matches measuring every station', () => {
+    for (const { lat, lon } of queries) {
+      for (const accessibleOnly of [false, true]) {
+        const expected = bruteForce(lat, lon, 0.5)
+          .filter(({ item }) => !accessibleOnly || item.accessible)
+          .map(({ item, distanceMiles }) => ({
+            station: item,
+            distanceMiles,
+            walkingTimeSec: calculateWalkingTime(distanceMiles),
+          }));
+        expect(findNearestStations(lat, lon, stations, 0.5, accessibleOnly)).toEqual(expected);
+      }
+    }
+  });
+
+  it('generateWalkingEdges matches comparing every pair', () => {
+    const expected = [];
+    for (let i = 0; i < stations.length; i++) {
+      for (let j = i + 1; j < stations.length; j++) {
+        const [from, to] = [stations[i], stations[j]];
+        const distanceMiles = calculateDistance(from.lat, from.lon, to.lat, to.lon);
+        if (distanceMiles > 0.25) continue;
+        const travelTimeSec = calculateWalkingTime(distanceMiles);
+        expected.push(
+          { fromId: from.id, toId: to.id, travelTimeSec, routeId: '', kind: 'walk' },
+          { fromId: to.id, toId: from.id, travelTimeSec, routeId: '', kind: 'walk' }
+        );
+      }
+    }
+
+    expect(expected.length).toBeGreaterThan(0);
+    expect(generateWalkingEdges(stations, [], 0.25)).toEqual(expected);
+  });
+});
@@ -0,0 +1,148 @@
+import * as turf from '@turf/turf';
+import type { Station } from '../types/network';
+
+/**
+ * Default grid cell size in degrees (about 0.7 miles of latitude)
+ */
+export const DEFAULT_CELL_DEGREES = 0.01;
+
+// A degree of latitude is at least this long, so boxes of this many degrees per mile hold
+// every point within range
+const MILES_PER_DEGREE_LAT = 69;
+
+/**
+ * Item found by a spatial query
+ */
+export interface SpatialMatch<T> {
+  item: T;
+  index: number; // Position of the item in the indexed list
+  distanceMiles: number;
+}
+
+/**
+ * Grid of points for radius and nearest-neighbor queries
+ * Queries only measure the points in the cells around them, and return the same results (and
+ * order) as measuring every point
+ */
+export class SpatialIndex<T> {
+  private cells = new Map<string, number[]>();
+  private positions: Array<[number, number]>; // [lat, lon] of each item
+  private minCellX = Infinity;
+  private maxCellX = -Infinity;
+  private minCellY = Infinity;
+  private maxCellY = -Infinity;
+
+  /**
+   * @param items Items to index
+   * @param getPosition Latitude and longitude of an item
+   * @param cellDegrees Grid cell size in degrees; about the usual query radius works best
+   */
+  constructor(
+    private items: T[],
+    getPosition: (item: T) => [number, number],
+    private cellDegrees: number = DEFAULT_CELL_DEGREES
+  ) {
+    this.positions = items.map(getPosition);
+    this.positions.forEach(([lat, lon], index) => {
+      const cellX = Math.floor(lon / cellDegrees);
+      const cellY = Math.floor(lat / cellDegrees);
+      const key = `${cellX},${cellY}`;
+      if (!this.cells.has(key)) {
+        this.cells.set(key, []);
+      }
+      this.cells.get(key)!.push(index);
+      this.minCellX = Math.min(this.minCellX, cellX);
+      this.maxCellX = Math.max(this.maxCellX, cellX);
+      this.minCellY = Math.min(this.minCellY, cellY);
+      this.maxCellY = Math.max(this.maxCellY, cellY);
+    });
+  }
+
+  /**
+   * Number of indexed items
+   */
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Find the items within a distance of a point
+   * @returns Items within radiusMiles, closest first (ties in list order)
+   */
+  withinRadius(lat: number, lon: number, radiusMiles: number): SpatialMatch<T>[] {
+    const latSpan = radiusMiles / MILES_PER_DEGREE_LAT;
+    const maxAbsLat = Math.min(89, Math.abs(lat) + latSpan);
+    const lonSpan = latSpan / Math.cos((maxAbsLat * Math.PI) / 180);
+
+    // Only the cells the box around the point overlaps, and only those holding items
+    const fromX = Math.max(this.minCellX, Math.floor((lon - lonSpan) / this.cellDegrees));
+    const toX = Math.min(this.maxCellX, Math.floor((lon + lonSpan) / this.cellDegrees));
+    const fromY = Math.max(this.minCellY, Math.floor((lat - latSpan) / this.cellDegrees));
+    const toY = Math.min(this.maxCellY, Math.floor((lat + latSpan) / this.cellDegrees));
+
+    const matches: SpatialMatch<T>[] = [];
+    for (let cellX = fromX; cellX <= toX; cellX++) {
+      for (let cellY = fromY; cellY <= toY; cellY++) {
+        for (const index of this.cells.get(`${cellX},${cellY}`) ?? []) {
+          const [itemLat, itemLon] = this.positions[index];
+          // Measured as calculateDistance does, which can't be imported here as it uses the index
+          const distanceMiles = turf.distance(turf.point([lon, lat]), turf.point([itemLon, itemLat]), {
+            units: 'miles',
+          });
+          if (distanceMiles <= radiusMiles) {
+            matches.push({ item: this.items[index], index, distanceMiles });
+          }
+        }
+      }
+    }
+
+    matches.sort((a, b) => a.distanceMiles - b.distanceMiles || a.index - b.index);
+    return matches;
+  }
+
+  /**
+   * Find the items closest to a point
+   * The search widens from one cell until it holds enough items
+   * @param count Number of items to find
+   * @param maxDistanceMiles Leave out items further than this
+   * @returns Up to count items, closest first (ties in list order)
+   */
+  nearest(
+    lat: number,
+    lon: number,
+    count: number,
+    maxDistanceMiles: number = Infinity
+  ): SpatialMatch<T>[] {
+    if (count <= 0 || this.items.length === 0) {
+      return [];
+    }
+    if (count >= this.items.length) {
+      return this.withinRadius(lat, lon, maxDistanceMiles).slice(0, count);
+    }
+
+    let radiusMiles = Math.min(this.cellDegrees * MILES_PER_DEGREE_LAT, maxDistanceMiles);
+    for (;;) {
+      const matches = this.withinRadius(lat, lon, radiusMiles);
+      if (matches.length >= count || radiusMiles >= maxDistanceMiles) {
+        return matches.slice(0, count);
+      }
+      radiusMiles = Math.min(radiusMiles * 2, maxDistanceMiles);
+    }
+  }
+}
+
+// Indexes per station list (a network's stations, or those of some of its modes), built on
+// first use
+const stationIndexCache = new WeakMap<Station[], SpatialIndex<Station>>();
+
+/**
+ * Get the spatial index of a list of stations, building it on first use
+ */
+export function getStationIndex(stations: Station[]): SpatialIndex<Station> {
+  let index = stationIndexCache.get(stations);
+  if (!index) {
+    index = new SpatialIndex(stations, (station) => [station.lat, station.lon]);
+    stationIndexCache.set(stations, index);
+  }
+  return index;
+}
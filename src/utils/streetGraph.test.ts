@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import type { Station } from '../types/network';
+import type { StreetNetwork } from '../types/streets';
+import { findNearestStations } from './distance';
+import {
+  findStreetWalkStations,
+  getStreetWalkDistances,
+  snapToStreet,
+} from './streetGraph';
+
+// Two streets running north on either bank of a river a quarter mile wide, joined by a bridge
+// at their north ends 0.7 miles up
+const streets: StreetNetwork = {
+  nodes: [
+    ...[0, 1, 2, 3, 4, 5].map((i): [number, number] => [-73.98, 40.75 + i * 0.002]),
+    ...[0, 1, 2, 3, 4, 5].map((i): [number, number] => [-73.975, 40.75 + i * 0.002]),
+  ],
+  edges: [
+    ...[0, 1, 2, 3, 4].map((i): [number, number, number] => [i, i + 1, 222]),
+    ...[6, 7, 8, 9, 10].map((i): [number, number, number] => [i, i + 1, 222]),
+    [5, 11, 422],
+  ],
+};
+
+const station = (id: string, lat: number, lon: number): Station => ({
+  id,
+  name: id,
+  lat,
+  lon,
+  accessible: false,
+  routesServed: [],
+});
+
+const office = { lat: 40.75, lon: -73.98 };
+const westStation = station('West', 40.752, -73.98);
+const eastStation = station('East', 40.75, -73.975);
+
+describe('snapToStreet', () => {
+  it('finds the closest node', () => {
+    expect(snapToStreet(streets, 40.7521, -73.9801)?.node).toBe(1);
+  });
+
+  it('does not snap points far from every street', () => {
+    expect(snapToStreet(streets, 40.8, -73.98)).toBeNull();
+  });
+});
+
+describe('getStreetWalkDistances', () => {
+  it('follows the streets around the river', () => {
+    const distances = getStreetWalkDistances(streets, office.lat, office.lon, 5)!;
+
+    // Up the west bank, over the bridge and back down
+    expect(distances.get(6)).toBeCloseTo((222 * 10 + 422) / 1609.344, 3);
+  });
+});
+
+describe('findStreetWalkStations', () => {
+  it('leaves out stations across the river', () => {
+    const stations = [westStation, eastStation];
+    const straight = findNearestStations(office.lat, office.lon, stations, 0.5);
+    const walks = findStreetWalkStations(streets, office.lat, office.lon, stations, 0.5);
+
+    expect(straight.map(({ station }) => station.id)).toEqual(['West', 'East']);
+    expect(walks.map(({ station }) => station.id)).toEqual(['West']);
+  });
+
+  it('falls back to straight lines off the street network', () => {
+    const stations = [station('North', 40.801, -73.98)];
+    const walks = findStreetWalkStations(streets, 40.8, -73.98, stations, 0.5);
+
+    expect(walks).toEqual(findNearestStations(40.8, -73.98, stations, 0.5));
+  });
+});
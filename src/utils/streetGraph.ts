@@ -0,0 +1,146 @@
+import type { Station } from '../types/network';
+import type { StreetNetwork } from '../types/streets';
+import {
+  calculateWalkingTime,
+  findNearestStations,
+  DEFAULT_MAX_WALK_DISTANCE_MILES,
+} from './distance';
+import { PriorityQueue } from './priorityQueue';
+import { SpatialIndex } from './spatialIndex';
+
+/**
+ * Points further than this from any street node aren't snapped, and walks from them fall back
+ * to straight lines
+ */
+export const MAX_SNAP_DISTANCE_MILES = 0.1;
+
+const METERS_PER_MILE = 1609.344;
+
+// Grid cells for snapping, a few times the snap distance
+const CELL_DEGREES = 0.005;
+
+/**
+ * Street network ready for searches: neighbors of each node and a spatial index of nodes
+ */
+interface WalkingGraph {
+  nodes: Array<[number, number]>;
+  adjacency: Array<Array<{ node: number; miles: number }>>;
+  nodeIndex: SpatialIndex<[number, number]>;
+}
+
+// Graphs per street network, built on first use
+const walkingGraphCache = new WeakMap<StreetNetwork, WalkingGraph>();
+
+function getWalkingGraph(streets: StreetNetwork): WalkingGraph {
+  const cached = walkingGraphCache.get(streets);
+  if (cached) {
+    return cached;
+  }
+
+  const adjacency: WalkingGraph['adjacency'] = streets.nodes.map(() => []);
+  for (const [from, to, meters] of streets.edges) {
+    adjacency[from].push({ node: to, miles: meters / METERS_PER_MILE });
+    adjacency[to].push({ node: from, miles: meters / METERS_PER_MILE });
+  }
+
+  const nodeIndex = new SpatialIndex(streets.nodes, ([lon, lat]) => [lat, lon], CELL_DEGREES);
+
+  const graph = { nodes: streets.nodes, adjacency, nodeIndex };
+  walkingGraphCache.set(streets, graph);
+  return graph;
+}
+
+/**
+ * Find the street node closest to a point
+ * @returns The node and the straight-line distance to it, or null if no node is within
+ *   MAX_SNAP_DISTANCE_MILES
+ */
+export function snapToStreet(
+  streets: StreetNetwork,
+  lat: number,
+  lon: number
+): { node: number; distanceMiles: number } | null {
+  const [closest] = getWalkingGraph(streets).nodeIndex.nearest(lat, lon, 1, MAX_SNAP_DISTANCE_MILES);
+  return closest ? { node: closest.index, distanceMiles: closest.distanceMiles } : null;
+}
+
+/**
+ * Walking distance along the streets from a point to every node within a limit
+ * The point is joined to its nearest node in a straight line
+ * @returns Miles to each reached node, or null if the point is off the street network
+ */
+export function getStreetWalkDistances(
+  streets: StreetNetwork,
+  lat: number,
+  lon: number,
+  maxDistanceMiles: number
+): Map<number, number> | null {
+  const start = snapToStreet(streets, lat, lon);
+  if (!start || start.distanceMiles > maxDistanceMiles) {
+    return null;
+  }
+
+  const { adjacency } = getWalkingGraph(streets);
+  const distances = new Map<number, number>([[start.node, start.distanceMiles]]);
+  const settled = new Set<number>();
+  const queue = new PriorityQueue<number>();
+  queue.push(start.node, start.distanceMiles);
+
+  while (queue.size > 0) {
+    const node = queue.pop()!;
+    if (settled.has(node)) continue;
+    settled.add(node);
+
+    const nodeMiles = distances.get(node)!;
+    for (const { node: neighbor, miles } of adjacency[node]) {
+      const neighborMiles = nodeMiles + miles;
+      if (neighborMiles > maxDistanceMiles) continue;
+      if (neighborMiles < (distances.get(neighbor) ?? Infinity)) {
+        distances.set(neighbor, neighborMiles);
+        queue.push(neighbor, neighborMiles);
+      }
+    }
+  }
+  return distances;
+}
+
+/**
+ * Find stations within walking distance of a point along the streets
+ * Straight-line distances are used when the point or a station is off the street network
+ * @returns Stations within walking distance with their walking distances, closest first
+ */
+export function findStreetWalkStations(
+  streets: StreetNetwork,
+  lat: number,
+  lon: number,
+  stations: Station[],
+  maxWalkDistanceMiles: number = DEFAULT_MAX_WALK_DISTANCE_MILES,
+  accessibleOnly: boolean = false
+): Array<{ station: Station; distanceMiles: number; walkingTimeSec: number }> {
+  // A walk along the streets is never shorter than the straight line
+  const candidates = findNearestStations(lat, lon, stations, maxWalkDistanceMiles, accessibleOnly);
+  const distances = getStreetWalkDistances(streets, lat, lon, maxWalkDistanceMiles);
+  if (!distances) {
+    return candidates;
+  }
+
+  const results: Array<{ station: Station; distanceMiles: number; walkingTimeSec: number }> = [];
+  for (const candidate of candidates) {
+    const { station } = candidate;
+    const end = snapToStreet(streets, station.lat, station.lon);
+    if (!end) {
+      results.push(candidate);
+      continue;
+    }
+
+    const toNodeMiles = distances.get(end.node);
+    if (toNodeMiles === undefined) continue;
+    const distanceMiles = toNodeMiles + end.distanceMiles;
+    if (distanceMiles <= maxWalkDistanceMiles) {
+      results.push({ station, distanceMiles, walkingTimeSec: calculateWalkingTime(distanceMiles) });
+    }
+  }
+
+  results.sort((a, b) => a.distanceMiles - b.distanceMiles);
+  return results;
+}
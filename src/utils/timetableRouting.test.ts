@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import type { Timetable, Transfer } from '../types/network';
+import { findReachableStationsByTimetable } from './timetableRouting';
+
+const noTransfers = new Map<string, Transfer[]>();
+
+// A -> B -> C on route 1 every 10 minutes on weekdays, only at 01:00 (25:00) on Saturdays
+// C -> D on route 2 on weekdays at 08:06 and 08:10
+const timetable: Timetable = {
+  services: [
+    {
+      serviceId: 'Weekday',
+      days: [false, true, true, true, true, true, false],
+      startDate: '20260101',
+      endDate: '20261231',
+      addedDates: [],
+      removedDates: ['20260302'],
+    },
+    {
+      serviceId: 'Saturday',
+      days: [false, false, false, false, false, false, true],
+      startDate: '20260101',
+      endDate: '20261231',
+      addedDates: [],
+      removedDates: [],
+    },
+  ],
+  patterns: [
+    {
+      id: '1-0',
+      routeId: '1',
+      stationIds: ['A', 'B', 'C'],
+      trips: [
+        { serviceId: 'Weekday', departures: [8 * 3600, 8 * 3600 + 120, 8 * 3600 + 300] },
+        { serviceId: 'Weekday', departures: [8 * 3600 + 600, 8 * 3600 + 720, 8 * 3600 + 900] },
+        { serviceId: 'Saturday', departures: [25 * 3600, 25 * 3600 + 120, 25 * 3600 + 300] },
+      ],
+    },
+    {
+      id: '2-0',
+      routeId: '2',
+      stationIds: ['C', 'D'],
+      trips: [
+        { serviceId: 'Weekday', departures: [8 * 3600 + 360, 8 * 3600 + 480] },
+        { serviceId: 'Weekday', departures: [8 * 3600 + 600, 8 * 3600 + 720] },
+      ],
+    },
+  ],
+};
+
+describe('findReachableStationsByTimetable', () => {
+  it('includes the wait for the next train', () => {
+    // Tuesday 2026-03-03, leave at 08:01 with a 1 minute walk -> catch the 08:10 train
+    const result = findReachableStationsByTimetable(
+      [{ stationId: 'A', walkingTimeSec: 60 }],
+      30 * 60,
+      timetable,
+      { date: '2026-03-03', timeSec: 8 * 3600 + 60 },
+      noTransfers
+    );
+
+    expect(result.get('A')?.timeSec).toBe(60);
+    expect(result.get('B')?.timeSec).toBe(660);
+    expect(result.get('C')?.timeSec).toBe(840);
+  });
+
+  it('finds no trains on a day without service', () => {
+    // Monday 2026-03-02 is removed from the Weekday service
+    const result = findReachableStationsByTimetable(
+      [{ stationId: 'A', walkingTimeSec: 0 }],
+      30 * 60,
+      timetable,
+      { date: '2026-03-02', timeSec: 8 * 3600 },
+      noTransfers
+    );
+
+    expect(Array.from(result.keys())).toEqual(['A']);
+  });
+
+  it('uses after-midnight trips from the previous service day', () => {
+    // Sunday 2026-03-08 at 00:55 catches Saturday's 25:00 trip
+    const result = findReachableStationsByTimetable(
+      [{ stationId: 'A', walkingTimeSec: 0 }],
+      30 * 60,
+      timetable,
+      { date: '2026-03-08', timeSec: 55 * 60 },
+      noTransfers
+    );
+
+    expect(result.get('C')?.timeSec).toBe(600);
+  });
+
+  it('waits for the transfer time before changing trains', () => {
+    // Arrive at C at 08:05; a 3 minute transfer misses the 08:06 and catches the 08:10
+    const transfers = new Map<string, Transfer[]>([
+      ['C', [{ fromId: 'C', toId: 'C', minTransferTimeSec: 180 }]],
+    ]);
+    const result = findReachableStationsByTimetable(
+      [{ stationId: 'A', walkingTimeSec: 0 }],
+      30 * 60,
+      timetable,
+      { date: '2026-03-03', timeSec: 8 * 3600 },
+      transfers
+    );
+
+    expect(result.get('D')).toMatchObject({ stationId: 'D', routeId: '2', timeSec: 720, transfers: 1 });
+  });
+
+  it('rides past a stop its route skips', () => {
+    // Route 1 runs through B without stopping: C is still reached, B can't be left or boarded
+    const result = findReachableStationsByTimetable(
+      [
+        { stationId: 'A', walkingTimeSec: 0 },
+        { stationId: 'B', walkingTimeSec: 0 },
+      ],
+      30 * 60,
+      timetable,
+      { date: '2026-03-03', timeSec: 8 * 3600 },
+      noTransfers,
+      undefined,
+      undefined,
+      new Set(['1|B'])
+    );
+
+    expect(result.get('B')?.routeId).toBeNull();
+    expect(result.get('C')).toMatchObject({ routeId: '1', timeSec: 300, transfers: 0 });
+    expect(result.get('C')?.previous?.previous?.stationId).toBe('A');
+  });
+
+  it('drops stations beyond the time limit', () => {
+    const result = findReachableStationsByTimetable(
+      [{ stationId: 'A', walkingTimeSec: 0 }],
+      10 * 60,
+      timetable,
+      { date: '2026-03-03', timeSec: 8 * 3600 },
+      noTransfers
+    );
+
+    expect(result.get('B')?.timeSec).toBe(120);
+    expect(result.get('C')?.timeSec).toBe(300);
+
+    const late = findReachableStationsByTimetable(
+      [{ stationId: 'A', walkingTimeSec: 0 }],
+      10 * 60,
+      timetable,
+      { date: '2026-03-03', timeSec: 8 * 3600 + 60 },
+      noTransfers
+    );
+
+    expect(late.has('B')).toBe(false);
+  });
+});
@@ -0,0 +1,287 @@
+import type { Edge, Timetable, TimetableTrip, Transfer, TripPattern } from '../types/network';
+import type { DepartureTime, StartStation } from '../types/isochrone';
+import type { StationArrival } from './routing';
+import { addDays, getActiveServiceIds, toServiceDate } from './serviceCalendar';
+
+const SECONDS_PER_DAY = 24 * 3600;
+
+/**
+ * Maximum number of trips (boardings) considered per journey
+ */
+export const MAX_TIMETABLE_ROUNDS = 6;
+
+/**
+ * A trip running on a specific service day
+ * offsetSec shifts trip times so they count from the moment of departure
+ * (trips of the previous service day are shifted back a further 24 hours)
+ */
+interface TripInstance {
+  trip: TimetableTrip;
+  offsetSec: number;
+}
+
+// Station ID -> [pattern index, stop index] pairs, built once per timetable
+const stationPatternsCache = new WeakMap<Timetable, Map<string, Array<[number, number]>>>();
+
+/**
+ * Index the patterns serving each station
+ */
+function getStationPatterns(timetable: Timetable): Map<string, Array<[number, number]>> {
+  const cached = stationPatternsCache.get(timetable);
+  if (cached) {
+    return cached;
+  }
+
+  const index = new Map<string, Array<[number, number]>>();
+  timetable.patterns.forEach((pattern, patternIdx) => {
+    pattern.stationIds.forEach((stationId, stopIdx) => {
+      if (!index.has(stationId)) {
+        index.set(stationId, []);
+      }
+      index.get(stationId)!.push([patternIdx, stopIdx]);
+    });
+  });
+
+  stationPatternsCache.set(timetable, index);
+  return index;
+}
+
+function departureAt(instance: TripInstance, stopIdx: number): number {
+  return instance.trip.departures[stopIdx] + instance.offsetSec;
+}
+
+function arrivalAt(instance: TripInstance, stopIdx: number): number {
+  const times = instance.trip.arrivals ?? instance.trip.departures;
+  return times[stopIdx] + instance.offsetSec;
+}
+
+/**
+ * Collect the trips of a pattern running around the departure day
+ * Includes the previous service day so after-midnight trips (times past 24:00) are found
+ */
+function getTripInstances(
+  pattern: TripPattern,
+  activeToday: Set<string>,
+  activeYesterday: Set<string>,
+  departSec: number
+): TripInstance[] {
+  const instances: TripInstance[] = [];
+  for (const trip of pattern.trips) {
+    if (activeYesterday.has(trip.serviceId)) {
+      instances.push({ trip, offsetSec: -SECONDS_PER_DAY - departSec });
+    }
+    if (activeToday.has(trip.serviceId)) {
+      instances.push({ trip, offsetSec: -departSec });
+    }
+  }
+  instances.sort((a, b) => departureAt(a, 0) - departureAt(b, 0));
+  return instances;
+}
+
+/**
+ * Find the earliest trip departing a stop at or after a given time
+ * Assumes trips within a pattern don't overtake each other (standard RAPTOR assumption)
+ */
+function findEarliestTrip(
+  instances: TripInstance[],
+  stopIdx: number,
+  earliestSec: number
+): TripInstance | null {
+  let lo = 0;
+  let hi = instances.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (departureAt(instances[mid], stopIdx) < earliestSec) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  return lo < instances.length ? instances[lo] : null;
+}
+
+/**
+ * Find all stations reachable within the time limit using the scheduled timetable (RAPTOR)
+ * Unlike findReachableStations, waiting for the next train is included in travel times
+ * @param startStations Array of starting stations with their walking time from the office
+ * @param maxTimeSec Maximum total travel time in seconds, including walking to the start station
+ * @param timetable Timetable from the processed network
+ * @param departureTime Date and time the journey starts (leaving the office)
+ * @param transfers Transfers by station (see buildGraph); changing trains needs min_transfer_time
+ * @param walks Walk edges to nearby stations by station (see buildGraph)
+ * @param stopStationIds Stations where one can board, alight or transfer (default: all)
+ * @param skippedRouteStops Stops a route runs through without stopping, as `${routeId}|${stationId}`
+ * @returns Map of station ID to its earliest arrival, timed since departure (only stations within time limit)
+ */
+export function findReachableStationsByTimetable(
+  startStations: StartStation[],
+  maxTimeSec: number,
+  timetable: Timetable,
+  departureTime: DepartureTime,
+  transfers: Map<string, Transfer[]>,
+  walks: Map<string, Edge[]> = new Map(),
+  stopStationIds?: Set<string>,
+  skippedRouteStops?: Set<string>
+): Map<string, StationArrival> {
+  const canStop = (stationId: string) => !stopStationIds || stopStationIds.has(stationId);
+  // Whether a route's trains stop at a station, so it can be boarded or left there
+  const routeStops = (routeId: string, stationId: string) =>
+    !skippedRouteStops || !skippedRouteStops.has(`${routeId}|${stationId}`);
+  const serviceDate = toServiceDate(departureTime.date);
+  const activeToday = getActiveServiceIds(timetable.services, serviceDate);
+  const activeYesterday = getActiveServiceIds(timetable.services, addDays(serviceDate, -1));
+
+  // All times below count seconds since departure
+  // Earliest known arrival at each station
+  const earliestArrival = new Map<string, StationArrival>();
+  // Earliest time we can board at each station (arrival plus transfer time after a ride)
+  const readyToBoard = new Map<string, StationArrival>();
+  // Stations whose boarding time improved in the previous round
+  let marked = new Set<string>();
+
+  for (const start of startStations) {
+    if (start.walkingTimeSec > maxTimeSec || !canStop(start.stationId)) continue;
+    const existing = readyToBoard.get(start.stationId);
+    if (existing === undefined || start.walkingTimeSec < existing.timeSec) {
+      const arrival: StationArrival = {
+        stationId: start.stationId,
+        routeId: null,
+        timeSec: start.walkingTimeSec,
+        transfers: 0,
+        previous: null,
+        via: null,
+      };
+      readyToBoard.set(start.stationId, arrival);
+      earliestArrival.set(start.stationId, arrival);
+      marked.add(start.stationId);
+    }
+  }
+
+  const stationPatterns = getStationPatterns(timetable);
+  const instancesCache = new Map<number, TripInstance[]>();
+
+  // Each round allows one more boarding; round N arrivals used N transfers
+  for (let round = 0; round < MAX_TIMETABLE_ROUNDS && marked.size > 0; round++) {
+    // Board using boarding times from the previous round only
+    const previousReady = new Map(readyToBoard);
+
+    // Patterns to scan, with the first stop index at which a marked station appears
+    const patternsToScan = new Map<number, number>();
+    for (const stationId of marked) {
+      for (const [patternIdx, stopIdx] of stationPatterns.get(stationId) ?? []) {
+        const existing = patternsToScan.get(patternIdx);
+        if (existing === undefined || stopIdx < existing) {
+          patternsToScan.set(patternIdx, stopIdx);
+        }
+      }
+    }
+
+    const arrivedByTrain = new Set<string>();
+
+    for (const [patternIdx, firstStopIdx] of patternsToScan.entries()) {
+      const pattern = timetable.patterns[patternIdx];
+      let instances = instancesCache.get(patternIdx);
+      if (!instances) {
+        instances = getTripInstances(pattern, activeToday, activeYesterday, departureTime.timeSec);
+        instancesCache.set(patternIdx, instances);
+      }
+      if (instances.length === 0) continue;
+
+      let currentTrip: TripInstance | null = null;
+      // Arrival at the previous stop of the current trip (or where we boarded it)
+      let rideArrival: StationArrival | null = null;
+
+      for (let stopIdx = firstStopIdx; stopIdx < pattern.stationIds.length; stopIdx++) {
+        const stationId = pattern.stationIds[stopIdx];
+
+        // Alight: improve arrival at this station
+        if (currentTrip && rideArrival) {
+          const arrivalSec = arrivalAt(currentTrip, stopIdx);
+          const arrival: StationArrival = {
+            stationId,
+            routeId: pattern.routeId,
+            timeSec: arrivalSec,
+            transfers: round,
+            previous: rideArrival,
+            via: {
+              fromId: pattern.stationIds[stopIdx - 1],
+              toId: stationId,
+              travelTimeSec: arrivalSec - departureAt(currentTrip, stopIdx - 1),
+              routeId: pattern.routeId,
+            },
+          };
+          rideArrival = arrival;
+
+          const existing = earliestArrival.get(stationId);
+          if (
+            arrivalSec <= maxTimeSec &&
+            canStop(stationId) &&
+            routeStops(pattern.routeId, stationId) &&
+            (existing === undefined || arrivalSec < existing.timeSec)
+          ) {
+            earliestArrival.set(stationId, arrival);
+            arrivedByTrain.add(stationId);
+          }
+        }
+
+        // Board: catch an earlier trip if we were here in time for it
+        const ready = previousReady.get(stationId);
+        if (
+          ready !== undefined &&
+          routeStops(pattern.routeId, stationId) &&
+          (!currentTrip || ready.timeSec <= departureAt(currentTrip, stopIdx))
+        ) {
+          const earlierTrip = findEarliestTrip(instances, stopIdx, ready.timeSec);
+          if (earlierTrip && departureAt(earlierTrip, stopIdx) <= maxTimeSec) {
+            currentTrip = earlierTrip;
+            rideArrival = ready;
+          }
+        }
+      }
+    }
+
+    // Transfers: change platforms, or walk to a connected or nearby station, before boarding again
+    const nextMarked = new Set<string>();
+    for (const stationId of arrivedByTrain) {
+      const arrival = earliestArrival.get(stationId)!;
+      const footpaths: (Transfer | Edge)[] = [
+        ...(transfers.get(stationId) ?? []),
+        ...(walks.get(stationId) ?? []),
+      ];
+      for (const footpath of footpaths) {
+        const durationSec =
+          'minTransferTimeSec' in footpath ? footpath.minTransferTimeSec : footpath.travelTimeSec;
+        const readySec = arrival.timeSec + durationSec;
+        if (readySec > maxTimeSec || !canStop(footpath.toId)) continue;
+
+        const ready: StationArrival = {
+          stationId: footpath.toId,
+          routeId: null,
+          timeSec: readySec,
+          transfers: round,
+          previous: arrival,
+          via: footpath,
+        };
+
+        const existingReady = readyToBoard.get(footpath.toId);
+        if (existingReady === undefined || readySec < existingReady.timeSec) {
+          readyToBoard.set(footpath.toId, ready);
+          nextMarked.add(footpath.toId);
+        }
+
+        // Walking to another station also reaches it
+        const existingArrival = earliestArrival.get(footpath.toId);
+        if (
+          footpath.toId !== stationId &&
+          (existingArrival === undefined || readySec < existingArrival.timeSec)
+        ) {
+          earliestArrival.set(footpath.toId, ready);
+        }
+      }
+    }
+
+    marked = nextMarked;
+  }
+
+  return earliestArrival;
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import * as turf from '@turf/turf';
+import type { StreetNetwork } from '../types/streets';
+import { calculateDistance, calculateWalkingTime } from './distance';
+import {
+  GRID_LAT_STEP,
+  GRID_LON_STEP,
+  createTravelTimeGrid,
+  contourTravelTimeGrid,
+} from './travelTimeGrid';
+import type { GridOrigin } from './travelTimeGrid';
+
+// The office, and a station 0.7 miles north reached after 10 minutes
+const origins: GridOrigin[] = [
+  { lat: 40.75, lon: -73.98, timeSec: 0 },
+  { lat: 40.76, lon: -73.98, timeSec: 600 },
+];
+
+describe('createTravelTimeGrid', () => {
+  const grid = createTravelTimeGrid(origins, 1800, 0.5);
+
+  it('holds the quickest walk from any origin at each point', () => {
+    for (let row = 0; row < grid.rows; row += 7) {
+      for (let column = 0; column < grid.columns; column += 5) {
+        const lat = grid.south + row * grid.latStep;
+        const lon = grid.west + column * grid.lonStep;
+        const walks = origins
+          .map((origin) => ({ origin, miles: calculateDistance(origin.lat, origin.lon, lat, lon) }))
+          .filter(({ miles }) => miles <= 0.5)
+          .map(({ origin, miles }) => origin.timeSec + calculateWalkingTime(miles));
+
+        expect(grid.timesSec[row * grid.columns + column]).toBe(walks.length > 0 ? Math.min(...walks) : null);
+      }
+    }
+  });
+
+  it('leaves a ring of unreached points around the walks', () => {
+    for (let column = 0; column < grid.columns; column++) {
+      expect(grid.timesSec[column]).toBeNull();
+      expect(grid.timesSec[(grid.rows - 1) * grid.columns + column]).toBeNull();
+    }
+  });
+
+  it('skips origins reached at the time limit', () => {
+    const officeOnly = createTravelTimeGrid(origins, 600, 0.5);
+    const northLat = officeOnly.south + (officeOnly.rows - 1) * officeOnly.latStep;
+
+    // The office's walk and the ring around it
+    expect(calculateDistance(40.75, -73.98, northLat, -73.98)).toBeLessThan(0.6);
+  });
+});
+
+describe('contourTravelTimeGrid', () => {
+  const grid = createTravelTimeGrid(origins, 1800, 0.5);
+
+  it('contours nest', () => {
+    const short = contourTravelTimeGrid(grid, 600)!;
+    const long = contourTravelTimeGrid(grid, 1200)!;
+
+    // The office's walk only, then the station's too
+    expect(turf.booleanPointInPolygon([-73.98, 40.76], short)).toBe(false);
+    expect(turf.booleanPointInPolygon([-73.98, 40.76], long)).toBe(true);
+    const outside = turf.difference(turf.featureCollection([short, long]));
+    expect(outside ? turf.area(outside) : 0).toBeLessThan(1);
+  });
+
+  it('is traced where the time runs out', () => {
+    // 5 minutes of walking is a quarter mile
+    const [, , , maxLat] = turf.bbox(contourTravelTimeGrid(grid, 300)!);
+    expect(calculateDistance(40.75, -73.98, maxLat, -73.98)).toBeCloseTo(0.25, 2);
+  });
+
+  it('is null when nothing is reached', () => {
+    expect(contourTravelTimeGrid(createTravelTimeGrid([], 1800, 0.5), 1800)).toBeNull();
+  });
+});
+
+describe('createTravelTimeGrid with streets', () => {
+  // Two streets running north on either bank of a river a quarter mile wide, joined by a bridge
+  // at their north ends 0.7 miles up
+  const streets: StreetNetwork = {
+    nodes: [
+      ...[0, 1, 2, 3, 4, 5].map((i): [number, number] => [-73.98, 40.75 + i * 0.002]),
+      ...[0, 1, 2, 3, 4, 5].map((i): [number, number] => [-73.975, 40.75 + i * 0.002]),
+    ],
+    edges: [
+      ...[0, 1, 2, 3, 4].map((i): [number, number, number] => [i, i + 1, 222]),
+      ...[6, 7, 8, 9, 10].map((i): [number, number, number] => [i, i + 1, 222]),
+      [5, 11, 422],
+    ],
+  };
+
+  it('only reaches the streets on this bank', () => {
+    const area = contourTravelTimeGrid(createTravelTimeGrid([origins[0]], 600, 0.5, streets), 600)!;
+    const straight = contourTravelTimeGrid(createTravelTimeGrid([origins[0]], 600, 0.5), 600)!;
+
+    expect(turf.booleanPointInPolygon([-73.98, 40.756], area)).toBe(true);
+    expect(turf.booleanPointInPolygon([-73.975, 40.75], area)).toBe(false);
+    // In a straight line the far bank is a short walk
+    expect(turf.booleanPointInPolygon([-73.975, 40.75], straight)).toBe(true);
+  });
+});
+
+describe('createTravelTimeGrid with a bike', () => {
+  // Time at a grid point, null outside the grid
+  const timeAt = (grid: ReturnType<typeof createTravelTimeGrid>, lat: number, lon: number) => {
+    const row = Math.round((lat - grid.south) / grid.latStep);
+    const column = Math.round((lon - grid.west) / grid.lonStep);
+    const inGrid = row >= 0 && row < grid.rows && column >= 0 && column < grid.columns;
+    return inGrid ? grid.timesSec[row * grid.columns + column] : null;
+  };
+
+  // A grid point a mile and a half west of the station
+  const lat = 54347 * GRID_LAT_STEP;
+  const lon = -74008 * GRID_LON_STEP;
+  const miles = calculateDistance(40.76, -73.98, lat, lon);
+
+  it('rides from the origins with your own bike', () => {
+    const grid = createTravelTimeGrid([origins[1]], 1800, 0.5, undefined, { mode: 'bike' });
+
+    expect(timeAt(grid, lat, lon)).toBe(600 + calculateWalkingTime(miles, 10) + 60);
+    expect(timeAt(createTravelTimeGrid([origins[1]], 1800, 0.5), lat, lon)).toBeNull();
+  });
+
+  it('only rides as far as the time left allows', () => {
+    // 6 minutes left: a minute to lock up, then under a mile
+    const grid = createTravelTimeGrid([origins[1]], 960, 0.5, undefined, { mode: 'bike' });
+
+    expect(timeAt(grid, lat, lon)).toBeNull();
+    expect(timeAt(grid, lat, -73995 * GRID_LON_STEP)).not.toBeNull();
+  });
+
+  it('rides a shared bike between docks near the origin and the point', () => {
+    const docks = [
+      { id: '1', name: 'Near the station', lat: 40.761, lon: -73.98 },
+      { id: '2', name: 'Near the point', lat: 40.76, lon: -74.007 },
+    ];
+    const grid = createTravelTimeGrid([origins[1]], 1800, 0.5, undefined, {
+      mode: 'bikeShare',
+      bikeShareStations: docks,
+    });
+
+    const expected =
+      600 +
+      calculateWalkingTime(calculateDistance(40.76, -73.98, 40.761, -73.98)) +
+      calculateWalkingTime(calculateDistance(40.761, -73.98, 40.76, -74.007), 8) +
+      120 +
+      calculateWalkingTime(calculateDistance(40.76, -74.007, lat, lon));
+    expect(timeAt(grid, lat, lon)).toBe(expected);
+
+    // Without a dock by the station, only walks
+    const noDock = createTravelTimeGrid([origins[1]], 1800, 0.5, undefined, {
+      mode: 'bikeShare',
+      bikeShareStations: docks.slice(1),
+    });
+    expect(timeAt(noDock, lat, lon)).toBeNull();
+  });
+});
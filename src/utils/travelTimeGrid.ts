@@ -0,0 +1,270 @@
+import * as turf from '@turf/turf';
+import type { AccessMode, TravelTimeGrid } from '../types/isochrone';
+import type { BikeShareStation } from '../types/bikeShare';
+import type { StreetNetwork } from '../types/streets';
+import { ACCESS_MODES, BIKE_SHARE_DOCK_WALK_MILES } from './access';
+import { calculateDistance, calculateWalkingTime, WALKING_SPEED_MPH } from './distance';
+import { getStreetWalkDistances, snapToStreet } from './streetGraph';
+
+/**
+ * Grid spacing in degrees, about 0.05 miles (a minute's walk) each way in New York
+ * Every grid lies on this lattice, so grids from different searches line up
+ */
+export const GRID_LAT_STEP = 0.00075;
+export const GRID_LON_STEP = 0.001;
+
+// A degree of latitude is at least this long, so boxes of this many degrees per mile hold
+// every point within range
+const MILES_PER_DEGREE_LAT = 69;
+
+/**
+ * Place walks start from, with the time taken to get there
+ */
+export interface GridOrigin {
+  lat: number;
+  lon: number;
+  timeSec: number;
+}
+
+/**
+ * How the grid gets from origins to points besides walking
+ */
+export interface GridAccess {
+  mode: AccessMode;
+  bikeShareStations?: BikeShareStation[]; // Docks, needed for bikeShare
+}
+
+/**
+ * Last part of the trip to grid points: from a place reached at timeSec, up to maxMiles at a speed
+ */
+interface GridLeg {
+  lat: number;
+  lon: number;
+  timeSec: number;
+  maxMiles: number;
+  speedMph: number;
+  overheadSec: number;
+  followStreets: boolean; // Walks from origins follow the streets; rides and walks from docks don't
+}
+
+/**
+ * Rides from the origins, as legs: your own bike rides straight from each origin, and a shared
+ * bike is ridden from a dock near an origin to every dock in range, then walked from
+ */
+function getRideLegs(
+  origins: GridOrigin[],
+  maxTravelTimeSec: number,
+  access: GridAccess
+): GridLeg[] {
+  if (access.mode === 'bike') {
+    const { speedMph, maxDistanceMiles, overheadSec } = ACCESS_MODES.bike;
+    return origins.map((origin) => ({
+      ...origin,
+      // No further than the time left allows
+      maxMiles: Math.min(
+        maxDistanceMiles,
+        (Math.max(0, maxTravelTimeSec - origin.timeSec - overheadSec) / 3600) * speedMph
+      ),
+      speedMph,
+      overheadSec,
+      followStreets: false,
+    }));
+  }
+  if (access.mode !== 'bikeShare') {
+    return [];
+  }
+
+  const docks = access.bikeShareStations ?? [];
+  const { speedMph, maxDistanceMiles, overheadSec } = ACCESS_MODES.bikeShare;
+
+  // Quickest time to each dock a ride can start from
+  const startTimes = new Map<BikeShareStation, number>();
+  for (const origin of origins) {
+    for (const dock of docks) {
+      const walkMiles = calculateDistance(origin.lat, origin.lon, dock.lat, dock.lon);
+      if (walkMiles > BIKE_SHARE_DOCK_WALK_MILES) continue;
+      const timeSec = origin.timeSec + calculateWalkingTime(walkMiles);
+      startTimes.set(dock, Math.min(timeSec, startTimes.get(dock) ?? Infinity));
+    }
+  }
+
+  // Quickest time to each dock a ride can end at, walked from within the time limit
+  const endTimes = new Map<BikeShareStation, number>();
+  for (const [start, startTimeSec] of startTimes) {
+    for (const dock of docks) {
+      const rideMiles = calculateDistance(start.lat, start.lon, dock.lat, dock.lon);
+      if (rideMiles > maxDistanceMiles) continue;
+      const timeSec = startTimeSec + calculateWalkingTime(rideMiles, speedMph) + overheadSec;
+      if (timeSec < maxTravelTimeSec) {
+        endTimes.set(dock, Math.min(timeSec, endTimes.get(dock) ?? Infinity));
+      }
+    }
+  }
+
+  return Array.from(endTimes, ([dock, timeSec]) => ({
+    lat: dock.lat,
+    lon: dock.lon,
+    timeSec,
+    maxMiles: BIKE_SHARE_DOCK_WALK_MILES,
+    speedMph: WALKING_SPEED_MPH,
+    overheadSec: 0,
+    followStreets: false,
+  }));
+}
+
+/**
+ * Build the travel-time grid around some origins
+ * Each point gets the quickest time over the origins plus the walk to it, for walks of up to
+ * walkDistanceMiles; times past maxTravelTimeSec are kept so contours at the limit land between
+ * points. With streets, walks follow the street network where both ends are on it. With a bike
+ * access mode, points can also be ridden to from the origins as they are between the office and
+ * stations, in straight lines.
+ * @param origins Office and reached stations; those reached at or after maxTravelTimeSec are skipped
+ * @param access Bike ridden from the origins (default: walk only)
+ * @returns Grid covering every walk and ride, with a ring of unreached points around it
+ */
+export function createTravelTimeGrid(
+  origins: GridOrigin[],
+  maxTravelTimeSec: number,
+  walkDistanceMiles: number,
+  streets?: StreetNetwork,
+  access: GridAccess = { mode: 'walk' }
+): TravelTimeGrid {
+  const startingOrigins = origins.filter((origin) => origin.timeSec < maxTravelTimeSec);
+  if (startingOrigins.length === 0) {
+    return {
+      west: 0,
+      south: 0,
+      lonStep: GRID_LON_STEP,
+      latStep: GRID_LAT_STEP,
+      columns: 0,
+      rows: 0,
+      timesSec: [],
+      maxTravelTimeSec,
+    };
+  }
+
+  const legs: GridLeg[] = [
+    ...startingOrigins.map((origin) => ({
+      ...origin,
+      maxMiles: walkDistanceMiles,
+      speedMph: WALKING_SPEED_MPH,
+      overheadSec: 0,
+      followStreets: Boolean(streets),
+    })),
+    ...getRideLegs(startingOrigins, maxTravelTimeSec, access).filter((leg) => leg.maxMiles > 0),
+  ];
+
+  const latSpanOf = (leg: GridLeg) => leg.maxMiles / MILES_PER_DEGREE_LAT;
+  const lonSpanOf = (leg: GridLeg) => latSpanOf(leg) / Math.cos((leg.lat * Math.PI) / 180);
+
+  // Lattice rows and columns around every walk and ride, plus one on each side
+  let minRow = Infinity;
+  let maxRow = -Infinity;
+  let minColumn = Infinity;
+  let maxColumn = -Infinity;
+  for (const leg of legs) {
+    const { lat, lon } = leg;
+    minRow = Math.min(minRow, Math.floor((lat - latSpanOf(leg)) / GRID_LAT_STEP) - 1);
+    maxRow = Math.max(maxRow, Math.ceil((lat + latSpanOf(leg)) / GRID_LAT_STEP) + 1);
+    minColumn = Math.min(minColumn, Math.floor((lon - lonSpanOf(leg)) / GRID_LON_STEP) - 1);
+    maxColumn = Math.max(maxColumn, Math.ceil((lon + lonSpanOf(leg)) / GRID_LON_STEP) + 1);
+  }
+
+  const columns = maxColumn - minColumn + 1;
+  const rows = maxRow - minRow + 1;
+  const west = minColumn * GRID_LON_STEP;
+  const south = minRow * GRID_LAT_STEP;
+  const timesSec = new Array<number | null>(columns * rows).fill(null);
+
+  // Street node each point snaps to, looked up once per point
+  const snaps = new Map<number, ReturnType<typeof snapToStreet>>();
+  const getSnap = (index: number, lat: number, lon: number) => {
+    if (!snaps.has(index)) {
+      snaps.set(index, snapToStreet(streets!, lat, lon));
+    }
+    return snaps.get(index)!;
+  };
+
+  for (const leg of legs) {
+    const streetDistances = leg.followStreets
+      ? getStreetWalkDistances(streets!, leg.lat, leg.lon, leg.maxMiles)
+      : null;
+    const latSpan = latSpanOf(leg);
+    const lonSpan = lonSpanOf(leg);
+    const fromRow = Math.max(0, Math.ceil((leg.lat - latSpan - south) / GRID_LAT_STEP));
+    const toRow = Math.min(rows - 1, Math.floor((leg.lat + latSpan - south) / GRID_LAT_STEP));
+    const fromColumn = Math.max(0, Math.ceil((leg.lon - lonSpan - west) / GRID_LON_STEP));
+    const toColumn = Math.min(columns - 1, Math.floor((leg.lon + lonSpan - west) / GRID_LON_STEP));
+
+    for (let row = fromRow; row <= toRow; row++) {
+      const lat = south + row * GRID_LAT_STEP;
+      for (let column = fromColumn; column <= toColumn; column++) {
+        const lon = west + column * GRID_LON_STEP;
+        // A walk along the streets is never shorter than the straight line
+        let miles = calculateDistance(leg.lat, leg.lon, lat, lon);
+        if (miles > leg.maxMiles) continue;
+
+        const index = row * columns + column;
+        const snap = streetDistances ? getSnap(index, lat, lon) : null;
+        if (streetDistances && snap) {
+          const toNodeMiles = streetDistances.get(snap.node);
+          if (toNodeMiles === undefined) continue;
+          miles = toNodeMiles + snap.distanceMiles;
+          if (miles > leg.maxMiles) continue;
+        }
+
+        const timeSec = leg.timeSec + calculateWalkingTime(miles, leg.speedMph) + leg.overheadSec;
+        const current = timesSec[index];
+        if (current === null || timeSec < current) {
+          timesSec[index] = timeSec;
+        }
+      }
+    }
+  }
+
+  return {
+    west,
+    south,
+    lonStep: GRID_LON_STEP,
+    latStep: GRID_LAT_STEP,
+    columns,
+    rows,
+    timesSec,
+    maxTravelTimeSec,
+  };
+}
+
+/**
+ * Contour a travel-time grid: the area reached within a time, traced between grid points
+ * Where walks end at the longest walk rather than the time limit, the area can reach up to a
+ * grid step further
+ * @param maxTravelTimeSec Time to contour, up to the grid's maxTravelTimeSec
+ * @returns The area, or null if no point is reached within the time
+ */
+export function contourTravelTimeGrid(
+  grid: TravelTimeGrid,
+  maxTravelTimeSec: number
+): GeoJSON.Feature<GeoJSON.MultiPolygon> | null {
+  if (grid.columns < 2 || grid.rows < 2) {
+    return null;
+  }
+
+  // Unreached points count as just past the limit
+  const points: GeoJSON.Feature<GeoJSON.Point>[] = [];
+  for (let row = 0; row < grid.rows; row++) {
+    const lat = grid.south + row * grid.latStep;
+    for (let column = 0; column < grid.columns; column++) {
+      const timeSec = grid.timesSec[row * grid.columns + column] ?? maxTravelTimeSec + 1;
+      points.push(turf.point([grid.west + column * grid.lonStep, lat], { timeSec }));
+    }
+  }
+
+  const [band] = turf.isobands(turf.featureCollection(points), [-1, maxTravelTimeSec], {
+    zProperty: 'timeSec',
+  }).features;
+  if (!band || band.geometry.coordinates.length === 0) {
+    return null;
+  }
+  return turf.multiPolygon(band.geometry.coordinates);
+}
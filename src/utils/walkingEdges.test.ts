@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import type { Station } from '../types/network';
+import { generateWalkingEdges } from './walkingEdges';
+import { calculateDistance, calculateWalkingTime } from './distance';
+
+const station = (id: string, lat: number): Station => ({
+  id,
+  name: id,
+  lat,
+  lon: -73.98,
+  accessible: false,
+  routesServed: [],
+});
+
+// A and B are about 0.1 miles apart; C is a mile away
+const stations = [station('A', 40.75), station('B', 40.7515), station('C', 40.765)];
+
+describe('generateWalkingEdges', () => {
+  it('connects stations within walking distance in both directions', () => {
+    const edges = generateWalkingEdges(stations, [], 0.25);
+    const walkingTimeSec = calculateWalkingTime(calculateDistance(40.75, -73.98, 40.7515, -73.98));
+
+    expect(edges).toEqual([
+      { fromId: 'A', toId: 'B', travelTimeSec: walkingTimeSec, routeId: '', kind: 'walk' },
+      { fromId: 'B', toId: 'A', travelTimeSec: walkingTimeSec, routeId: '', kind: 'walk' },
+    ]);
+  });
+
+  it('skips stations already connected by transfers.txt', () => {
+    const transfers = [{ fromId: 'B', toId: 'A', minTransferTimeSec: 180 }];
+    expect(generateWalkingEdges(stations, transfers, 0.25)).toEqual([]);
+  });
+
+  it('generates nothing when disabled', () => {
+    expect(generateWalkingEdges(stations, [], 0)).toEqual([]);
+  });
+});
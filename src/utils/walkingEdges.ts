@@ -0,0 +1,55 @@
+import type { Edge, Station, Transfer } from '../types/network';
+import { calculateWalkingTime } from './distance';
+import { getStationIndex } from './spatialIndex';
+
+/**
+ * Default maximum walk between two stations in miles, in a straight line (0.25 miles ≈ 5 minutes
+ * at 3 mph)
+ */
+export const DEFAULT_WALKING_TRANSFER_MILES = 0.25;
+
+/**
+ * Generate walk edges between stations close enough to walk between outside the system
+ * Distances and walking times are straight-line, not along the streets. Pairs already connected
+ * by transfers.txt are skipped, since those transfers stay in the system
+ * @param stations Stations to connect
+ * @param transfers In-system transfers from the network
+ * @param maxDistanceMiles Maximum walking distance in miles
+ * @returns Walk edges, one in each direction for every pair
+ */
+export function generateWalkingEdges(
+  stations: Station[],
+  transfers: Transfer[] = [],
+  maxDistanceMiles: number = DEFAULT_WALKING_TRANSFER_MILES
+): Edge[] {
+  const edges: Edge[] = [];
+  if (maxDistanceMiles <= 0) {
+    return edges;
+  }
+
+  const connected = new Set<string>();
+  for (const transfer of transfers) {
+    connected.add(`${transfer.fromId}|${transfer.toId}`);
+    connected.add(`${transfer.toId}|${transfer.fromId}`);
+  }
+
+  // Each pair is found from its first station, with partners in list order
+  const index = getStationIndex(stations);
+  stations.forEach((from, i) => {
+    const neighbors = index
+      .withinRadius(from.lat, from.lon, maxDistanceMiles)
+      .filter((match) => match.index > i)
+      .sort((a, b) => a.index - b.index);
+    for (const { item: to, distanceMiles } of neighbors) {
+      if (connected.has(`${from.id}|${to.id}`)) continue;
+
+      const travelTimeSec = calculateWalkingTime(distanceMiles);
+      edges.push(
+        { fromId: from.id, toId: to.id, travelTimeSec, routeId: '', kind: 'walk' },
+        { fromId: to.id, toId: from.id, travelTimeSec, routeId: '', kind: 'walk' }
+      );
+    }
+  });
+
+  return edges;
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import type { ProcessedNetwork } from '../types/network';
+import type { IsochroneWorkerRequest, IsochroneWorkerResponse } from '../types/isochroneWorker';
+
+// The worker's global scope is jsdom's window here: messages go to self.onmessage and replies
+// through self.postMessage
+const responses: IsochroneWorkerResponse[] = [];
+
+const network: ProcessedNetwork = {
+  stations: [
+    { id: 'A', name: 'A', lat: 40.75, lon: -73.98, accessible: false, routesServed: ['1'] },
+    { id: 'B', name: 'B', lat: 40.77, lon: -73.98, accessible: false, routesServed: ['1'] },
+  ],
+  edges: [{ fromId: 'A', toId: 'B', travelTimeSec: 600, routeId: '1' }],
+};
+
+const office = { latitude: 40.7505, longitude: -73.98, placeName: 'Office' };
+
+function send(message: IsochroneWorkerRequest) {
+  self.onmessage!(new MessageEvent('message', { data: message }));
+}
+
+function compute(requestId: number) {
+  send({ type: 'compute', requestId, officeLocation: office, bandsMinutes: [15, 30], options: {} });
+}
+
+async function waitForDone(requestId: number) {
+  await vi.waitFor(() => {
+    expect(responses.some((response) => response.type === 'done' && response.requestId === requestId)).toBe(true);
+  });
+}
+
+const forRequest = (requestId: number) =>
+  responses.filter((response) => response.requestId === requestId).map((response) => response.type);
+
+describe('isochrone worker', () => {
+  beforeAll(async () => {
+    vi.spyOn(self, 'postMessage').mockImplementation((response: IsochroneWorkerResponse) => {
+      responses.push(response);
+    });
+    await import('./isochrone.worker');
+  });
+
+  it('fails every band and finishes when the network is not loaded', async () => {
+    compute(1);
+    await waitForDone(1);
+
+    expect(forRequest(1)).toEqual(['error', 'error', 'done']);
+  });
+
+  it('ignores a cancel that arrives after the request is done', async () => {
+    send({ type: 'init', network });
+    compute(2);
+    await waitForDone(2);
+    send({ type: 'cancel', requestId: 2 });
+
+    // A request reusing the ID runs to the end
+    responses.length = 0;
+    compute(2);
+    await waitForDone(2);
+    const types = forRequest(2);
+    expect(types.filter((type) => type === 'band')).toHaveLength(2);
+    expect(types[types.length - 1]).toBe('done');
+  });
+});
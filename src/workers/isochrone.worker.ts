@@ -0,0 +1,110 @@
+import type { ProcessedNetwork } from '../types/network';
+import type { StreetNetwork } from '../types/streets';
+import type { IsochroneWorkerRequest, IsochroneWorkerResponse } from '../types/isochroneWorker';
+import { createTravelTimeSurface, getIsochroneFromSurface } from '../utils/isochrone';
+import type { TravelTimeSurface } from '../types/isochrone';
+
+/**
+ * Web Worker computing isochrone bands off the main thread
+ * The network is loaded once with an 'init' message (and the street graph, if any, with a
+ * 'streets' message); each 'compute' request searches once for its longest band, reports the
+ * travel-time grid, then draws its bands one at a time and can be cancelled between them
+ */
+
+let network: ProcessedNetwork | null = null;
+let streets: StreetNetwork | null = null;
+// Requests still being computed, and those of them cancelled; cancels for others are ignored
+const activeRequests = new Set<number>();
+const cancelledRequests = new Set<number>();
+
+function post(response: IsochroneWorkerResponse) {
+  self.postMessage(response);
+}
+
+/**
+ * Yield to the event loop so pending messages (e.g. cancel) are handled
+ */
+function yieldToMessages(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+async function computeBands(request: Extract<IsochroneWorkerRequest, { type: 'compute' }>) {
+  const { requestId, officeLocation, bandsMinutes, options } = request;
+  const postError = (minutes: number, err: unknown) => {
+    post({
+      type: 'error',
+      requestId,
+      minutes,
+      message: err instanceof Error ? err.message : 'Unknown error',
+    });
+  };
+  const isCancelled = () => cancelledRequests.has(requestId);
+
+  await yieldToMessages();
+  if (isCancelled()) return;
+
+  // One search for the longest band; the shorter ones are contours of the same grid.
+  // Without a network every band fails and the request is still done
+  let surface: TravelTimeSurface | null = null;
+  let searchError: unknown = null;
+  try {
+    if (!network) {
+      throw new Error('Network not loaded');
+    }
+    surface = createTravelTimeSurface(
+      officeLocation,
+      network,
+      Math.max(...bandsMinutes) * 60,
+      undefined,
+      undefined,
+      streets ? { ...options, streets } : options
+    );
+    post({ type: 'grid', requestId, grid: surface.grid });
+  } catch (err) {
+    searchError = err;
+  }
+
+  for (const minutes of bandsMinutes) {
+    await yieldToMessages();
+    if (isCancelled()) return;
+
+    if (!surface) {
+      postError(minutes, searchError);
+      continue;
+    }
+    try {
+      // The grid was sent on its own
+      const result = getIsochroneFromSurface(surface, minutes * 60);
+      post({ type: 'band', requestId, minutes, result: result && { ...result, grid: undefined } });
+    } catch (err) {
+      postError(minutes, err);
+    }
+  }
+
+  post({ type: 'done', requestId });
+}
+
+self.onmessage = (event: MessageEvent<IsochroneWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'init':
+      network = message.network;
+      break;
+    case 'streets':
+      streets = message.streets;
+      break;
+    case 'cancel':
+      if (activeRequests.has(message.requestId)) {
+        cancelledRequests.add(message.requestId);
+      }
+      break;
+    case 'compute':
+      activeRequests.add(message.requestId);
+      computeBands(message).finally(() => {
+        activeRequests.delete(message.requestId);
+        cancelledRequests.delete(message.requestId);
+      });
+      break;
+  }
+};